@@ -13,12 +13,119 @@ import './Dashboard.css';
 interface Device {
   deviceId: string;
   name: string;
-  status: 'registered' | 'online' | 'streaming' | 'asleep' | 'offline';
+  location?: string;
+  tags: string[];
+  status: 'registered' | 'online' | 'streaming' | 'stale' | 'asleep' | 'offline' | 'dormant';
   config: Record<string, unknown>;
   lastSeen: string;
   isStreaming: boolean;
   batteryLevel?: number;
   operationMode: 'motion-triggered' | 'always-on' | 'continuous';
+  configSync?: {
+    state: 'in-sync' | 'pending' | 'failed';
+    attempts: number;
+    lastError?: string;
+    desiredVersion: number;
+    appliedVersion: number;
+    outOfSyncFields: string[];
+  };
+  availability?: {
+    uptimePercent: number | null;
+    buckets: (number | null)[];
+  };
+  battery?: {
+    percent: number;
+    voltage?: number;
+    level: 'ok' | 'low' | 'critical';
+    updatedAt: string;
+    estimatedRuntimeMs: number | null;
+    trend: (number | null)[];
+  };
+}
+
+interface PendingDevice {
+  deviceId: string;
+  operationMode: string;
+  motionSensorDetected: boolean;
+  requestedAt: string;
+  lastAttempt: string;
+}
+
+interface DecommissionedDevice {
+  deviceId: string;
+  name: string;
+  location: string | null;
+  tags: string[];
+  lastSeen: string;
+  decommissioned?: {
+    decommissionedAt: string;
+    previousStatus: string;
+    recordings: 'archive' | 'keep' | 'delete';
+    archivePath?: string;
+    reason?: string;
+  };
+}
+
+interface LifecycleReportEntry {
+  deviceId: string;
+  name?: string;
+  lastSeen: string;
+  policy: { mode: 'never' | 'dormant' | 'expire'; afterDays: number };
+  source: 'device' | 'global';
+  action: 'mark_dormant' | 'expire';
+  dueAt: string;
+  due: boolean;
+}
+
+interface SystemInfo {
+  recording: {
+    enabled: boolean;
+    outputCodec: string;
+  };
+  ffmpeg: {
+    available: boolean;
+    ffmpeg?: { path: string; source: string; version?: string };
+    error?: string;
+  };
+}
+
+interface BatteryAlert {
+  deviceId: string;
+  deviceName: string;
+  level: 'ok' | 'low' | 'critical';
+  percent: number;
+  timestamp: string;
+}
+
+interface ProtocolAlert {
+  deviceId: string;
+  deviceName: string;
+  message: string;
+  timestamp: string;
+}
+
+interface MotionAlert {
+  deviceId: string;
+  deviceName: string;
+  state: 'start' | 'end';
+  event: {
+    startedAt: string;
+    endedAt?: string;
+    peakAreaPercent: number;
+  };
+}
+
+interface DeviceGroup {
+  groupId: string;
+  name: string;
+  deviceIds: string[];
+}
+
+interface GroupCommandResult {
+  deviceId: string;
+  success: boolean;
+  message?: string;
+  error?: string;
 }
 
 interface SystemStats {
@@ -26,6 +133,7 @@ interface SystemStats {
     total: number;
     online: number;
     streaming: number;
+    dormant: number;
     offline: number;
   };
   recordings: {
@@ -42,7 +150,18 @@ interface SystemStats {
 
 const Dashboard: React.FC = () => {
   const [devices, setDevices] = useState<Device[]>([]);
+  const [pendingDevices, setPendingDevices] = useState<PendingDevice[]>([]);
+  const [decommissionedDevices, setDecommissionedDevices] = useState<DecommissionedDevice[]>([]);
+  const [lifecycleReport, setLifecycleReport] = useState<LifecycleReportEntry[]>([]);
+  const [batteryAlerts, setBatteryAlerts] = useState<BatteryAlert[]>([]);
+  const [protocolAlerts, setProtocolAlerts] = useState<ProtocolAlert[]>([]);
+  const [motionAlerts, setMotionAlerts] = useState<MotionAlert[]>([]);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [groups, setGroups] = useState<DeviceGroup[]>([]);
+  const [groupView, setGroupView] = useState(false);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
+  const [systemInfo, setSystemInfo] = useState<SystemInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<'dashboard' | 'recordings'>('dashboard');
@@ -130,12 +249,14 @@ const Dashboard: React.FC = () => {
         // Refresh the device list when server sends updated device info
         fetchDevices();
         break;
-      case 'device_update':
+      case 'device_update': {
         console.log('Device update received:', message);
-        if (typeof message.deviceId === 'string' && typeof message.status === 'string') {
-          updateDeviceStatus(message.deviceId, message.status);
+        const update = message.device as { deviceId?: unknown; status?: unknown } | undefined;
+        if (update && typeof update.deviceId === 'string' && typeof update.status === 'string') {
+          updateDeviceStatus(update.deviceId, update.status);
         }
         break;
+      }
       case 'device_status_update':
         if (typeof message.deviceId === 'string' && typeof message.status === 'string') {
           updateDeviceStatus(message.deviceId, message.status);
@@ -144,6 +265,43 @@ const Dashboard: React.FC = () => {
       case 'new_device_registered':
         fetchDevices(); // Refresh device list
         break;
+      case 'device_pending':
+        fetchPendingDevices(); // New device awaiting approval
+        fetchDecommissionedDevices(); // It may be a decommissioned camera coming back
+        break;
+      case 'battery_alert':
+        if (typeof message.deviceId === 'string') {
+          const alert = message as unknown as BatteryAlert;
+          // Keep only the latest alert per device; a recovery clears it
+          setBatteryAlerts(prev => [
+            ...prev.filter(existing => existing.deviceId !== alert.deviceId),
+            ...(alert.level === 'ok' ? [] : [alert])
+          ]);
+          fetchDevices();
+        }
+        break;
+      case 'protocol_alert':
+        if (typeof message.deviceId === 'string') {
+          const alert = message as unknown as ProtocolAlert;
+          // Firmware/server mismatches and malformed messages; keep the latest per device
+          setProtocolAlerts(prev => [
+            ...prev.filter(existing => existing.deviceId !== alert.deviceId),
+            alert
+          ]);
+          fetchDevices();
+        }
+        break;
+      case 'motion':
+        if (typeof message.deviceId === 'string') {
+          const alert = message as unknown as MotionAlert;
+          // An ended event stays listed until dismissed; keep the latest per device
+          setMotionAlerts(prev => [
+            ...prev.filter(existing => existing.deviceId !== alert.deviceId),
+            alert
+          ]);
+          fetchDevices();
+        }
+        break;
       case 'device_disconnected':
         if (typeof message.deviceId === 'string') {
           updateDeviceStatus(message.deviceId, 'offline');
@@ -178,11 +336,20 @@ const Dashboard: React.FC = () => {
   // Fetch initial data
   useEffect(() => {
     fetchDevices();
+    fetchPendingDevices();
+    fetchDecommissionedDevices();
+    fetchLifecycleReport();
+    fetchGroups();
     fetchSystemStats();
+    fetchSystemInfo(); // FFmpeg is only probed at server startup
     
     // Set up periodic refresh
     const interval = setInterval(() => {
       fetchDevices();
+      fetchPendingDevices();
+      fetchDecommissionedDevices();
+      fetchLifecycleReport();
+      fetchGroups();
       fetchSystemStats();
     }, 30000); // Refresh every 30 seconds
 
@@ -208,6 +375,93 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const fetchPendingDevices = async () => {
+    try {
+      const response = await axios.get('/api/dashboard/devices/pending', {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setPendingDevices(response.data.devices);
+      }
+    } catch (err) {
+      console.error('Error fetching pending devices:', err);
+    }
+  };
+
+  const fetchDecommissionedDevices = async () => {
+    try {
+      const response = await axios.get('/api/dashboard/devices/decommissioned', {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setDecommissionedDevices(response.data.devices);
+      }
+    } catch (err) {
+      console.error('Error fetching decommissioned devices:', err);
+    }
+  };
+
+  const fetchLifecycleReport = async () => {
+    try {
+      const response = await axios.get('/api/dashboard/lifecycle', {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setLifecycleReport(response.data.devices);
+      }
+    } catch (err) {
+      console.error('Error fetching lifecycle report:', err);
+    }
+  };
+
+  const reviewPendingDevice = async (deviceId: string, decision: 'approve' | 'reject') => {
+    if (decision === 'reject' && !window.confirm(`Reject registration from ${deviceId}?`)) {
+      return;
+    }
+
+    try {
+      const encodedDeviceId = encodeURIComponent(deviceId);
+      const response = await axios.post(`/api/dashboard/devices/${encodedDeviceId}/${decision}`, {}, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setPendingDevices(prev => prev.filter(device => device.deviceId !== deviceId));
+        fetchDevices();
+      }
+    } catch (err) {
+      console.error(`Error trying to ${decision} device:`, err);
+      setError(`Failed to ${decision} device ${deviceId}`);
+    }
+  };
+
+  const fetchGroups = async () => {
+    try {
+      const response = await axios.get('/api/dashboard/groups', {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setGroups(response.data.groups);
+      }
+    } catch (err) {
+      console.error('Error fetching groups:', err);
+    }
+  };
+
   const fetchSystemStats = async () => {
     try {
       const response = await axios.get('/api/dashboard/stats', {
@@ -224,6 +478,22 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const fetchSystemInfo = async () => {
+    try {
+      const response = await axios.get('/api/dashboard/system', {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setSystemInfo(response.data);
+      }
+    } catch (err) {
+      console.error('Error fetching system info:', err);
+    }
+  };
+
   const startDeviceStream = async (deviceId: string) => {
     try {
       // URL encode the device ID to handle colons and other special characters
@@ -250,7 +520,9 @@ const Dashboard: React.FC = () => {
       }
     } catch (err) {
       console.error('Error starting device stream:', err);
-      setError('Failed to start camera stream');
+      // The server relays the camera's own answer (e.g. timeout or sensor failure)
+      const reason = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(reason ? `Failed to start camera stream: ${reason}` : 'Failed to start camera stream');
     }
   };
 
@@ -284,7 +556,248 @@ const Dashboard: React.FC = () => {
       }
     } catch (err) {
       console.error('Error stopping device stream:', err);
-      setError('Failed to stop camera stream');
+      // The server relays the camera's own answer (e.g. timeout or sensor failure)
+      const reason = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(reason ? `Failed to stop camera stream: ${reason}` : 'Failed to stop camera stream');
+    }
+  };
+
+  const runGroupStreamCommand = async (group: DeviceGroup, command: 'start' | 'stop') => {
+    try {
+      const response = await axios.post(`/api/dashboard/groups/${group.groupId}/stream/${command}`, {}, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      const results: GroupCommandResult[] = response.data.results || [];
+      const succeededIds = results.filter(result => result.success).map(result => result.deviceId);
+
+      succeededIds.forEach(deviceId => {
+        updateDeviceStatus(deviceId, command === 'start' ? 'streaming' : 'online');
+
+        if (wsConnection && wsConnection.readyState === WebSocket.OPEN) {
+          wsConnection.send(JSON.stringify(
+            command === 'start'
+              ? { type: 'subscribe', deviceId }
+              : { action: 'unsubscribe', deviceId }
+          ));
+        }
+      });
+
+      if (wsConnection && wsConnection.readyState === WebSocket.OPEN) {
+        setStreamSubscriptions(prev => {
+          const newSet = new Set(prev);
+          succeededIds.forEach(deviceId => {
+            if (command === 'start') {
+              newSet.add(deviceId);
+            } else {
+              newSet.delete(deviceId);
+            }
+          });
+          return newSet;
+        });
+      }
+
+      const failed = results.filter(result => !result.success);
+      if (failed.length > 0) {
+        setError(`${group.name}: ${command} failed for ${failed.map(result => `${result.deviceId} (${result.error})`).join(', ')}`);
+      }
+    } catch (err) {
+      console.error(`Error running group ${command} stream:`, err);
+      setError(`Failed to ${command} streams for ${group.name}`);
+    }
+  };
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setCollapsedGroups(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(groupId)) {
+        newSet.delete(groupId);
+      } else {
+        newSet.add(groupId);
+      }
+      return newSet;
+    });
+  };
+
+  const updateDeviceDetails = async (
+    deviceId: string,
+    details: { name: string; location: string; tags: string[] }
+  ): Promise<boolean> => {
+    try {
+      const encodedDeviceId = encodeURIComponent(deviceId);
+      const response = await axios.patch(`/api/dashboard/devices/${encodedDeviceId}`, details, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        const updated = response.data.device;
+        setDevices(prevDevices =>
+          prevDevices.map(device =>
+            device.deviceId === deviceId
+              ? { ...device, name: updated.name, location: updated.location, tags: updated.tags }
+              : device
+          )
+        );
+        return true;
+      }
+    } catch (err) {
+      console.error('Error updating device details:', err);
+      setError('Failed to update camera details');
+    }
+    return false;
+  };
+
+  const updateDeviceConfig = async (
+    deviceId: string,
+    changes: { operationMode?: string; resolution?: string }
+  ): Promise<boolean> => {
+    try {
+      const encodedDeviceId = encodeURIComponent(deviceId);
+      const response = await axios.put(`/api/dashboard/devices/${encodedDeviceId}/config`, { config: changes }, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        await fetchDevices();
+        return true;
+      }
+    } catch (err) {
+      console.error('Error updating device config:', err);
+      // The server explains unsupported settings field by field
+      const errors = axios.isAxiosError(err) ? err.response?.data?.errors : undefined;
+      setError(Array.isArray(errors) && errors.length > 0
+        ? `Camera settings rejected: ${errors.map((e: { field: string; message: string }) => `${e.field} ${e.message}`).join('; ')}`
+        : 'Failed to update camera settings');
+    }
+    return false;
+  };
+
+  const updateDeviceLifecycle = async (
+    deviceId: string,
+    policy: { mode: 'never' | 'dormant' | 'expire'; afterDays: number } | null
+  ): Promise<boolean> => {
+    try {
+      const url = `/api/dashboard/devices/${encodeURIComponent(deviceId)}/lifecycle`;
+      const headers = { 'X-API-Key': 'frontend-access' };
+      // No policy means the device goes back to the server default
+      const response = policy
+        ? await axios.put(url, policy, { headers })
+        : await axios.delete(url, { headers });
+
+      if (response.data.success) {
+        await Promise.all([fetchDevices(), fetchLifecycleReport()]);
+        return true;
+      }
+    } catch (err) {
+      console.error('Error updating lifecycle policy:', err);
+      const errors = axios.isAxiosError(err) ? err.response?.data?.errors : undefined;
+      setError(Array.isArray(errors) && errors.length > 0
+        ? `Lifecycle policy rejected: ${errors.map((e: { field: string; message: string }) => `${e.field} ${e.message}`).join('; ')}`
+        : 'Failed to update lifecycle policy');
+    }
+    return false;
+  };
+
+  const updateDeviceRecordingWindow = async (
+    deviceId: string,
+    recordingWindow: { preRollSeconds: number; postRollSeconds: number } | null
+  ): Promise<boolean> => {
+    try {
+      const url = `/api/dashboard/devices/${encodeURIComponent(deviceId)}/recording-window`;
+      const headers = { 'X-API-Key': 'frontend-access' };
+      // No recording window means the device goes back to the server default
+      const response = recordingWindow
+        ? await axios.put(url, recordingWindow, { headers })
+        : await axios.delete(url, { headers });
+
+      if (response.data.success) {
+        await fetchDevices();
+        return true;
+      }
+    } catch (err) {
+      console.error('Error updating recording window:', err);
+      const errors = axios.isAxiosError(err) ? err.response?.data?.errors : undefined;
+      setError(Array.isArray(errors) && errors.length > 0
+        ? `Pre/post-roll rejected: ${errors.map((e: { field: string; message: string }) => `${e.field} ${e.message}`).join('; ')}`
+        : 'Failed to update pre/post-roll');
+    }
+    return false;
+  };
+
+  const updateDeviceMotion = async (
+    deviceId: string,
+    settings: { enabled: boolean; sensitivity: number; minAreaPercent: number; triggerRecording: boolean } | null
+  ): Promise<boolean> => {
+    try {
+      const url = `/api/dashboard/devices/${encodeURIComponent(deviceId)}/motion`;
+      const headers = { 'X-API-Key': 'frontend-access' };
+      // No settings means the device goes back to the server default
+      const response = settings
+        ? await axios.put(url, settings, { headers })
+        : await axios.delete(url, { headers });
+
+      if (response.data.success) {
+        await fetchDevices();
+        return true;
+      }
+    } catch (err) {
+      console.error('Error updating motion settings:', err);
+      const errors = axios.isAxiosError(err) ? err.response?.data?.errors : undefined;
+      setError(Array.isArray(errors) && errors.length > 0
+        ? `Motion settings rejected: ${errors.map((e: { field: string; message: string }) => `${e.field} ${e.message}`).join('; ')}`
+        : 'Failed to update motion settings');
+    }
+    return false;
+  };
+
+  const sendPowerCommand = async (deviceId: string, action: 'reboot' | 'sleep', durationMs?: number) => {
+    try {
+      const encodedDeviceId = encodeURIComponent(deviceId);
+      await axios.post(`/api/dashboard/devices/${encodedDeviceId}/${action}`, action === 'sleep' ? { durationMs } : {}, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+    } catch (err) {
+      console.error(`Error sending ${action} to device:`, err);
+      const reason = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(reason ? `Failed to ${action} camera: ${reason}` : `Failed to ${action} camera`);
+    }
+    // Show the tracked result either way
+    await fetchDevices();
+  };
+
+  const rebootDevice = (deviceId: string) => sendPowerCommand(deviceId, 'reboot');
+
+  const sleepDevice = (deviceId: string, durationMs: number) => sendPowerCommand(deviceId, 'sleep', durationMs);
+
+  const decommissionDevice = async (deviceId: string, recordings: 'archive' | 'keep' | 'delete') => {
+    try {
+      const encodedDeviceId = encodeURIComponent(deviceId);
+      const response = await axios.post(`/api/dashboard/devices/${encodedDeviceId}/decommission`, {
+        recordings,
+        confirmDeviceId: deviceId
+      }, {
+        headers: {
+          'X-API-Key': 'frontend-access'
+        }
+      });
+
+      if (response.data.success) {
+        setDevices(prev => prev.filter(device => device.deviceId !== deviceId));
+        fetchDecommissionedDevices();
+        fetchGroups();
+      }
+    } catch (err) {
+      console.error('Error decommissioning device:', err);
+      const reason = axios.isAxiosError(err) ? err.response?.data?.error : undefined;
+      setError(reason ? `Failed to decommission ${deviceId}: ${reason}` : `Failed to decommission ${deviceId}`);
     }
   };
 
@@ -309,6 +822,45 @@ const Dashboard: React.FC = () => {
     return `${minutes}m`;
   };
 
+  const describeRecordings = (info: NonNullable<DecommissionedDevice['decommissioned']>): string => {
+    switch (info.recordings) {
+      case 'archive': return info.archivePath ? `archived to ${info.archivePath}` : 'none to archive';
+      case 'keep': return 'kept in place';
+      case 'delete': return 'deleted';
+    }
+  };
+
+  const pendingRemovals = lifecycleReport.filter(entry => entry.action === 'expire');
+
+  const availableTags = Array.from(new Set(devices.flatMap(device => device.tags))).sort();
+  const visibleDevices = tagFilter
+    ? devices.filter(device => device.tags.includes(tagFilter))
+    : devices;
+
+  const groupedDeviceIds = new Set(groups.flatMap(group => group.deviceIds));
+  const ungroupedDeviceIds = devices
+    .map(device => device.deviceId)
+    .filter(deviceId => !groupedDeviceIds.has(deviceId));
+
+  const renderDeviceCard = (device: Device) => (
+    <DeviceCard
+      key={device.deviceId}
+      device={device}
+      onStartStream={startDeviceStream}
+      onStopStream={stopDeviceStream}
+      onOpenVideo={openVideoPlayer}
+      onUpdateDetails={updateDeviceDetails}
+      onUpdateConfig={updateDeviceConfig}
+      onReboot={rebootDevice}
+      onSleep={sleepDevice}
+      onDecommission={decommissionDevice}
+      onUpdateLifecycle={updateDeviceLifecycle}
+      onUpdateRecordingWindow={updateDeviceRecordingWindow}
+      onUpdateMotion={updateDeviceMotion}
+      isSubscribed={streamSubscriptions.has(device.deviceId)}
+    />
+  );
+
   if (loading) {
     return (
       <div className="dashboard-loading">
@@ -359,6 +911,9 @@ const Dashboard: React.FC = () => {
               <span className="online">Online: {systemStats.devices.online}</span>
               <span className="streaming">Streaming: {systemStats.devices.streaming}</span>
               <span className="offline">Offline: {systemStats.devices.offline}</span>
+              {systemStats.devices.dormant > 0 && (
+                <span className="dormant">Dormant: {systemStats.devices.dormant}</span>
+              )}
             </div>
           </div>
           <div className="stat-card">
@@ -379,28 +934,258 @@ const Dashboard: React.FC = () => {
       )}
 
       <main className="dashboard-content">
-        {activeView === 'dashboard' && (
+        {activeView === 'dashboard' && batteryAlerts.length > 0 && (
+          <div className="battery-alerts">
+            {batteryAlerts.map(alert => (
+              <div key={alert.deviceId} className={`battery-alert ${alert.level}`}>
+                <span>
+                  {alert.level === 'critical' ? '🪫 Critical battery' : '🔋 Low battery'}: {alert.deviceName} at {alert.percent}%
+                </span>
+                <button
+                  onClick={() => setBatteryAlerts(prev => prev.filter(existing => existing.deviceId !== alert.deviceId))}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {systemInfo && !systemInfo.recording.enabled && (
+          <div className="protocol-alerts">
+            <div className="protocol-alert">
+              <span>🎞️ Recording disabled: {systemInfo.ffmpeg.error ?? 'FFmpeg is not available'}</span>
+            </div>
+          </div>
+        )}
+
+        {activeView === 'dashboard' && protocolAlerts.length > 0 && (
+          <div className="protocol-alerts">
+            {protocolAlerts.map(alert => (
+              <div key={alert.deviceId} className="protocol-alert">
+                <span>⚠️ Protocol problem: {alert.deviceName}: {alert.message}</span>
+                <button
+                  onClick={() => setProtocolAlerts(prev => prev.filter(existing => existing.deviceId !== alert.deviceId))}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeView === 'dashboard' && motionAlerts.length > 0 && (
+          <div className="motion-alerts">
+            {motionAlerts.map(alert => (
+              <div key={alert.deviceId} className={`motion-alert ${alert.state}`}>
+                <span>
+                  🏃 Motion on {alert.deviceName} at {new Date(alert.event.startedAt).toLocaleTimeString()}
+                  {alert.event.endedAt
+                    ? `, ended ${new Date(alert.event.endedAt).toLocaleTimeString()}`
+                    : ' (ongoing)'}
+                </span>
+                <button
+                  onClick={() => setMotionAlerts(prev => prev.filter(existing => existing.deviceId !== alert.deviceId))}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeView === 'dashboard' && pendingDevices.length > 0 && (
+          <section className="onboarding-panel">
+            <h2>🆕 Devices Awaiting Approval ({pendingDevices.length})</h2>
+            <p className="onboarding-hint">
+              These cameras asked to register. Approve only devices you recognise.
+            </p>
+            <ul className="pending-list">
+              {pendingDevices.map(device => (
+                <li key={device.deviceId} className="pending-item">
+                  <div className="pending-info">
+                    <span className="pending-id">{device.deviceId}</span>
+                    <span className="pending-meta">
+                      Mode: {device.operationMode}
+                      {device.motionSensorDetected ? ' · PIR sensor' : ''}
+                      {' · '}First request: {new Date(device.requestedAt).toLocaleString()}
+                      {' · '}Last attempt: {new Date(device.lastAttempt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="pending-actions">
+                    <button
+                      className="action-button approve"
+                      onClick={() => reviewPendingDevice(device.deviceId, 'approve')}
+                    >
+                      ✅ Approve
+                    </button>
+                    <button
+                      className="action-button reject"
+                      onClick={() => reviewPendingDevice(device.deviceId, 'reject')}
+                    >
+                      ❌ Reject
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {activeView === 'dashboard' && pendingRemovals.length > 0 && (
+          <section className="lifecycle-panel">
+            <h2>⏳ Scheduled for Removal ({pendingRemovals.length})</h2>
+            <p className="onboarding-hint">
+              These cameras have been offline and their lifecycle policy removes them. Change the policy in Edit to keep one.
+            </p>
+            <ul className="pending-list">
+              {pendingRemovals.map(entry => (
+                <li key={entry.deviceId} className="pending-item">
+                  <div className="pending-info">
+                    <span className="pending-id">{entry.name || entry.deviceId}</span>
+                    <span className="pending-meta">
+                      Last seen: {new Date(entry.lastSeen).toLocaleString()}
+                      {' · '}{entry.due ? 'Removed at the next cleanup' : `Removed after ${new Date(entry.dueAt).toLocaleString()}`}
+                      {' · '}Policy: {entry.policy.afterDays} days{entry.source === 'global' ? ' (default)' : ''}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {activeView === 'dashboard' && availableTags.length > 0 && (
+          <div className="tag-filter">
+            <span className="tag-filter-label">Filter by tag:</span>
+            <button
+              className={tagFilter === null ? 'tag-chip active' : 'tag-chip'}
+              onClick={() => setTagFilter(null)}
+            >
+              All
+            </button>
+            {availableTags.map(tag => (
+              <button
+                key={tag}
+                className={tagFilter === tag ? 'tag-chip active' : 'tag-chip'}
+                onClick={() => setTagFilter(tag)}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {activeView === 'dashboard' && groups.length > 0 && (
+          <div className="view-toggle">
+            <button
+              className={groupView ? 'tag-chip' : 'tag-chip active'}
+              onClick={() => setGroupView(false)}
+            >
+              All cameras
+            </button>
+            <button
+              className={groupView ? 'tag-chip active' : 'tag-chip'}
+              onClick={() => setGroupView(true)}
+            >
+              By group
+            </button>
+          </div>
+        )}
+
+        {activeView === 'dashboard' && groupView && groups.length > 0 && (
+          <div className="device-groups">
+            {[...groups, { groupId: 'ungrouped', name: 'Ungrouped', deviceIds: ungroupedDeviceIds }].map(group => {
+              const members = visibleDevices.filter(device => group.deviceIds.includes(device.deviceId));
+              const isCollapsed = collapsedGroups.has(group.groupId);
+              const isRealGroup = group.groupId !== 'ungrouped';
+
+              if (!isRealGroup && members.length === 0) {
+                return null;
+              }
+
+              return (
+                <section key={group.groupId} className="device-group">
+                  <div className="device-group-header">
+                    <button
+                      className="group-collapse"
+                      onClick={() => toggleGroupCollapsed(group.groupId)}
+                    >
+                      {isCollapsed ? '▶' : '▼'} {group.name}
+                      <span className="group-count">{members.length} cameras</span>
+                    </button>
+                    {isRealGroup && (
+                      <div className="group-actions">
+                        <button
+                          className="action-button"
+                          onClick={() => runGroupStreamCommand(group, 'start')}
+                        >
+                          📹 Start all
+                        </button>
+                        <button
+                          className="action-button secondary"
+                          onClick={() => runGroupStreamCommand(group, 'stop')}
+                        >
+                          ⏹️ Stop all
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {!isCollapsed && (
+                    <div className="devices-grid">
+                      {members.map(renderDeviceCard)}
+                    </div>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {activeView === 'dashboard' && !(groupView && groups.length > 0) && (
           <div className="devices-grid">
-            {devices.length === 0 ? (
+            {visibleDevices.length === 0 ? (
               <div className="empty-state">
-                <h3>No cameras detected</h3>
-                <p>Waiting for ESP32-CAM devices to register...</p>
+                {tagFilter ? (
+                  <h3>No cameras tagged #{tagFilter}</h3>
+                ) : (
+                  <>
+                    <h3>No cameras detected</h3>
+                    <p>Waiting for ESP32-CAM devices to register...</p>
+                  </>
+                )}
               </div>
             ) : (
-              devices.map(device => (
-                <DeviceCard
-                  key={device.deviceId}
-                  device={device}
-                  onStartStream={startDeviceStream}
-                  onStopStream={stopDeviceStream}
-                  onOpenVideo={openVideoPlayer}
-                  isSubscribed={streamSubscriptions.has(device.deviceId)}
-                />
-              ))
+              visibleDevices.map(renderDeviceCard)
             )}
           </div>
         )}
 
+        {activeView === 'dashboard' && decommissionedDevices.length > 0 && (
+          <section className="decommissioned-panel">
+            <h2>🗄️ Decommissioned Devices ({decommissionedDevices.length})</h2>
+            <p className="onboarding-hint">
+              Retired cameras. One that registers again returns to the approval list with a new key.
+            </p>
+            <ul className="pending-list">
+              {decommissionedDevices.map(device => (
+                <li key={device.deviceId} className="pending-item">
+                  <div className="pending-info">
+                    <span className="pending-id">{device.name}{device.name !== device.deviceId ? ` (${device.deviceId})` : ''}</span>
+                    <span className="pending-meta">
+                      {device.location ? `📍 ${device.location} · ` : ''}
+                      {device.decommissioned
+                        ? `Decommissioned: ${new Date(device.decommissioned.decommissionedAt).toLocaleString()} · Recordings: ${describeRecordings(device.decommissioned)}`
+                        : `Last seen: ${new Date(device.lastSeen).toLocaleString()}`}
+                      {device.decommissioned?.reason ? ` · Reason: ${device.decommissioned.reason}` : ''}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {activeView === 'recordings' && (
           <RecordingsBrowser onPlayRecording={openVideoPlayer} />
         )}
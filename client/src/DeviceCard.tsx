@@ -6,22 +6,211 @@
 import React, { useState, useRef, useEffect } from 'react';
 import './DeviceCard.css';
 
+interface ConfigSync {
+  state: 'in-sync' | 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  desiredVersion: number;
+  appliedVersion: number;
+  outOfSyncFields: string[];
+}
+
+interface Availability {
+  uptimePercent: number | null;
+  buckets: (number | null)[]; // Hourly uptime over the last 24 hours, oldest first
+}
+
+interface Battery {
+  percent: number;
+  voltage?: number;
+  level: 'ok' | 'low' | 'critical';
+  updatedAt: string;
+  estimatedRuntimeMs: number | null;
+  trend: (number | null)[]; // Hourly averages over the last 24 hours, oldest first
+}
+
+interface Capabilities {
+  sensorModel?: string;
+  maxResolution?: string;
+  flashLed: boolean;
+  pir: boolean;
+  psram: boolean;
+  sdCard: boolean;
+  commands?: string[];
+}
+
+interface ConfigOptions {
+  resolution: { values?: string[] };    // Resolutions the sensor supports
+  operationMode: { values?: string[] }; // Modes the hardware supports (e.g. no motion-triggered without PIR)
+}
+
+interface FirmwareUpdate {
+  state: 'pending' | 'downloading' | 'installing' | 'succeeded' | 'failed' | 'rolled_back';
+  targetVersion: string;
+  fromVersion?: string;
+  progress?: number;
+  message?: string;
+  attempts: number;
+  updatedAt: string;
+}
+
+interface ProtocolInfo {
+  version: number;
+  status: 'current' | 'outdated' | 'unsupported';
+  message?: string;
+  lastInvalidMessage?: string;
+}
+
+interface PowerAction {
+  action: 'reboot' | 'sleep';
+  state: 'awaiting_reconnect' | 'completed' | 'overdue' | 'failed';
+  requestedAt: string;
+  durationMs?: number;
+  expectedBackBy?: string;
+  completedAt?: string;
+  message?: string;
+}
+
+interface ActiveSchedule {
+  scheduleId: string;
+  scheduleName: string;
+  target: { type: 'device' | 'group'; id: string };
+  entry: {
+    entryId: string;
+    days: number[];
+    time: string;
+    config: Record<string, string | number>;
+  };
+  startedAt: string;
+  skippedFields?: string[];
+}
+
+interface DutyCycleSession {
+  sessionId: string;
+  phase: 'streaming' | 'sleep_requested' | 'sleeping' | 'closed';
+  startedAt: string;
+  plannedEndAt: string;
+  sleepDurationMs: number;
+  expectedWakeAt?: string;
+  closeReason?: string;
+  issues: { type: 'overrun' | 'ended_early' | 'sleep_failed' | 'missed_wake'; message: string; at: string }[];
+}
+
+interface LifecyclePolicy {
+  mode: 'never' | 'dormant' | 'expire';
+  afterDays: number;
+}
+
+interface RecordingWindow {
+  preRollSeconds: number;
+  postRollSeconds: number;
+}
+
+interface MotionSettings {
+  enabled: boolean;
+  sensitivity: number;
+  minAreaPercent: number;
+  triggerRecording: boolean;
+}
+
 interface Device {
   deviceId: string;
   name: string;
-  status: 'registered' | 'online' | 'streaming' | 'asleep' | 'offline';
+  location?: string;
+  tags: string[];
+  status: 'registered' | 'online' | 'streaming' | 'stale' | 'asleep' | 'offline' | 'dormant';
   config: any;
   lastSeen: string;
   isStreaming: boolean;
   batteryLevel?: number;
   operationMode: 'motion-triggered' | 'always-on' | 'continuous';
+  capabilities?: Capabilities;
+  configOptions?: ConfigOptions;
+  configSync?: ConfigSync;
+  availability?: Availability;
+  battery?: Battery;
+  firmwareVersion?: string;
+  targetFirmwareVersion?: string;
+  firmwareUpdate?: FirmwareUpdate;
+  protocol?: ProtocolInfo;
+  powerAction?: PowerAction;
+  queuedCommands?: number;
+  activeSchedule?: ActiveSchedule;
+  dutyCycle?: {
+    current?: DutyCycleSession;
+    last?: DutyCycleSession;
+  };
+  lifecycle?: {
+    policy: LifecyclePolicy;
+    source: 'device' | 'global';
+  };
+  recordingWindow?: {
+    window: RecordingWindow;
+    source: 'device' | 'global';
+  };
+  motion?: {
+    settings: MotionSettings;
+    source: 'device' | 'global';
+    lastEvent?: {
+      startedAt: string;
+      endedAt?: string;
+      peakAreaPercent: number;
+    };
+  };
+}
+
+interface DeviceDetails {
+  name: string;
+  location: string;
+  tags: string[];
 }
 
+interface ConfigChanges {
+  operationMode?: string;
+  resolution?: string;
+}
+
+// Choices offered for a remote sleep
+const SLEEP_DURATIONS = [
+  { label: '5 min', ms: 5 * 60 * 1000 },
+  { label: '30 min', ms: 30 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '6 hours', ms: 6 * 60 * 60 * 1000 }
+];
+
+// Short names for duty cycle flags
+const DUTY_CYCLE_ISSUE_LABELS: Record<string, string> = {
+  overrun: 'Overran window',
+  ended_early: 'Ended early',
+  sleep_failed: 'Sleep refused',
+  missed_wake: 'Missed wake-up'
+};
+
+// What happens to a camera's recordings when it is decommissioned
+const RECORDING_DISPOSITIONS = [
+  { value: 'archive', label: 'Archive recordings' },
+  { value: 'keep', label: 'Keep recordings' },
+  { value: 'delete', label: 'Delete recordings' }
+] as const;
+
+type RecordingDisposition = typeof RECORDING_DISPOSITIONS[number]['value'];
+
+// Schedule entry days, indexed 0 = Sunday as the server sends them
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 interface DeviceCardProps {
   device: Device;
   onStartStream: (deviceId: string) => void;
   onStopStream: (deviceId: string) => void;
   onOpenVideo: (device: Device, mode: 'live' | 'recorded') => void;
+  onUpdateDetails: (deviceId: string, details: DeviceDetails) => Promise<boolean>;
+  onUpdateConfig: (deviceId: string, changes: ConfigChanges) => Promise<boolean>;
+  onReboot: (deviceId: string) => Promise<void>;
+  onSleep: (deviceId: string, durationMs: number) => Promise<void>;
+  onDecommission: (deviceId: string, recordings: RecordingDisposition) => Promise<void>;
+  onUpdateLifecycle: (deviceId: string, policy: LifecyclePolicy | null) => Promise<boolean>;
+  onUpdateRecordingWindow: (deviceId: string, recordingWindow: RecordingWindow | null) => Promise<boolean>;
+  onUpdateMotion: (deviceId: string, settings: MotionSettings | null) => Promise<boolean>;
   isSubscribed: boolean;
 }
 
@@ -30,10 +219,38 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
   onStartStream,
   onStopStream,
   onOpenVideo,
+  onUpdateDetails,
+  onUpdateConfig,
+  onReboot,
+  onSleep,
+  onDecommission,
+  onUpdateLifecycle,
+  onUpdateRecordingWindow,
+  onUpdateMotion,
   isSubscribed
 }) => {
   const [currentFrame, setCurrentFrame] = useState<string | null>(null);
   const [lastFrameTime, setLastFrameTime] = useState<number>(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editName, setEditName] = useState('');
+  const [editLocation, setEditLocation] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [editMode, setEditMode] = useState('');
+  const [editResolution, setEditResolution] = useState('');
+  const [editLifecycleMode, setEditLifecycleMode] = useState<LifecyclePolicy['mode'] | 'default'>('default');
+  const [editLifecycleDays, setEditLifecycleDays] = useState(7);
+  const [editWindowCustom, setEditWindowCustom] = useState(false);
+  const [editPreRoll, setEditPreRoll] = useState(5);
+  const [editPostRoll, setEditPostRoll] = useState(10);
+  const [editMotionMode, setEditMotionMode] = useState<'default' | 'on' | 'off'>('default');
+  const [editSensitivity, setEditSensitivity] = useState(80);
+  const [editMinArea, setEditMinArea] = useState(1);
+  const [editMotionRecording, setEditMotionRecording] = useState(true);
+  const [sleepDuration, setSleepDuration] = useState(SLEEP_DURATIONS[1].ms);
+  const [isSendingPower, setIsSendingPower] = useState(false);
+  const [recordingDisposition, setRecordingDisposition] = useState<RecordingDisposition>('archive');
+  const [isDecommissioning, setIsDecommissioning] = useState(false);
   const frameUrlRef = useRef<string | null>(null);
 
   // Listen for video frames when subscribed
@@ -77,8 +294,10 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
     switch (status) {
       case 'online': return '#4CAF50';
       case 'streaming': return '#2196F3';
+      case 'stale': return '#FFC107';
       case 'asleep': return '#FF9800';
       case 'offline': return '#F44336';
+      case 'dormant': return '#795548';
       default: return '#9E9E9E';
     }
   };
@@ -87,8 +306,10 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
     switch (status) {
       case 'online': return '🟢';
       case 'streaming': return '📹';
+      case 'stale': return '⚠️';
       case 'asleep': return '😴';
       case 'offline': return '🔴';
+      case 'dormant': return '💤';
       default: return '⚪';
     }
   };
@@ -102,6 +323,122 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
     }
   };
 
+  const getConfigSyncTooltip = (sync: ConfigSync): string => {
+    const lines = [`Desired v${sync.desiredVersion}, device has v${sync.appliedVersion}`];
+    if (sync.outOfSyncFields.length > 0) {
+      lines.push(`Differs: ${sync.outOfSyncFields.join(', ')}`);
+    }
+    if (sync.lastError) {
+      lines.push(sync.lastError);
+    }
+    return lines.join('\n');
+  };
+
+  const getAvailabilityClass = (uptime: number | null): string => {
+    if (uptime === null) return 'unknown';
+    if (uptime >= 99) return 'up';
+    if (uptime > 0) return 'partial';
+    return 'down';
+  };
+
+  const getAvailabilityTooltip = (uptime: number | null, hoursAgo: number): string => {
+    const label = hoursAgo === 0 ? 'Last hour' : `${hoursAgo + 1}h to ${hoursAgo}h ago`;
+    return uptime === null ? `${label}: no data` : `${label}: ${uptime}% up`;
+  };
+
+  const getFirmwareUpdateLabel = (update: FirmwareUpdate): string => {
+    switch (update.state) {
+      case 'pending': return `⏳ ${update.targetVersion} queued`;
+      case 'downloading': return `⬇️ ${update.targetVersion} ${update.progress ?? 0}%`;
+      case 'installing': return `⚙️ Installing ${update.targetVersion}`;
+      case 'succeeded': return '✅ Updated';
+      case 'failed': return '❌ Update failed';
+      case 'rolled_back': return '↩️ Rolled back';
+    }
+  };
+
+  const getPowerActionLabel = (powerAction: PowerAction): string => {
+    const verb = powerAction.action === 'reboot' ? 'Reboot' : 'Sleep';
+    switch (powerAction.state) {
+      case 'awaiting_reconnect': return powerAction.action === 'reboot' ? '🔄 Rebooting…' : '😴 Sleeping';
+      case 'completed': return `✅ ${verb} done`;
+      case 'overdue': return `⚠️ Not back after ${verb.toLowerCase()}`;
+      case 'failed': return `❌ ${verb} failed`;
+    }
+  };
+
+  const getScheduleTitle = (schedule: ActiveSchedule): string => {
+    const settings = Object.entries(schedule.entry.config).map(([field, value]) => `${field}: ${value}`);
+    return [
+      `${schedule.target.type === 'group' ? 'Group' : 'Device'} schedule, since ${new Date(schedule.startedAt).toLocaleString()}`,
+      ...settings,
+      schedule.skippedFields && `Not supported by this camera: ${schedule.skippedFields.join(', ')}`
+    ].filter(Boolean).join('\n');
+  };
+
+  const getDutyCycleLabel = (session: DutyCycleSession): string => {
+    const time = (iso?: string) => iso ? new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '—';
+    switch (session.phase) {
+      case 'streaming': return `🎥 Streaming until ${time(session.plannedEndAt)}`;
+      case 'sleep_requested': return '💤 Going to sleep';
+      case 'sleeping': return `😴 Back by ${time(session.expectedWakeAt)}`;
+      case 'closed': return '✅ Cycle complete';
+    }
+  };
+
+  const dutyCycleSession = device.dutyCycle?.current ?? device.dutyCycle?.last;
+  // Flags from the finished cycle stay visible while the next one runs
+  const dutyCycleIssues = [...(device.dutyCycle?.current?.issues ?? []), ...(device.dutyCycle?.last?.issues ?? [])];
+
+  const getLifecycleLabel = (policy: LifecyclePolicy): string => {
+    switch (policy.mode) {
+      case 'never': return 'Kept indefinitely';
+      case 'dormant': return `Dormant after ${policy.afterDays}d`;
+      case 'expire': return `Removed after ${policy.afterDays}d`;
+    }
+  };
+
+  const handleReboot = async () => {
+    if (!window.confirm(`Reboot ${device.name || device.deviceId}?`)) {
+      return;
+    }
+    setIsSendingPower(true);
+    await onReboot(device.deviceId);
+    setIsSendingPower(false);
+  };
+
+  const handleSleep = async () => {
+    setIsSendingPower(true);
+    await onSleep(device.deviceId, sleepDuration);
+    setIsSendingPower(false);
+  };
+
+  const handleDecommission = async () => {
+    const label = RECORDING_DISPOSITIONS.find(option => option.value === recordingDisposition)?.label;
+    if (!window.confirm(`Decommission ${device.name || device.deviceId}? Its key is revoked and it must be approved again to reconnect.\n\n${label}.`)) {
+      return;
+    }
+    setIsDecommissioning(true);
+    await onDecommission(device.deviceId, recordingDisposition);
+    setIsDecommissioning(false);
+  };
+
+  const formatRuntime = (ms: number): string => {
+    const hours = Math.floor(ms / 3600000);
+    if (hours < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+    if (hours < 48) return `${hours}h`;
+    return `${Math.floor(hours / 24)}d`;
+  };
+
+  // Polyline points for the battery trend sparkline (0-100% mapped onto a 100x20 box)
+  const getTrendPoints = (trend: (number | null)[]): string => {
+    const step = trend.length > 1 ? 100 / (trend.length - 1) : 0;
+    return trend
+      .map((percent, index) => percent === null ? null : `${(index * step).toFixed(1)},${(20 - percent / 5).toFixed(1)}`)
+      .filter((point): point is string => point !== null)
+      .join(' ');
+  };
+
   const formatLastSeen = (dateString: string): string => {
     const date = new Date(dateString);
     const now = new Date();
@@ -126,6 +463,99 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
     }
   };
 
+  const startEditing = () => {
+    // The server falls back to the device ID when no name is set
+    setEditName(device.name === device.deviceId ? '' : device.name);
+    setEditLocation(device.location || '');
+    setEditTags(device.tags.join(', '));
+    setEditMode(device.operationMode);
+    setEditResolution(device.config?.resolution || '');
+    setEditLifecycleMode(device.lifecycle?.source === 'device' ? device.lifecycle.policy.mode : 'default');
+    setEditLifecycleDays(device.lifecycle?.policy.afterDays ?? 7);
+    setEditWindowCustom(device.recordingWindow?.source === 'device');
+    setEditPreRoll(device.recordingWindow?.window.preRollSeconds ?? 5);
+    setEditPostRoll(device.recordingWindow?.window.postRollSeconds ?? 10);
+    const motionSettings = device.motion?.settings;
+    setEditMotionMode(device.motion?.source === 'device' ? (motionSettings?.enabled ? 'on' : 'off') : 'default');
+    setEditSensitivity(motionSettings?.sensitivity ?? 80);
+    setEditMinArea(motionSettings?.minAreaPercent ?? 1);
+    setEditMotionRecording(motionSettings?.triggerRecording ?? true);
+    setIsEditing(true);
+  };
+
+  const saveDetails = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+
+    const saved = await onUpdateDetails(device.deviceId, {
+      name: editName.trim(),
+      location: editLocation.trim(),
+      tags: editTags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+    });
+
+    // Only send camera settings that changed, so an untouched form doesn't bump the config version
+    const changes: ConfigChanges = {};
+    if (editMode && editMode !== device.operationMode) {
+      changes.operationMode = editMode;
+    }
+    if (editResolution && editResolution !== device.config?.resolution) {
+      changes.resolution = editResolution;
+    }
+    const configSaved = Object.keys(changes).length === 0 || await onUpdateConfig(device.deviceId, changes);
+
+    const ownPolicy = device.lifecycle?.source === 'device' ? device.lifecycle.policy : null;
+    const lifecycleChanged = editLifecycleMode === 'default'
+      ? ownPolicy !== null
+      : ownPolicy?.mode !== editLifecycleMode || ownPolicy.afterDays !== editLifecycleDays;
+    const lifecycleSaved = !lifecycleChanged || await onUpdateLifecycle(
+      device.deviceId,
+      editLifecycleMode === 'default' ? null : { mode: editLifecycleMode, afterDays: editLifecycleDays }
+    );
+
+    const ownWindow = device.recordingWindow?.source === 'device' ? device.recordingWindow.window : null;
+    const windowChanged = editWindowCustom
+      ? ownWindow?.preRollSeconds !== editPreRoll || ownWindow.postRollSeconds !== editPostRoll
+      : ownWindow !== null;
+    const windowSaved = !windowChanged || await onUpdateRecordingWindow(
+      device.deviceId,
+      editWindowCustom ? { preRollSeconds: editPreRoll, postRollSeconds: editPostRoll } : null
+    );
+
+    const ownMotion = device.motion?.source === 'device' ? device.motion.settings : null;
+    const editedMotion: MotionSettings = {
+      enabled: editMotionMode === 'on',
+      sensitivity: editSensitivity,
+      minAreaPercent: editMinArea,
+      triggerRecording: editMotionRecording
+    };
+    const motionChanged = editMotionMode === 'default'
+      ? ownMotion !== null
+      : ownMotion?.enabled !== editedMotion.enabled ||
+        ownMotion.sensitivity !== editedMotion.sensitivity ||
+        ownMotion.minAreaPercent !== editedMotion.minAreaPercent ||
+        ownMotion.triggerRecording !== editedMotion.triggerRecording;
+    const motionSaved = !motionChanged || await onUpdateMotion(
+      device.deviceId,
+      editMotionMode === 'default' ? null : editedMotion
+    );
+
+    setIsSaving(false);
+    if (saved && configSaved && lifecycleSaved && windowSaved && motionSaved) {
+      setIsEditing(false);
+    }
+  };
+
+  const getCapabilitySummary = (capabilities: Capabilities): string => {
+    const features = [
+      capabilities.sensorModel,
+      capabilities.pir && 'PIR',
+      capabilities.flashLed && 'Flash',
+      capabilities.psram && 'PSRAM',
+      capabilities.sdCard && 'SD card'
+    ];
+    return features.filter(Boolean).join(' · ') || 'No optional hardware';
+  };
+
   const canStartStream = device.status === 'online' || device.status === 'asleep';
   const isCurrentlyStreaming = device.status === 'streaming';
 
@@ -139,6 +569,16 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
           <div className="device-id">
             {device.deviceId}
           </div>
+          {device.location && (
+            <div className="device-location">📍 {device.location}</div>
+          )}
+          {device.tags.length > 0 && (
+            <div className="device-tags">
+              {device.tags.map(tag => (
+                <span key={tag} className="device-tag">#{tag}</span>
+              ))}
+            </div>
+          )}
         </div>
         <div className="device-status">
           <span 
@@ -147,9 +587,181 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
           >
             {getStatusIcon(device.status)} {device.status}
           </span>
+          {device.configSync && device.configSync.state !== 'in-sync' && (
+            <span
+              className={`config-sync-badge ${device.configSync.state}`}
+              title={getConfigSyncTooltip(device.configSync)}
+            >
+              {device.configSync.state === 'failed' ? '❌ Config not applied' : '⏳ Config pending'}
+            </span>
+          )}
         </div>
       </div>
 
+      {isEditing && (
+        <form className="device-edit-form" onSubmit={saveDetails}>
+          <label>
+            Name
+            <input
+              type="text"
+              value={editName}
+              maxLength={64}
+              placeholder={device.deviceId}
+              onChange={(e) => setEditName(e.target.value)}
+            />
+          </label>
+          <label>
+            Location
+            <input
+              type="text"
+              value={editLocation}
+              maxLength={128}
+              placeholder="e.g. Garage, north wall"
+              onChange={(e) => setEditLocation(e.target.value)}
+            />
+          </label>
+          <label>
+            Tags
+            <input
+              type="text"
+              value={editTags}
+              placeholder="Comma separated, e.g. outdoor, driveway"
+              onChange={(e) => setEditTags(e.target.value)}
+            />
+          </label>
+          {device.configOptions?.operationMode.values && (
+            <label>
+              Mode
+              <select value={editMode} onChange={(e) => setEditMode(e.target.value)}>
+                {device.configOptions.operationMode.values.map(mode => (
+                  <option key={mode} value={mode}>{mode}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {device.configOptions?.resolution.values && (
+            <label>
+              Resolution
+              <select value={editResolution} onChange={(e) => setEditResolution(e.target.value)}>
+                {device.configOptions.resolution.values.map(resolution => (
+                  <option key={resolution} value={resolution}>{resolution}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label>
+            When offline
+            <select
+              value={editLifecycleMode}
+              onChange={(e) => setEditLifecycleMode(e.target.value as LifecyclePolicy['mode'] | 'default')}
+            >
+              <option value="default">Use server default</option>
+              <option value="never">Keep as is</option>
+              <option value="dormant">Mark dormant</option>
+              <option value="expire">Remove</option>
+            </select>
+          </label>
+          {(editLifecycleMode === 'dormant' || editLifecycleMode === 'expire') && (
+            <label>
+              After (days)
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={editLifecycleDays}
+                onChange={(e) => setEditLifecycleDays(Number(e.target.value))}
+              />
+            </label>
+          )}
+          <label>
+            Pre/post-roll
+            <select
+              value={editWindowCustom ? 'custom' : 'default'}
+              onChange={(e) => setEditWindowCustom(e.target.value === 'custom')}
+            >
+              <option value="default">Use server default</option>
+              <option value="custom">Custom</option>
+            </select>
+          </label>
+          {editWindowCustom && (
+            <>
+              <label>
+                Before (s)
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={editPreRoll}
+                  onChange={(e) => setEditPreRoll(Number(e.target.value))}
+                />
+              </label>
+              <label>
+                After (s)
+                <input
+                  type="number"
+                  min={0}
+                  max={300}
+                  value={editPostRoll}
+                  onChange={(e) => setEditPostRoll(Number(e.target.value))}
+                />
+              </label>
+            </>
+          )}
+          <label>
+            Motion detection
+            <select
+              value={editMotionMode}
+              onChange={(e) => setEditMotionMode(e.target.value as 'default' | 'on' | 'off')}
+            >
+              <option value="default">Use server default</option>
+              <option value="on">On</option>
+              <option value="off">Off</option>
+            </select>
+          </label>
+          {editMotionMode === 'on' && (
+            <>
+              <label>
+                Sensitivity (1-100)
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={editSensitivity}
+                  onChange={(e) => setEditSensitivity(Number(e.target.value))}
+                />
+              </label>
+              <label>
+                Min. area (%)
+                <input
+                  type="number"
+                  min={0.1}
+                  max={100}
+                  step={0.1}
+                  value={editMinArea}
+                  onChange={(e) => setEditMinArea(Number(e.target.value))}
+                />
+              </label>
+              <label className="edit-checkbox">
+                <input
+                  type="checkbox"
+                  checked={editMotionRecording}
+                  onChange={(e) => setEditMotionRecording(e.target.checked)}
+                />
+                Record only on motion
+              </label>
+            </>
+          )}
+          <div className="edit-actions">
+            <button type="submit" className="action-button save" disabled={isSaving}>
+              {isSaving ? 'Saving...' : '💾 Save'}
+            </button>
+            <button type="button" className="action-button cancel" onClick={() => setIsEditing(false)}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
       <div className="video-preview">
         {isSubscribed && currentFrame ? (
           <img 
@@ -182,7 +794,39 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
           </span>
         </div>
 
-        {device.batteryLevel !== undefined && (
+        {device.battery ? (
+          <div className="battery-details">
+            <div className="detail-row">
+              <span className="detail-label">Battery:</span>
+              <span className="detail-value">
+                <div className={`battery-indicator ${device.battery.level}`}>
+                  <div
+                    className="battery-level"
+                    style={{ width: `${device.battery.percent}%` }}
+                  ></div>
+                </div>
+                {device.battery.percent}%
+                {device.battery.voltage !== undefined && ` · ${device.battery.voltage.toFixed(2)}V`}
+              </span>
+            </div>
+            {device.battery.estimatedRuntimeMs !== null && (
+              <div className="detail-row">
+                <span className="detail-label">Runtime left:</span>
+                <span className="detail-value">~{formatRuntime(device.battery.estimatedRuntimeMs)}</span>
+              </div>
+            )}
+            {device.battery.trend.some(percent => percent !== null) && (
+              <svg
+                className="battery-trend"
+                viewBox="0 0 100 20"
+                preserveAspectRatio="none"
+              >
+                <title>Battery over the last 24 hours</title>
+                <polyline points={getTrendPoints(device.battery.trend)} />
+              </svg>
+            )}
+          </div>
+        ) : device.batteryLevel !== undefined && (
           <div className="detail-row">
             <span className="detail-label">Battery:</span>
             <span className="detail-value">
@@ -201,6 +845,166 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
           <span className="detail-label">Resolution:</span>
           <span className="detail-value">{device.config?.resolution || 'SVGA'}</span>
         </div>
+
+        {device.capabilities && (
+          <div className="detail-row">
+            <span className="detail-label">Hardware:</span>
+            <span
+              className="detail-value"
+              title={device.capabilities.maxResolution && `Max resolution ${device.capabilities.maxResolution}`}
+            >
+              {getCapabilitySummary(device.capabilities)}
+            </span>
+          </div>
+        )}
+
+        {(device.firmwareVersion || device.firmwareUpdate) && (
+          <div className="detail-row">
+            <span className="detail-label">Firmware:</span>
+            <span className="detail-value">
+              {device.firmwareVersion || 'unknown'}
+              {device.firmwareUpdate && device.firmwareUpdate.state !== 'succeeded' && (
+                <span
+                  className={`firmware-update-badge ${device.firmwareUpdate.state}`}
+                  title={device.firmwareUpdate.message || `Target ${device.firmwareUpdate.targetVersion}, attempt ${device.firmwareUpdate.attempts}`}
+                >
+                  {getFirmwareUpdateLabel(device.firmwareUpdate)}
+                </span>
+              )}
+            </span>
+          </div>
+        )}
+
+        {device.protocol && (device.protocol.status !== 'current' || device.protocol.lastInvalidMessage) && (
+          <div className="detail-row">
+            <span className="detail-label">Protocol:</span>
+            <span className="detail-value">
+              v{device.protocol.version}
+              <span
+                className={`protocol-badge ${device.protocol.status}`}
+                title={[device.protocol.message, device.protocol.lastInvalidMessage && `Last invalid message: ${device.protocol.lastInvalidMessage}`].filter(Boolean).join('\n')}
+              >
+                {device.protocol.status === 'current' ? 'invalid messages' : device.protocol.status}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {device.powerAction && (
+          <div className="detail-row">
+            <span className="detail-label">Power:</span>
+            <span className="detail-value">
+              <span
+                className={`power-action-badge ${device.powerAction.state}`}
+                title={device.powerAction.message || (device.powerAction.expectedBackBy && `Expected back by ${new Date(device.powerAction.expectedBackBy).toLocaleString()}`) || undefined}
+              >
+                {getPowerActionLabel(device.powerAction)}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {device.activeSchedule && (
+          <div className="detail-row">
+            <span className="detail-label">Schedule:</span>
+            <span className="detail-value">
+              <span className="schedule-badge" title={getScheduleTitle(device.activeSchedule)}>
+                🗓️ {device.activeSchedule.scheduleName} · {device.activeSchedule.entry.days.map(day => WEEKDAYS[day]).join(', ')} {device.activeSchedule.entry.time}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {dutyCycleSession && (
+          <div className="detail-row">
+            <span className="detail-label">Duty cycle:</span>
+            <span className="detail-value">
+              <span className="duty-cycle-badge">{getDutyCycleLabel(dutyCycleSession)}</span>
+              {dutyCycleIssues.length > 0 && (
+                <span className="duty-cycle-badge flagged" title={dutyCycleIssues.map(issue => issue.message).join('\n')}>
+                  ⚠️ {Array.from(new Set(dutyCycleIssues.map(issue => DUTY_CYCLE_ISSUE_LABELS[issue.type]))).join(', ')}
+                </span>
+              )}
+            </span>
+          </div>
+        )}
+
+        {device.lifecycle && (
+          <div className="detail-row">
+            <span className="detail-label">When offline:</span>
+            <span className="detail-value">
+              <span
+                className={`lifecycle-badge ${device.lifecycle.policy.mode}`}
+                title={device.lifecycle.source === 'global' ? 'Server default policy' : 'Set for this device'}
+              >
+                {getLifecycleLabel(device.lifecycle.policy)}
+                {device.lifecycle.source === 'global' ? ' (default)' : ''}
+              </span>
+            </span>
+          </div>
+        )}
+
+        {device.recordingWindow && (
+          <div className="detail-row">
+            <span className="detail-label">Pre/post-roll:</span>
+            <span
+              className="detail-value"
+              title={device.recordingWindow.source === 'global' ? 'Server default' : 'Set for this device'}
+            >
+              {device.recordingWindow.window.preRollSeconds}s before, {device.recordingWindow.window.postRollSeconds}s after
+              {device.recordingWindow.source === 'global' ? ' (default)' : ''}
+            </span>
+          </div>
+        )}
+
+        {device.motion?.settings.enabled && (
+          <div className="detail-row">
+            <span className="detail-label">Motion:</span>
+            <span className="detail-value">
+              {device.motion.lastEvent && !device.motion.lastEvent.endedAt ? (
+                <span className="motion-badge active">🏃 Motion now</span>
+              ) : (
+                <span className="motion-badge">
+                  {device.motion.lastEvent
+                    ? `Last ${new Date(device.motion.lastEvent.startedAt).toLocaleString()}`
+                    : 'None yet'}
+                </span>
+              )}
+              {device.motion.settings.triggerRecording ? ' · records on motion' : ''}
+            </span>
+          </div>
+        )}
+
+        {!!device.queuedCommands && (
+          <div className="detail-row">
+            <span className="detail-label">Commands:</span>
+            <span className="detail-value">
+              <span className="queued-commands-badge" title="Delivered when the device next connects">
+                📨 {device.queuedCommands} queued
+              </span>
+            </span>
+          </div>
+        )}
+
+        {device.availability && (
+          <div className="availability">
+            <div className="detail-row">
+              <span className="detail-label">Uptime (24h):</span>
+              <span className="detail-value">
+                {device.availability.uptimePercent === null ? '—' : `${device.availability.uptimePercent}%`}
+              </span>
+            </div>
+            <div className="availability-strip">
+              {device.availability.buckets.map((uptime, index, buckets) => (
+                <span
+                  key={index}
+                  className={`availability-segment ${getAvailabilityClass(uptime)}`}
+                  title={getAvailabilityTooltip(uptime, buckets.length - 1 - index)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="device-actions">
@@ -237,6 +1041,62 @@ const DeviceCard: React.FC<DeviceCardProps> = ({
         >
           📁 View Recordings
         </button>
+
+        {!isEditing && (
+          <button
+            className="action-button edit"
+            onClick={startEditing}
+          >
+            ✏️ Edit
+          </button>
+        )}
+      </div>
+
+      <div className="device-power-actions">
+        <button
+          className="action-button reboot"
+          onClick={handleReboot}
+          disabled={isSendingPower || !['online', 'streaming', 'stale'].includes(device.status)}
+        >
+          🔄 Reboot
+        </button>
+        <select
+          className="sleep-duration"
+          value={sleepDuration}
+          onChange={(e) => setSleepDuration(Number(e.target.value))}
+          disabled={isSendingPower}
+        >
+          {SLEEP_DURATIONS.map(option => (
+            <option key={option.ms} value={option.ms}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          className="action-button sleep"
+          onClick={handleSleep}
+          disabled={isSendingPower || !['online', 'streaming', 'stale'].includes(device.status)}
+        >
+          😴 Sleep
+        </button>
+      </div>
+
+      <div className="device-decommission">
+        <select
+          className="recording-disposition"
+          value={recordingDisposition}
+          onChange={(e) => setRecordingDisposition(e.target.value as RecordingDisposition)}
+          disabled={isDecommissioning}
+        >
+          {RECORDING_DISPOSITIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          className="action-button decommission"
+          onClick={handleDecommission}
+          disabled={isDecommissioning}
+        >
+          🗄️ Decommission
+        </button>
       </div>
     </div>
   );
@@ -1,18 +1,23 @@
 /**
  * Recordings Browser Component
- *const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }) => {
-  const [recordings, setRecordings] = useState<RecordingsData>({});
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());ys and manages recorded video files
+ * Displays and manages recorded video files
  */
 
 import React, { useState, useEffect } from 'react';
 import axios from 'axios';
 import './RecordingsBrowser.css';
 
+interface MotionEvent {
+  startedAt: string;
+  endedAt?: string;
+  peakAreaPercent: number;
+}
+
 interface Recording {
-  hour: string;
+  startTime: string;
+  endTime: string;
+  durationMs: number;
+  motionEvents?: MotionEvent[];
   filename: string;
   size: number;
   created: string;
@@ -29,7 +34,8 @@ interface RecordingsData {
 interface Device {
   deviceId: string;
   name: string;
-  status: 'registered' | 'online' | 'streaming' | 'asleep' | 'offline';
+  tags: string[];
+  status: 'registered' | 'online' | 'streaming' | 'stale' | 'asleep' | 'offline' | 'dormant';
   config: Record<string, unknown>;
   lastSeen: string;
   isStreaming: boolean;
@@ -42,6 +48,7 @@ interface RecordingsBrowserProps {
 
 const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }) => {
   const [recordings, setRecordings] = useState<RecordingsData>({});
+  const [deviceNames, setDeviceNames] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [expandedDevices, setExpandedDevices] = useState<Set<string>>(new Set());
@@ -62,6 +69,7 @@ const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }
 
       if (response.data.success) {
         setRecordings(response.data.recordings);
+        setDeviceNames(response.data.deviceNames || {});
       }
     } catch (err) {
       console.error('Error fetching recordings:', err);
@@ -138,7 +146,8 @@ const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }
   const playRecording = (deviceId: string, recording: Recording) => {
     const device: Device = {
       deviceId,
-      name: `${deviceId} - ${recording.filename}`,
+      name: `${deviceNames[deviceId] || deviceId} - ${recording.filename}`,
+      tags: [],
       status: 'offline',
       config: { recordingUrl: recording.url },
       lastSeen: '',
@@ -176,9 +185,16 @@ const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }
     });
   };
 
-  const formatTime = (hour: string): string => {
-    const hourNum = parseInt(hour);
-    return `${hourNum.toString().padStart(2, '0')}:00 - ${(hourNum + 1).toString().padStart(2, '0')}:00`;
+  const formatTime = (startTime: string, endTime: string): string => {
+    const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false };
+    return `${new Date(startTime).toLocaleTimeString('en-US', options)} - ${new Date(endTime).toLocaleTimeString('en-US', options)}`;
+  };
+
+  const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
   };
 
   if (loading) {
@@ -242,7 +258,10 @@ const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }
                   {isDeviceExpanded ? '📂' : '📁'}
                 </span>
                 <span className="device-name">
-                  📹 {deviceId}
+                  📹 {deviceNames[deviceId] || deviceId}
+                  {deviceNames[deviceId] && (
+                    <span className="device-dir"> ({deviceId})</span>
+                  )}
                 </span>
                 <span className="device-summary">
                   {totalRecordings} recordings ({formatFileSize(totalSize)})
@@ -281,14 +300,24 @@ const RecordingsBrowser: React.FC<RecordingsBrowserProps> = ({ onPlayRecording }
                               <div key={recording.filename} className="recording-item">
                                 <div className="recording-info">
                                   <span className="recording-time">
-                                    🕐 {formatTime(recording.hour)}
+                                    🕐 {formatTime(recording.startTime, recording.endTime)}
                                   </span>
                                   <span className="recording-size">
                                     {formatFileSize(recording.size)}
                                   </span>
                                   <span className="recording-date">
-                                    {new Date(recording.created).toLocaleString()}
+                                    {formatDuration(recording.durationMs)}
                                   </span>
+                                  {!!recording.motionEvents?.length && (
+                                    <span
+                                      className="recording-motion"
+                                      title={recording.motionEvents
+                                        .map(event => formatTime(event.startedAt, event.endedAt ?? event.startedAt))
+                                        .join('\n')}
+                                    >
+                                      🏃 {recording.motionEvents.length} motion event{recording.motionEvents.length === 1 ? '' : 's'}
+                                    </span>
+                                  )}
                                 </div>
                                 
                                 <div className="recording-actions">
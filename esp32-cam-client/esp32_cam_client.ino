@@ -23,10 +23,13 @@
 
 #include <WiFi.h>
 #include <WiFiClientSecure.h>
+#include <HTTPClient.h>
+#include <Update.h>
 #include <ESPmDNS.h>
 #include <ArduinoWebsockets.h>
 using namespace websockets;
 #include <ArduinoJson.h>
+#include <Preferences.h>
 #include <esp_camera.h>
 #include <esp_sleep.h>
 #include <esp_system.h>
@@ -40,6 +43,33 @@ using namespace websockets;
 #define LED_PIN 4             // Built-in LED pin
 #define FLASH_PIN 4           // Camera flash pin
 
+// ===== BATTERY MONITORING =====
+// Set to true if the battery is wired to BATTERY_ADC_PIN through a voltage divider.
+// Use an ADC1 pin: ADC2 pins cannot be read while Wi-Fi is active.
+#define BATTERY_MONITOR_ENABLED false
+#define BATTERY_ADC_PIN 33
+const float BATTERY_DIVIDER_RATIO = 2.0;   // Battery voltage / voltage at the ADC pin
+const float BATTERY_EMPTY_VOLTAGE = 3.3;   // Reported as 0%
+const float BATTERY_FULL_VOLTAGE = 4.2;    // Reported as 100%
+
+// ===== FIRMWARE VERSION =====
+// Reported at registration and in the hello; bump for every build uploaded to the server for OTA updates
+const char* FIRMWARE_VERSION = "1.2.0";
+
+// ===== PROTOCOL VERSION =====
+// Version of the WebSocket message protocol (pi-cam-server/src/protocol/deviceProtocol.ts)
+const int PROTOCOL_VERSION = 2;
+
+// ===== HARDWARE CAPABILITIES =====
+// Reported at registration so the server only offers what this board supports
+#define FLASH_LED_PRESENT true    // AI-Thinker boards have a flash LED on GPIO 4
+#define SD_CARD_PRESENT false     // Set to true if an SD card is fitted
+// Server commands handled in handleServerCommand()
+const char* SUPPORTED_COMMANDS[] = {
+  "start_streaming", "stop_streaming", "update_operation_mode", "update_config",
+  "update_firmware", "rotate_api_key", "reboot", "sleep"
+};
+
 // ===== NETWORK CONFIGURATION =====
 const char* WIFI_SSID = "";        // Replace with your WiFi network name
 const char* WIFI_PASSWORD = ""; // Replace with your WiFi password
@@ -65,11 +95,15 @@ const int MANUAL_SERVER_PORT = 3443;
 
 // ===== FORCE RE-REGISTRATION =====
 // Set to true to clear stored API key and force re-registration
-#define FORCE_RE_REGISTRATION true
+// The server refuses a known device that registers again without its key until an admin revokes it
+#define FORCE_RE_REGISTRATION false
 
-// Always-on mode settings
+// Always-on mode settings (defaults until the server's config arrives)
 const unsigned long ALWAYS_ON_STREAMING_DURATION = 300000;  // 5 minutes
 const unsigned long ALWAYS_ON_SLEEP_DURATION = 10000;      // 10 seconds between sessions
+// The server ends each always-on window with a sleep command; the local
+// limit only takes over if that command never arrives
+const unsigned long ALWAYS_ON_SERVER_GRACE = 60000;        // 1 minute
 const unsigned long CONTINUOUS_MODE_HEARTBEAT = 30000;      // 30 seconds for continuous mode
 
 // ===== STREAMING CONFIGURATION =====
@@ -86,8 +120,11 @@ RTC_DATA_ATTR int bootCount = 0;
 RTC_DATA_ATTR unsigned long totalUptime = 0;
 RTC_DATA_ATTR char operationMode[20] = "always-on";  // "motion-triggered", "always-on", "continuous", "auto-detect"
 RTC_DATA_ATTR bool motionSensorDetected = false;
+RTC_DATA_ATTR unsigned long alwaysOnDuration = ALWAYS_ON_STREAMING_DURATION;
+RTC_DATA_ATTR unsigned long alwaysOnInterval = ALWAYS_ON_SLEEP_DURATION;
 
 // ===== GLOBAL VARIABLES =====
+Preferences preferences; // Flash storage for the API key, which must survive power loss
 WiFiClientSecure secureClient; // We still need this for registration
 WebsocketsClient wsClient;     // Note: Not plural - ArduinoWebsockets library
 camera_config_t cameraConfig;
@@ -173,8 +210,8 @@ void configureOperationMode() {
     Serial.println("Configured for continuous streaming mode");
   } else if (detectedMode == "always-on") {
     continuousMode = false;
-    currentStreamingDuration = ALWAYS_ON_STREAMING_DURATION;
-    Serial.printf("Configured for always-on mode (%lu ms streaming)\n", currentStreamingDuration);
+    currentStreamingDuration = alwaysOnDuration + ALWAYS_ON_SERVER_GRACE;
+    Serial.printf("Configured for always-on mode (%lu ms streaming)\n", alwaysOnDuration);
   } else {
     // motion-triggered (default)
     continuousMode = false;
@@ -347,9 +384,66 @@ bool discoverServer() {
   return false;
 }
 
+/**
+ * Describe the camera hardware and supported commands
+ * Must run after initializeCamera() so the sensor can be identified
+ */
+void addCapabilities(JsonDocument& doc) {
+  JsonObject capabilities = doc.createNestedObject("capabilities");
+
+  sensor_t* sensor = esp_camera_sensor_get();
+  if (sensor) {
+    switch (sensor->id.PID) {
+      case OV2640_PID:
+        capabilities["sensorModel"] = "OV2640";
+        capabilities["maxResolution"] = "UXGA";
+        break;
+      case OV3660_PID:
+        capabilities["sensorModel"] = "OV3660";
+        capabilities["maxResolution"] = "UXGA"; // Largest size the server knows
+        break;
+      case OV7725_PID:
+        capabilities["sensorModel"] = "OV7725";
+        capabilities["maxResolution"] = "VGA";
+        break;
+    }
+  }
+
+  capabilities["flashLed"] = FLASH_LED_PRESENT;
+  capabilities["pir"] = motionSensorDetected;
+  capabilities["psram"] = psramFound();
+  capabilities["sdCard"] = SD_CARD_PRESENT;
+
+  JsonArray commands = capabilities.createNestedArray("commands");
+  for (const char* command : SUPPORTED_COMMANDS) {
+    commands.add(command);
+  }
+}
+
+/**
+ * Load the API key kept in flash into RTC memory
+ * The server only hands a known device its key again when the device
+ * presents its current one, so the key has to outlive a cold boot.
+ */
+void loadStoredApiKey() {
+  preferences.begin("picam", true);
+  preferences.getString("apiKey", apiKey, sizeof(apiKey));
+  preferences.end();
+}
+
+/**
+ * Save the API key to flash, or clear it when key is empty
+ */
+void storeApiKey(const char* key) {
+  preferences.begin("picam", false);
+  preferences.putString("apiKey", key);
+  preferences.end();
+}
+
 /**
  * Register device with the Pi Camera Server
- * Sends MAC address and receives API key and configuration
+ * Sends MAC address (and the current API key, if the device has one) and
+ * receives API key and configuration
  */
 bool registerWithServer() {
   Serial.println("Registering with server...");
@@ -387,12 +481,13 @@ bool registerWithServer() {
     Serial.println("SSL connection successful");
   }
   
-  // Create registration JSON - reduced size
-  StaticJsonDocument<200> registrationDoc;
+  // Create registration JSON
+  StaticJsonDocument<512> registrationDoc;
   registrationDoc["deviceId"] = WiFi.macAddress();
   registrationDoc["operationMode"] = operationMode;
   registrationDoc["motionSensorDetected"] = motionSensorDetected;
-  registrationDoc["firmwareVersion"] = "1.1.0";
+  registrationDoc["firmwareVersion"] = FIRMWARE_VERSION;
+  addCapabilities(registrationDoc);
   
   String jsonString;
   serializeJson(registrationDoc, jsonString);
@@ -401,6 +496,9 @@ bool registerWithServer() {
   String httpRequest = "POST /register HTTP/1.1\r\n";
   httpRequest += "Host: " + String(serverIP) + ":" + String(serverPort) + "\r\n";
   httpRequest += "Content-Type: application/json\r\n";
+  if (strlen(apiKey) > 0) {
+    httpRequest += "X-API-Key: " + String(apiKey) + "\r\n";
+  }
   httpRequest += "Content-Length: " + String(jsonString.length()) + "\r\n";
   httpRequest += "Connection: close\r\n\r\n";
   httpRequest += jsonString;
@@ -449,6 +547,7 @@ bool registerWithServer() {
     // Store API key in RTC memory
     const char* receivedApiKey = responseDoc["apiKey"];
     strcpy(apiKey, receivedApiKey);
+    storeApiKey(apiKey);
     isRegistered = true;
     
     Serial.println("Registration successful!");
@@ -466,7 +565,44 @@ bool registerWithServer() {
  */
 void onWebSocketMessage(WebsocketsMessage message) {
     Serial.printf("[WSc] Message received: %s\n", message.data().c_str());
-    // We can add JSON parsing logic back in here later.
+
+    if (!message.isText()) {
+        return;
+    }
+
+    StaticJsonDocument<768> messageDoc;
+    DeserializationError error = deserializeJson(messageDoc, message.data());
+    if (error) {
+        Serial.print("[WSc] JSON parsing failed: ");
+        Serial.println(error.c_str());
+        return;
+    }
+
+    // Server commands carry an "action"; acknowledgements carry only a "type"
+    if (messageDoc.containsKey("action")) {
+        handleServerCommand(messageDoc.as<JsonObject>());
+    } else if (messageDoc["type"] == "welcome") {
+        int serverVersion = messageDoc["protocolVersion"] | 1;
+        int serverMinVersion = messageDoc["minProtocolVersion"] | 1;
+        if (PROTOCOL_VERSION < serverMinVersion || PROTOCOL_VERSION > serverVersion) {
+            Serial.printf("[WSc] Protocol mismatch: device v%d, server v%d-v%d\n", PROTOCOL_VERSION, serverMinVersion, serverVersion);
+        }
+    }
+}
+
+/**
+ * Announce the protocol version right after connecting
+ * The server uses it to detect firmware it can't talk to
+ */
+void sendHello() {
+    StaticJsonDocument<128> helloDoc;
+    helloDoc["type"] = "hello";
+    helloDoc["protocolVersion"] = PROTOCOL_VERSION;
+    helloDoc["firmwareVersion"] = FIRMWARE_VERSION;
+
+    String helloMessage;
+    serializeJson(helloDoc, helloMessage);
+    wsClient.send(helloMessage);
 }
 
 /**
@@ -475,6 +611,7 @@ void onWebSocketMessage(WebsocketsMessage message) {
 void onWebSocketEvent(WebsocketsEvent event, String data) {
     if (event == WebsocketsEvent::ConnectionOpened) {
         Serial.println("[WSc] Connection Opened");
+        sendHello();
         isStreaming = true;
         streamingStartTime = millis();
     } else if (event == WebsocketsEvent::ConnectionClosed) {
@@ -486,14 +623,15 @@ void onWebSocketEvent(WebsocketsEvent event, String data) {
 /**
  * Handle configuration updates from server
  * Updates camera settings based on server commands
+ * Returns false if the camera sensor could not be reached
  */
-void handleConfigurationUpdate(JsonObject config) {
+bool handleConfigurationUpdate(JsonObject config) {
   Serial.println("Updating camera configuration...");
   
   sensor_t* sensor = esp_camera_sensor_get();
   if (sensor == NULL) {
     Serial.println("Camera sensor not available");
-    return;
+    return false;
   }
   
   // Update resolution if specified
@@ -543,6 +681,183 @@ void handleConfigurationUpdate(JsonObject config) {
     sensor->set_saturation(sensor, saturation);
     Serial.printf("Saturation updated to: %d\n", saturation);
   }
+
+  return true;
+}
+
+/**
+ * Acknowledge a versioned configuration push
+ * Lets the server know whether the config was applied
+ */
+void sendConfigAck(long configVersion, bool success, const char* errorMessage) {
+  StaticJsonDocument<150> ackDoc;
+  ackDoc["type"] = "config_ack";
+  ackDoc["configVersion"] = configVersion;
+  ackDoc["success"] = success;
+  if (!success && errorMessage) {
+    ackDoc["error"] = errorMessage;
+  }
+
+  String ackMessage;
+  serializeJson(ackDoc, ackMessage);
+  wsClient.send(ackMessage);
+  Serial.printf("Config v%ld acknowledged (success: %d)\n", configVersion, success);
+}
+
+/**
+ * Answer a server request that carried a requestId
+ * Commands without a requestId expect no reply. Pass a NULL code on success.
+ */
+void sendCommandResponse(const char* requestId, bool success, const char* code, const char* message) {
+  if (!requestId) {
+    return;
+  }
+
+  StaticJsonDocument<200> responseDoc;
+  responseDoc["type"] = "response";
+  responseDoc["requestId"] = requestId;
+  responseDoc["success"] = success;
+  if (!success) {
+    JsonObject error = responseDoc.createNestedObject("error");
+    error["code"] = code ? code : "failed";
+    if (message) {
+      error["message"] = message;
+    }
+  }
+
+  String responseMessage;
+  serializeJson(responseDoc, responseMessage);
+  wsClient.send(responseMessage);
+}
+
+/**
+ * Report over-the-air update progress to the server
+ * Pass a negative progress or NULL message to omit them
+ */
+void sendFirmwareStatus(const char* state, const char* version, int progress, const char* message) {
+  StaticJsonDocument<200> statusDoc;
+  statusDoc["type"] = "firmware_status";
+  statusDoc["state"] = state;
+  statusDoc["version"] = version;
+  if (progress >= 0) {
+    statusDoc["progress"] = progress;
+  }
+  if (message) {
+    statusDoc["message"] = message;
+  }
+
+  String statusMessage;
+  serializeJson(statusDoc, statusMessage);
+  wsClient.send(statusMessage);
+  Serial.printf("Firmware %s: %s\n", version, state);
+}
+
+/**
+ * Download and install a firmware image from the server
+ * The image is verified against the MD5 sent by the server before it is
+ * activated. Restarts into the new firmware on success; the server confirms
+ * the update when the device reconnects with the new version.
+ */
+void performFirmwareUpdate(JsonObject command) {
+  const char* version = command["version"];
+  const char* path = command["path"];
+  const char* md5 = command["md5"];
+  int size = command["size"] | 0;
+
+  if (!version || !path || !md5 || size <= 0) {
+    sendFirmwareStatus("failed", version ? version : "", -1, "Incomplete update_firmware command");
+    return;
+  }
+
+  Serial.printf("Updating firmware %s -> %s (%d bytes)\n", FIRMWARE_VERSION, version, size);
+  bool wasStreaming = isStreaming;
+  isStreaming = false; // Leave the radio to the download
+
+  WiFiClientSecure updateClient;
+  updateClient.setCACert(SERVER_CERTIFICATE);
+  updateClient.setTimeout(10000);
+  HTTPClient http;
+  String url = "https://" + String(serverIP) + ":" + String(serverPort) + String(path);
+
+  http.begin(updateClient, url);
+  http.addHeader("X-API-Key", apiKey);
+  int httpCode = http.GET();
+
+  if (httpCode < 0) {
+    // Same fallback as registration when the certificate does not validate
+    Serial.println("Firmware download connection failed, retrying without certificate validation...");
+    http.end();
+    updateClient.setInsecure();
+    http.begin(updateClient, url);
+    http.addHeader("X-API-Key", apiKey);
+    httpCode = http.GET();
+  }
+
+  if (httpCode != HTTP_CODE_OK) {
+    char message[48];
+    snprintf(message, sizeof(message), "Download failed (HTTP %d)", httpCode);
+    sendFirmwareStatus("failed", version, -1, message);
+    http.end();
+    isStreaming = wasStreaming;
+    return;
+  }
+
+  if (http.getSize() != size || !Update.begin(size)) {
+    sendFirmwareStatus("failed", version, -1, "Image size mismatch or not enough space");
+    http.end();
+    isStreaming = wasStreaming;
+    return;
+  }
+  Update.setMD5(md5);
+
+  sendFirmwareStatus("downloading", version, 0, NULL);
+  WiFiClient* stream = http.getStreamPtr();
+  uint8_t buffer[1024];
+  int written = 0;
+  int lastReported = 0;
+  unsigned long lastDataTime = millis();
+
+  while (written < size && millis() - lastDataTime < 10000) {
+    size_t available = stream->available();
+    if (available == 0) {
+      delay(1);
+      continue;
+    }
+
+    size_t bytesRead = stream->readBytes(buffer, min(available, sizeof(buffer)));
+    if (Update.write(buffer, bytesRead) != bytesRead) {
+      break;
+    }
+    written += bytesRead;
+    lastDataTime = millis();
+
+    // Report every 10% so the server sees progress (and activity)
+    int progress = (int)((written * 100LL) / size);
+    if (progress >= lastReported + 10) {
+      sendFirmwareStatus("downloading", version, progress, NULL);
+      lastReported = progress;
+    }
+  }
+  http.end();
+
+  if (written != size) {
+    Update.abort();
+    sendFirmwareStatus("failed", version, -1, "Download incomplete");
+    isStreaming = wasStreaming;
+    return;
+  }
+
+  sendFirmwareStatus("installing", version, 100, NULL);
+  if (!Update.end()) {
+    // Checksum mismatch or flash error; the running firmware stays active
+    sendFirmwareStatus("failed", version, -1, Update.errorString());
+    isStreaming = wasStreaming;
+    return;
+  }
+
+  Serial.println("Firmware installed, restarting...");
+  delay(500);
+  ESP.restart();
 }
 
 /**
@@ -551,20 +866,29 @@ void handleConfigurationUpdate(JsonObject config) {
  */
 void handleServerCommand(JsonObject command) {
   const char* action = command["action"];
+  const char* requestId = command["requestId"];
   Serial.println("Handling server command: " + String(action ? action : "null"));
   
   if (!action) {
     Serial.println("No action field in command");
+    sendCommandResponse(requestId, false, "invalid_command", "Missing action");
     return;
   }
   
   if (strcmp(action, "start_streaming") == 0) {
     Serial.println("Server requested streaming start");
+    if (esp_camera_sensor_get() == NULL) {
+      sendCommandResponse(requestId, false, "camera_unavailable", "Camera sensor not available");
+      return;
+    }
     isStreaming = true;
+    streamingStartTime = millis();
+    sendCommandResponse(requestId, true, NULL, NULL);
   }
   else if (strcmp(action, "stop_streaming") == 0) {
     Serial.println("Server requested streaming stop");
     isStreaming = false;
+    sendCommandResponse(requestId, true, NULL, NULL);
   }
   else if (strcmp(action, "update_operation_mode") == 0) {
     Serial.println("Processing operation mode update...");
@@ -581,20 +905,83 @@ void handleServerCommand(JsonObject command) {
       
       configureOperationMode();
       Serial.println("Operation mode configuration complete");
+      sendCommandResponse(requestId, true, NULL, NULL);
     } else {
       Serial.println("No operationMode field in update_operation_mode command");
+      sendCommandResponse(requestId, false, "invalid_command", "Missing operationMode");
+    }
+  }
+  else if (strcmp(action, "update_config") == 0) {
+    long configVersion = command["configVersion"] | 0;
+    JsonObject config = command["config"];
+
+    if (config.isNull()) {
+      sendConfigAck(configVersion, false, "Missing config");
+      sendCommandResponse(requestId, false, "config_rejected", "Missing config");
+      return;
+    }
+
+    if (!handleConfigurationUpdate(config)) {
+      sendConfigAck(configVersion, false, "Camera sensor not available");
+      sendCommandResponse(requestId, false, "config_rejected", "Camera sensor not available");
+      return;
+    }
+
+    // Operation mode and the always-on cycle are part of the versioned config
+    unsigned long newDuration = config["alwaysOnDuration"] | alwaysOnDuration;
+    unsigned long newInterval = config["alwaysOnInterval"] | alwaysOnInterval;
+    bool cycleChanged = newDuration != alwaysOnDuration || newInterval != alwaysOnInterval;
+    alwaysOnDuration = newDuration;
+    alwaysOnInterval = newInterval;
+
+    const char* newMode = config["operationMode"];
+    if (newMode && strcmp(newMode, operationMode) != 0 && strlen(newMode) < sizeof(operationMode)) {
+      strcpy(operationMode, newMode);
+      configureOperationMode();
+      Serial.printf("Operation mode updated to: %s\n", operationMode);
+    } else if (cycleChanged) {
+      configureOperationMode();
     }
+
+    sendConfigAck(configVersion, true, NULL);
+    sendCommandResponse(requestId, true, NULL, NULL);
+  }
+  else if (strcmp(action, "rotate_api_key") == 0) {
+    const char* newApiKey = command["apiKey"];
+    if (newApiKey && strlen(newApiKey) < sizeof(apiKey)) {
+      strcpy(apiKey, newApiKey);
+      storeApiKey(apiKey);
+      Serial.println("API key rotated by server");
+      sendCommandResponse(requestId, true, NULL, NULL);
+    } else {
+      Serial.println("Invalid apiKey field in rotate_api_key command");
+      sendCommandResponse(requestId, false, "invalid_command", "Invalid apiKey");
+    }
+  }
+  else if (strcmp(action, "update_firmware") == 0) {
+    // Progress is reported separately through firmware_status
+    sendCommandResponse(requestId, true, NULL, NULL);
+    performFirmwareUpdate(command);
   }
   else if (strcmp(action, "reboot") == 0) {
     Serial.println("Server requested reboot");
+    sendCommandResponse(requestId, true, NULL, NULL);
+    delay(100); // Let the response leave before the radio goes down
     ESP.restart();
   }
   else if (strcmp(action, "sleep") == 0) {
+    unsigned long durationMs = command["durationMs"] | 0UL;
     Serial.println("Server requested sleep");
-    enterDeepSleep();
+    sendCommandResponse(requestId, true, NULL, NULL);
+    if (durationMs > 0) {
+      enterTimedSleep(durationMs);
+    } else {
+      enterDeepSleep();
+    }
   }
   else {
     Serial.println("Unknown server command: " + String(action));
+    sendCommandResponse(requestId, false, "unknown_command", "Unknown action");
   }
 }
 
@@ -695,6 +1082,36 @@ bool connectToWebSocket() {
     return connected;
 }
 
+/**
+ * Read the battery voltage through the divider on BATTERY_ADC_PIN
+ * Averages several readings to smooth out ADC noise.
+ */
+float readBatteryVoltage() {
+  uint32_t totalMilliVolts = 0;
+  for (int i = 0; i < 8; i++) {
+    totalMilliVolts += analogReadMilliVolts(BATTERY_ADC_PIN);
+  }
+  return (totalMilliVolts / 8.0f) / 1000.0f * BATTERY_DIVIDER_RATIO;
+}
+
+/**
+ * Add battery telemetry to an outgoing message
+ * Linear approximation between the empty and full voltages.
+ */
+void addBatteryTelemetry(JsonDocument& doc) {
+  if (!BATTERY_MONITOR_ENABLED) {
+    return;
+  }
+
+  float voltage = readBatteryVoltage();
+  float percent = (voltage - BATTERY_EMPTY_VOLTAGE) / (BATTERY_FULL_VOLTAGE - BATTERY_EMPTY_VOLTAGE) * 100.0f;
+  percent = constrain(percent, 0.0f, 100.0f);
+
+  JsonObject battery = doc.createNestedObject("battery");
+  battery["percent"] = (int)round(percent);
+  battery["voltage"] = round(voltage * 100.0f) / 100.0f;
+}
+
 /**
  * Send heartbeat message to server
  * Keeps connection alive and updates server status
@@ -702,11 +1119,12 @@ bool connectToWebSocket() {
 void sendHeartbeat() {
   if (isStreaming) {
     Serial.println("Creating heartbeat message...");
-    StaticJsonDocument<150> heartbeatDoc;
+    StaticJsonDocument<200> heartbeatDoc;
     heartbeatDoc["type"] = "heartbeat";
     heartbeatDoc["uptime"] = millis();
     heartbeatDoc["free_heap"] = ESP.getFreeHeap();
     heartbeatDoc["boot_count"] = bootCount;
+    addBatteryTelemetry(heartbeatDoc);
     
     String heartbeatMessage;
     serializeJson(heartbeatDoc, heartbeatMessage);
@@ -762,10 +1180,11 @@ void enterDeepSleep() {
   
   // Send sleep status to server
   if (isStreaming) {
-    StaticJsonDocument<100> sleepDoc;
+    StaticJsonDocument<160> sleepDoc;
     sleepDoc["type"] = "status_update";
     sleepDoc["status"] = "entering_sleep";
     sleepDoc["operationMode"] = operationMode;
+    addBatteryTelemetry(sleepDoc);
     
     String sleepMessage;
     serializeJson(sleepDoc, sleepMessage);
@@ -789,8 +1208,8 @@ void enterDeepSleep() {
   }
   else if (strcmp(operationMode, "always-on") == 0) {
     // Always-on mode: sleep for configured interval, then wake with timer
-    Serial.printf("Always-on mode - sleeping for %lu ms\n", ALWAYS_ON_SLEEP_DURATION);
-    esp_sleep_enable_timer_wakeup(ALWAYS_ON_SLEEP_DURATION * 1000); // Convert to microseconds
+    Serial.printf("Always-on mode - sleeping for %lu ms\n", alwaysOnInterval);
+    esp_sleep_enable_timer_wakeup((uint64_t)alwaysOnInterval * 1000); // Convert to microseconds
   }
   else if (motionSensorDetected) {
     // Motion-triggered mode: wake on motion sensor
@@ -809,6 +1228,32 @@ void enterDeepSleep() {
   esp_deep_sleep_start();
 }
 
+/**
+ * Sleep for a set time at the server's request, whatever the operation mode
+ * Wakes on the timer only, then boots and reconnects as usual
+ */
+void enterTimedSleep(unsigned long durationMs) {
+  Serial.printf("Sleeping for %lu ms at server request\n", durationMs);
+
+  StaticJsonDocument<160> sleepDoc;
+  sleepDoc["type"] = "status_update";
+  sleepDoc["status"] = "entering_sleep";
+  sleepDoc["operationMode"] = operationMode;
+  addBatteryTelemetry(sleepDoc);
+
+  String sleepMessage;
+  serializeJson(sleepDoc, sleepMessage);
+  wsClient.send(sleepMessage);
+  delay(100); // Allow message to be sent
+
+  wsClient.close();
+  totalUptime += millis();
+
+  esp_sleep_enable_timer_wakeup((uint64_t)durationMs * 1000); // Convert to microseconds
+  Serial.flush();
+  esp_deep_sleep_start();
+}
+
 /**
  * Check if streaming duration has expired
  * Returns true if streaming time limit reached (unless in continuous mode)
@@ -837,6 +1282,7 @@ void setup() {
   #if FORCE_RE_REGISTRATION
   Serial.println("FORCE_RE_REGISTRATION enabled - clearing stored API key");
   memset(apiKey, 0, sizeof(apiKey));
+  storeApiKey("");
   memset(serverIP, 0, sizeof(serverIP));
   serverPort = 0;
   isRegistered = false;
@@ -868,6 +1314,7 @@ void setup() {
       isRegistered = false;
       memset(serverIP, 0, sizeof(serverIP));
       memset(apiKey, 0, sizeof(apiKey));
+      loadStoredApiKey(); // Presented when registering again
       memset(operationMode, 0, sizeof(operationMode));
       strcpy(operationMode, "auto-detect");
       serverPort = 0;
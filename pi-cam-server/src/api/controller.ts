@@ -6,157 +6,1951 @@
 import { Request, Response } from 'express';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { DeviceManager, DeviceStatus } from '../services/DeviceManager.js';
+import { DeviceManager, DeviceStatus, DeviceMetadata, DecommissionInfo, PowerAction, RecordingDisposition } from '../services/DeviceManager.js';
+import { GroupManager } from '../services/GroupManager.js';
+import { StatusHistory } from '../services/StatusHistory.js';
+import { BatteryMonitor } from '../services/BatteryMonitor.js';
+import { FirmwareRepository } from '../services/FirmwareRepository.js';
+import { CommandQueue, CommandState } from '../services/CommandQueue.js';
+import { DeviceRpc, RpcErrorCode } from '../services/DeviceRpc.js';
+import { ScheduleManager, ScheduleTarget } from '../services/ScheduleManager.js';
+import { DutyCycleManager } from '../services/DutyCycleManager.js';
+import { AuditLog } from '../services/AuditLog.js';
+import { MotionLog } from '../services/MotionLog.js';
+import { FfmpegToolchain } from '../services/FfmpegToolchain.js';
+import { DEVICE_COMMANDS, DeviceCommandAction, isDeviceCommand } from '../protocol/deviceProtocol.js';
+import { parseRecordingStart, sanitizeDeviceId, VideoProcessor } from '../services/VideoProcessor.js';
 import config from '../config.js';
+import { FieldError, getDeviceConfigSchema, validateDeviceConfig, validateLifecyclePolicy, validateMotionSettings, validateRecordingWindow, FIRMWARE_VERSION_REGEX, FIRMWARE_VERSION_RULE } from '../validation/deviceSchema.js';
+import { validateSchedule } from '../validation/scheduleSchema.js';
+
+const MAX_NAME_LENGTH = 64;
+const MAX_LOCATION_LENGTH = 128;
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS = 20;
+const AVAILABILITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const AVAILABILITY_BUCKETS = 24;
+const MAX_HISTORY_BUCKETS = 500;
+const DEFAULT_SESSION_LIMIT = 50;
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_REASON_LENGTH = 256;
+const RECORDING_DISPOSITIONS: RecordingDisposition[] = ['archive', 'keep', 'delete'];
+const STREAM_REQUEST_TTL_MS = 10 * 60 * 1000; // A stream request older than this is no longer wanted
+const COMMAND_STATES: CommandState[] = ['queued', 'delivered', 'expired', 'cancelled', 'failed'];
+// Commands with their own delivery tracking, which must not be queued by hand
+const RESERVED_COMMANDS: DeviceCommandAction[] = ['update_config', 'update_firmware', 'rotate_api_key'];
+
+// HTTP status for each way a device command can fail
+const RPC_ERROR_STATUS: Record<RpcErrorCode, number> = {
+  not_found: 404,
+  not_connected: 409,
+  unsupported: 400,
+  send_failed: 502,
+  timeout: 504,
+  disconnected: 502,
+  device_error: 502
+};
+
+/**
+ * Outcome of a command sent to a single device
+ */
+interface DeviceCommandResult {
+  deviceId: string;
+  success: boolean;
+  message?: string;
+  error?: string;
+  code?: RpcErrorCode;
+  deviceCode?: string;
+}
 
 export class ApiController {
   private deviceManager: DeviceManager;
+  private groupManager: GroupManager;
+  private statusHistory: StatusHistory;
+  private batteryMonitor: BatteryMonitor;
+  private firmwareRepository: FirmwareRepository;
+  private commandQueue: CommandQueue;
+  private deviceRpc: DeviceRpc;
+  private scheduleManager: ScheduleManager;
+  private dutyCycleManager: DutyCycleManager;
+  private auditLog: AuditLog;
+  private motionLog: MotionLog;
+  private videoProcessor: VideoProcessor;
+
+  /**
+   * @param videoProcessor - The server's recorder
+   */
+  constructor(videoProcessor: VideoProcessor) {
+    this.videoProcessor = videoProcessor;
+    this.deviceManager = DeviceManager.getInstance();
+    this.groupManager = GroupManager.getInstance();
+    this.statusHistory = StatusHistory.getInstance();
+    this.batteryMonitor = BatteryMonitor.getInstance();
+    this.firmwareRepository = FirmwareRepository.getInstance();
+    this.commandQueue = CommandQueue.getInstance();
+    this.deviceRpc = DeviceRpc.getInstance();
+    this.scheduleManager = ScheduleManager.getInstance();
+    this.dutyCycleManager = DutyCycleManager.getInstance();
+    this.auditLog = AuditLog.getInstance();
+    this.motionLog = MotionLog.getInstance();
+  }
+
+  /**
+   * Get all devices with their current status
+   */
+  public getDevices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Optional tag filter: ?tag=garage or ?tag=garage,indoor (devices must have every tag)
+      const tagFilter = this.parseTagFilter(req.query.tag);
+
+      const devices = this.deviceManager.getAllDevices()
+        .filter(device => this.deviceManager.isApproved(device))
+        .filter(device => tagFilter.every(tag => device.tags.includes(tag)));
+      const availabilityTo = new Date();
+      const availabilityFrom = new Date(availabilityTo.getTime() - AVAILABILITY_WINDOW_MS);
+      const deviceList = devices.map(device => {
+        const battery = this.batteryMonitor.getStatus(device.deviceId);
+        const schema = getDeviceConfigSchema(device.capabilities);
+        const activeSchedule = this.scheduleManager.getActiveEntry(device.deviceId);
+        const appliedSchedule = this.scheduleManager.getAppliedSchedule(device.deviceId);
+        return {
+          deviceId: device.deviceId,
+          name: device.name || device.deviceId,
+          location: device.location,
+          tags: device.tags,
+          status: device.status,
+          config: device.config,
+          lastSeen: device.lastSeen,
+          isStreaming: device.status === DeviceStatus.STREAMING,
+          batteryLevel: device.batteryLevel,
+          operationMode: device.operationMode,
+          capabilities: device.capabilities,
+          // Values the device's hardware supports, for building config controls
+          configOptions: {
+            resolution: schema.resolution,
+            operationMode: schema.operationMode
+          },
+          firmwareVersion: device.firmwareVersion,
+          targetFirmwareVersion: device.targetFirmwareVersion,
+          firmwareUpdate: device.firmwareUpdate,
+          protocol: device.protocol,
+          powerAction: device.powerAction,
+          lifecycle: this.deviceManager.getLifecyclePolicy(device),
+          recordingWindow: this.deviceManager.getRecordingWindow(device),
+          motion: {
+            ...this.deviceManager.getMotionSettings(device),
+            lastEvent: this.motionLog.getLastEvent(device.deviceId)
+          },
+          queuedCommands: this.commandQueue.getQueued(device.deviceId).length,
+          // Weekly schedule entry currently in effect, if any
+          activeSchedule: activeSchedule && {
+            ...activeSchedule,
+            skippedFields: appliedSchedule?.entryId === activeSchedule.entry.entryId ? appliedSchedule.skippedFields : undefined
+          },
+          // Always-on stream/sleep cycle: the window in progress and the last finished one
+          dutyCycle: {
+            current: this.dutyCycleManager.getOpenSession(device.deviceId),
+            last: this.dutyCycleManager.getLastClosedSession(device.deviceId)
+          },
+          configSync: {
+            ...device.configSync,
+            desiredVersion: device.configVersion,
+            appliedVersion: device.appliedConfigVersion,
+            outOfSyncFields: this.deviceManager.getConfigDrift(device)
+          },
+          // Last 24 hours in hourly buckets for the availability strip
+          availability: {
+            uptimePercent: this.statusHistory.getUptime(device.deviceId, availabilityFrom, availabilityTo).uptimePercent,
+            buckets: this.statusHistory.getAvailabilityBuckets(device.deviceId, availabilityFrom, availabilityTo, AVAILABILITY_BUCKETS)
+          },
+          // Latest reading plus hourly averages over the last 24 hours
+          battery: battery && {
+            ...battery,
+            trend: this.batteryMonitor.getTrend(device.deviceId, availabilityFrom, availabilityTo, AVAILABILITY_BUCKETS)
+          }
+        };
+      });
+
+      res.json({
+        success: true,
+        devices: deviceList,
+        count: deviceList.length
+      });
+    } catch (error) {
+      console.error('Error getting devices:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve devices'
+      });
+    }
+  };
+
+  /**
+   * Get a device's status transitions and uptime over a time range
+   * Query: from, to (ISO timestamps, default last 24 hours), buckets (optional)
+   */
+  public getDeviceHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+      if (!this.deviceManager.getDeviceById(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const to = typeof req.query.to === 'string' ? new Date(req.query.to) : new Date();
+      const from = typeof req.query.from === 'string'
+        ? new Date(req.query.from)
+        : new Date(to.getTime() - AVAILABILITY_WINDOW_MS);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        res.status(400).json({
+          success: false,
+          error: 'from and to must be valid timestamps with from before to'
+        });
+        return;
+      }
+
+      let buckets: (number | null)[] | undefined;
+      if (req.query.buckets !== undefined) {
+        const bucketCount = Number(req.query.buckets);
+        if (!Number.isInteger(bucketCount) || bucketCount < 1 || bucketCount > MAX_HISTORY_BUCKETS) {
+          res.status(400).json({
+            success: false,
+            error: `buckets must be an integer between 1 and ${MAX_HISTORY_BUCKETS}`
+          });
+          return;
+        }
+        buckets = this.statusHistory.getAvailabilityBuckets(deviceId, from, to, bucketCount);
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        transitions: this.statusHistory.getTransitions(deviceId, from, to),
+        uptime: this.statusHistory.getUptime(deviceId, from, to),
+        ...(buckets ? { buckets } : {})
+      });
+    } catch (error) {
+      console.error('Error getting device history:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve device history'
+      });
+    }
+  };
+
+  /**
+   * Get a device's battery telemetry, runtime estimate and alerts
+   * Query: from, to (ISO timestamps, default last 24 hours)
+   */
+  public getDeviceBattery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+      if (!this.deviceManager.getDeviceById(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const to = typeof req.query.to === 'string' ? new Date(req.query.to) : new Date();
+      const from = typeof req.query.from === 'string'
+        ? new Date(req.query.from)
+        : new Date(to.getTime() - AVAILABILITY_WINDOW_MS);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        res.status(400).json({
+          success: false,
+          error: 'from and to must be valid timestamps with from before to'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        battery: this.batteryMonitor.getStatus(deviceId) ?? null,
+        samples: this.batteryMonitor.getSamples(deviceId, from, to),
+        events: this.batteryMonitor.getEvents(deviceId)
+      });
+    } catch (error) {
+      console.error('Error getting device battery:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve battery telemetry'
+      });
+    }
+  };
+
+  /**
+   * Get the always-on duty cycle sessions of a device
+   * Query: limit (optional, default 50), flagged=true to only list sessions with issues
+   */
+  public getDeviceDutyCycle = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      if (!this.deviceManager.getDeviceById(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_SESSION_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > config.dutyCycle.maxSessionsPerDevice) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${config.dutyCycle.maxSessionsPerDevice}`
+        });
+        return;
+      }
+
+      const flaggedOnly = req.query.flagged === 'true';
+      const sessions = this.dutyCycleManager.getSessions(deviceId)
+        .filter(session => !flaggedOnly || session.issues.length > 0)
+        .slice(0, limit);
+
+      res.json({
+        success: true,
+        deviceId,
+        sessions,
+        count: sessions.length
+      });
+    } catch (error) {
+      console.error('Error getting duty cycle sessions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve duty cycle sessions'
+      });
+    }
+  };
+
+  /**
+   * Update a device's name, location and tags
+   */
+  public updateDeviceDetails = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+      const { name, location, tags } = req.body ?? {};
+      const metadata: DeviceMetadata = {};
+
+      if (name !== undefined) {
+        if (typeof name !== 'string' || name.trim().length > MAX_NAME_LENGTH) {
+          res.status(400).json({
+            success: false,
+            error: `name must be a string of at most ${MAX_NAME_LENGTH} characters`
+          });
+          return;
+        }
+        metadata.name = name.trim();
+      }
+
+      if (location !== undefined) {
+        if (typeof location !== 'string' || location.trim().length > MAX_LOCATION_LENGTH) {
+          res.status(400).json({
+            success: false,
+            error: `location must be a string of at most ${MAX_LOCATION_LENGTH} characters`
+          });
+          return;
+        }
+        metadata.location = location.trim();
+      }
+
+      if (tags !== undefined) {
+        if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+          res.status(400).json({
+            success: false,
+            error: 'tags must be an array of strings'
+          });
+          return;
+        }
+
+        const normalizedTags = Array.from(new Set(
+          tags.map((tag: string) => tag.trim().toLowerCase()).filter((tag: string) => tag.length > 0)
+        ));
+
+        if (normalizedTags.length > MAX_TAGS || normalizedTags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+          res.status(400).json({
+            success: false,
+            error: `At most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters are allowed`
+          });
+          return;
+        }
+        metadata.tags = normalizedTags;
+      }
+
+      const device = this.deviceManager.updateDeviceMetadata(deviceId, metadata);
+      if (!device) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Device ${deviceId} updated`,
+        device: {
+          deviceId: device.deviceId,
+          name: device.name || device.deviceId,
+          location: device.location,
+          tags: device.tags
+        }
+      });
+    } catch (error) {
+      console.error('Error updating device details:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update device'
+      });
+    }
+  };
+
+  /**
+   * Get devices awaiting admin approval
+   */
+  public getPendingDevices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const devices = this.deviceManager.getDevicesByStatus(DeviceStatus.PENDING);
+      const deviceList = devices.map(device => ({
+        deviceId: device.deviceId,
+        operationMode: device.operationMode,
+        motionSensorDetected: device.motionSensorDetected,
+        requestedAt: device.registeredAt,
+        lastAttempt: device.lastSeen
+      }));
+
+      res.json({
+        success: true,
+        devices: deviceList,
+        count: deviceList.length
+      });
+    } catch (error) {
+      console.error('Error getting pending devices:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve pending devices'
+      });
+    }
+  };
+
+  /**
+   * Approve a pending device registration
+   */
+  public approveDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+
+      if (!this.deviceManager.approveDevice(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Pending device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Device ${deviceId} approved`,
+        deviceId
+      });
+    } catch (error) {
+      console.error('Error approving device:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to approve device'
+      });
+    }
+  };
+
+  /**
+   * Reject a pending device registration
+   */
+  public rejectDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+
+      if (!this.deviceManager.rejectDevice(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Pending device not found'
+        });
+        return;
+      }
+
+      this.groupManager.removeDeviceFromGroups(deviceId);
+
+      res.json({
+        success: true,
+        message: `Device ${deviceId} rejected`,
+        deviceId
+      });
+    } catch (error) {
+      console.error('Error rejecting device:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reject device'
+      });
+    }
+  };
+
+  /**
+   * Rotate a device's API key
+   */
+  public rotateDeviceKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+      const result = this.deviceManager.rotateApiKey(deviceId);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: 'Approved device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: result.delivered
+          ? `New API key delivered to device ${deviceId}`
+          : `API key rotated for device ${deviceId}; it will receive the new key when it next registers`,
+        deviceId,
+        delivered: result.delivered,
+        graceExpiresAt: result.graceExpiresAt
+      });
+    } catch (error) {
+      console.error('Error rotating device key:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rotate API key'
+      });
+    }
+  };
+
+  /**
+   * Revoke a device's API key and disconnect it
+   */
+  public revokeDeviceKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      const deviceId = decodeURIComponent(rawDeviceId);
+
+      if (!this.deviceManager.revokeApiKey(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `API key revoked for device ${deviceId}; re-approval required`,
+        deviceId
+      });
+    } catch (error) {
+      console.error('Error revoking device key:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to revoke API key'
+      });
+    }
+  };
+
+  /**
+   * Dry run of the device lifecycle policies
+   * Lists the devices the policies will mark dormant or remove, and when
+   */
+  public getLifecycleReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const devices = this.deviceManager.getLifecycleReport();
+
+      res.json({
+        success: true,
+        defaultPolicy: config.lifecycle.defaultPolicy,
+        nextCleanup: config.server.cleanupSchedule,
+        devices,
+        count: devices.length
+      });
+    } catch (error) {
+      console.error('Error building lifecycle report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build lifecycle report'
+      });
+    }
+  };
+
+  /**
+   * Set a device's own lifecycle policy
+   * Body: { mode: 'never' | 'dormant' | 'expire', afterDays }
+   */
+  public setDeviceLifecycle = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const result = validateLifecyclePolicy(req.body);
+      if (!result.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid lifecycle policy',
+          errors: result.errors
+        });
+        return;
+      }
+
+      const lifecycle = this.deviceManager.setLifecyclePolicy(deviceId, result.value);
+      if (!lifecycle) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        lifecycle
+      });
+    } catch (error) {
+      console.error('Error setting lifecycle policy:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to set lifecycle policy'
+      });
+    }
+  };
+
+  /**
+   * Return a device to the global lifecycle policy
+   */
+  public resetDeviceLifecycle = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const lifecycle = this.deviceManager.setLifecyclePolicy(deviceId, null);
+      if (!lifecycle) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        lifecycle
+      });
+    } catch (error) {
+      console.error('Error resetting lifecycle policy:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset lifecycle policy'
+      });
+    }
+  };
+
+  /**
+   * Set a device's own pre- and post-roll
+   * Body: { preRollSeconds?, postRollSeconds? }; omitted fields keep their current value
+   */
+  public setDeviceRecordingWindow = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const result = validateRecordingWindow(req.body, this.deviceManager.getRecordingWindow(device).window);
+      if (!result.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid recording window',
+          errors: result.errors
+        });
+        return;
+      }
+
+      const recordingWindow = this.deviceManager.setRecordingWindow(deviceId, result.value);
+      if (!recordingWindow) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        recordingWindow
+      });
+    } catch (error) {
+      console.error('Error setting recording window:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to set recording window'
+      });
+    }
+  };
+
+  /**
+   * Return a device to the global pre- and post-roll
+   */
+  public resetDeviceRecordingWindow = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const recordingWindow = this.deviceManager.setRecordingWindow(deviceId, null);
+      if (!recordingWindow) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        recordingWindow
+      });
+    } catch (error) {
+      console.error('Error resetting recording window:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset recording window'
+      });
+    }
+  };
+
+  /**
+   * Set a device's own motion detection settings
+   * Body: { enabled?, sensitivity?, minAreaPercent?, triggerRecording? }; omitted fields keep their current value
+   */
+  public setDeviceMotion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const result = validateMotionSettings(req.body, this.deviceManager.getMotionSettings(device).settings);
+      if (!result.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid motion settings',
+          errors: result.errors
+        });
+        return;
+      }
+
+      const motion = this.deviceManager.setMotionSettings(deviceId, result.value);
+      if (!motion) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        motion
+      });
+    } catch (error) {
+      console.error('Error setting motion settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to set motion settings'
+      });
+    }
+  };
+
+  /**
+   * Return a device to the global motion detection settings
+   */
+  public resetDeviceMotion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const motion = this.deviceManager.setMotionSettings(deviceId, null);
+      if (!motion) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        motion
+      });
+    } catch (error) {
+      console.error('Error resetting motion settings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reset motion settings'
+      });
+    }
+  };
+
+  /**
+   * Get a device's motion events
+   * Query: from, to (ISO timestamps, default last 24 hours)
+   */
+  public getDeviceMotionEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      if (!this.deviceManager.getDeviceById(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const to = typeof req.query.to === 'string' ? new Date(req.query.to) : new Date();
+      const from = typeof req.query.from === 'string'
+        ? new Date(req.query.from)
+        : new Date(to.getTime() - AVAILABILITY_WINDOW_MS);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        res.status(400).json({
+          success: false,
+          error: 'from and to must be valid timestamps with from before to'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        deviceId,
+        events: this.motionLog.getEvents(deviceId, from, to)
+      });
+    } catch (error) {
+      console.error('Error getting motion events:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve motion events'
+      });
+    }
+  };
+
+  /**
+   * Permanently retire a device
+   * Body: { recordings: 'archive' | 'keep' | 'delete', confirmDeviceId, reason? }
+   * confirmDeviceId must repeat the device ID, so the recordings choice is made deliberately.
+   */
+  public decommissionDevice = async (req: Request, res: Response): Promise<void> => {
+    let recordingsTouched = false;
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device || !this.deviceManager.isApproved(device)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const { recordings, confirmDeviceId, reason } = req.body ?? {};
+      if (!RECORDING_DISPOSITIONS.includes(recordings)) {
+        res.status(400).json({
+          success: false,
+          error: `recordings must be one of: ${RECORDING_DISPOSITIONS.join(', ')}`
+        });
+        return;
+      }
+
+      if (confirmDeviceId !== deviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'confirmDeviceId must match the device ID to decommission it'
+        });
+        return;
+      }
+
+      if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+        res.status(400).json({
+          success: false,
+          error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`
+        });
+        return;
+      }
+
+      // Nothing may write to the recordings while they are moved or removed;
+      // the camera stays connected until decommissionDevice closes its socket
+      await this.videoProcessor.blockRecording(deviceId);
+      let archivePath: string | undefined;
+      let decommissioned: DecommissionInfo | undefined;
+      try {
+        // Recordings are handled first so that a failure leaves the device registered
+        recordingsTouched = recordings !== 'keep';
+        archivePath = await this.disposeRecordings(deviceId, recordings);
+
+        decommissioned = this.deviceManager.decommissionDevice(deviceId, {
+          recordings,
+          ...(archivePath !== undefined && { archivePath }),
+          ...(reason && { reason: reason.trim() })
+        });
+      } finally {
+        this.videoProcessor.unblockRecording(deviceId);
+      }
+      this.groupManager.removeDeviceFromGroups(deviceId);
+      this.scheduleManager.removeTarget({ type: 'device', id: deviceId });
+
+      this.auditLog.record('device_decommissioned', {
+        name: device.name,
+        recordings,
+        ...(archivePath !== undefined && { archivePath }),
+        ...(reason && { reason: reason.trim() })
+      }, deviceId);
+
+      res.json({
+        success: true,
+        message: `Device ${deviceId} decommissioned`,
+        deviceId,
+        decommissioned
+      });
+    } catch (error) {
+      console.error('Error decommissioning device:', error);
+      res.status(500).json({
+        success: false,
+        error: recordingsTouched
+          ? 'Failed to decommission device; its recordings may already have been partly archived or deleted'
+          : 'Failed to decommission device; no changes were made to it'
+      });
+    }
+  };
+
+  /**
+   * List decommissioned devices
+   */
+  public getDecommissionedDevices = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const devices = this.deviceManager.getDevicesByStatus(DeviceStatus.DECOMMISSIONED);
+      const deviceList = devices.map(device => ({
+        deviceId: device.deviceId,
+        name: device.name || device.deviceId,
+        location: device.location,
+        tags: device.tags,
+        firmwareVersion: device.firmwareVersion,
+        registeredAt: device.registeredAt,
+        lastSeen: device.lastSeen,
+        decommissioned: device.decommissioned
+      }));
+
+      res.json({
+        success: true,
+        devices: deviceList,
+        count: deviceList.length
+      });
+    } catch (error) {
+      console.error('Error getting decommissioned devices:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve decommissioned devices'
+      });
+    }
+  };
+
+  /**
+   * Get the audit trail of administrative actions
+   * Query: deviceId (optional), limit (optional, default 100)
+   */
+  public getAuditLog = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId : undefined;
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : DEFAULT_AUDIT_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1 || limit > config.audit.maxEntries) {
+        res.status(400).json({
+          success: false,
+          error: `limit must be an integer between 1 and ${config.audit.maxEntries}`
+        });
+        return;
+      }
+
+      const entries = this.auditLog.getEntries(deviceId, limit);
+
+      res.json({
+        success: true,
+        entries,
+        count: entries.length
+      });
+    } catch (error) {
+      console.error('Error getting audit log:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve audit log'
+      });
+    }
+  };
+
+  /**
+   * List a device's commands and their delivery state
+   * Query: state (optional) - queued, delivered, expired, cancelled or failed
+   */
+  public getDeviceCommands = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const { state } = req.query;
+
+      if (!this.deviceManager.getDeviceById(deviceId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      if (state !== undefined && !COMMAND_STATES.includes(state as CommandState)) {
+        res.status(400).json({
+          success: false,
+          error: `state must be one of: ${COMMAND_STATES.join(', ')}`
+        });
+        return;
+      }
+
+      const commands = this.commandQueue.getCommands(deviceId, state as CommandState | undefined);
+      res.json({
+        success: true,
+        deviceId,
+        commands,
+        count: commands.length
+      });
+    } catch (error) {
+      console.error('Error getting device commands:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve device commands'
+      });
+    }
+  };
+
+  /**
+   * Send a command to a device, queueing it if the device is asleep or offline
+   * Body: { action, payload?, ttlMs? }
+   */
+  public sendDeviceCommand = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const { action, payload = {}, ttlMs } = req.body ?? {};
+
+      if (!isDeviceCommand(action)) {
+        res.status(400).json({
+          success: false,
+          error: `action must be one of: ${DEVICE_COMMANDS.join(', ')}`
+        });
+        return;
+      }
+
+      if (RESERVED_COMMANDS.includes(action)) {
+        res.status(400).json({
+          success: false,
+          error: `${action} is managed by its own endpoint`
+        });
+        return;
+      }
+
+      if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        res.status(400).json({
+          success: false,
+          error: 'payload must be an object'
+        });
+        return;
+      }
+
+      const maxTtlMs = config.commandQueue.maxTtlMs;
+      if (ttlMs !== undefined && (!Number.isInteger(ttlMs) || ttlMs < 1000 || ttlMs > maxTtlMs)) {
+        res.status(400).json({
+          success: false,
+          error: `ttlMs must be an integer between 1000 and ${maxTtlMs}`
+        });
+        return;
+      }
+
+      const result = this.deviceManager.dispatchCommand(deviceId, action, payload, ttlMs);
+      if (!result.command) {
+        const status = result.error === 'Device not found' ? 404 : result.error === 'Command queue is full' ? 409 : 400;
+        res.status(status).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(result.command.state === 'queued' ? 202 : 200).json({
+        success: true,
+        message: result.command.state === 'queued'
+          ? `Device ${deviceId} is not reachable; ${action} queued until ${result.command.expiresAt}`
+          : `${action} sent to device ${deviceId}`,
+        command: result.command
+      });
+    } catch (error) {
+      console.error('Error sending device command:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to send command'
+      });
+    }
+  };
+
+  /**
+   * Cancel a queued command
+   */
+  public cancelDeviceCommand = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const command = this.commandQueue.cancel(deviceId, req.params.commandId ?? '');
+
+      if (!command) {
+        res.status(404).json({
+          success: false,
+          error: 'Command not found'
+        });
+        return;
+      }
+
+      if (command.state !== 'cancelled') {
+        res.status(409).json({
+          success: false,
+          error: `Command is already ${command.state}`,
+          command
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `${command.action} cancelled`,
+        command
+      });
+    } catch (error) {
+      console.error('Error cancelling device command:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to cancel command'
+      });
+    }
+  };
+
+  /**
+   * Reboot a device
+   * Responds once the device accepts; the reboot is then tracked until it reconnects.
+   */
+  public rebootDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      await this.runPowerAction(res, deviceId, 'reboot');
+    } catch (error) {
+      console.error('Error rebooting device:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to reboot device'
+      });
+    }
+  };
+
+  /**
+   * Put a device into deep sleep for a chosen time
+   * Body: { durationMs }
+   */
+  public sleepDevice = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const { durationMs } = req.body ?? {};
+      const { minSleepMs, maxSleepMs } = config.powerCommands;
+
+      if (!Number.isInteger(durationMs) || durationMs < minSleepMs || durationMs > maxSleepMs) {
+        res.status(400).json({
+          success: false,
+          error: `durationMs must be an integer between ${minSleepMs} and ${maxSleepMs}`
+        });
+        return;
+      }
+
+      await this.runPowerAction(res, deviceId, 'sleep', durationMs);
+    } catch (error) {
+      console.error('Error putting device to sleep:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to put device to sleep'
+      });
+    }
+  };
+
+  /**
+   * Start streaming for a specific device
+   */
+  public startDeviceStream = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+      
+      if (!rawDeviceId) {
+        console.log('No device ID provided');
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      // URL decode the device ID to handle colons properly
+      const deviceId = decodeURIComponent(rawDeviceId);
+      console.log('Decoded device ID:', deviceId);
+
+      const duration = req.body.duration || 30000; // Default 30 seconds
+      const result = await this.startStreamForDevice(deviceId, duration);
+
+      if (!result.success) {
+        res.status(result.code ? RPC_ERROR_STATUS[result.code] : 409).json(result);
+        return;
+      }
+
+      res.json({
+        ...result,
+        duration
+      });
+    } catch (error) {
+      console.error('Error in startDeviceStream:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to start stream'
+      });
+    }
+  };
+
+  /**
+   * Stop streaming for a specific device
+   */
+  public stopDeviceStream = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { deviceId: rawDeviceId } = req.params;
+      
+      if (!rawDeviceId) {
+        res.status(400).json({
+          success: false,
+          error: 'Device ID is required'
+        });
+        return;
+      }
+
+      // URL decode the device ID to handle colons properly
+      const deviceId = decodeURIComponent(rawDeviceId);
+      const result = await this.stopStreamForDevice(deviceId);
+
+      if (!result.success) {
+        res.status(result.code ? RPC_ERROR_STATUS[result.code] : 400).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error('Error stopping device stream:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stop stream'
+      });
+    }
+  };
+
+  /**
+   * Get all device groups
+   */
+  public getGroups = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const groups = this.groupManager.getAllGroups();
+
+      res.json({
+        success: true,
+        groups,
+        count: groups.length
+      });
+    } catch (error) {
+      console.error('Error getting groups:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve groups'
+      });
+    }
+  };
+
+  /**
+   * Create a device group
+   */
+  public createGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, deviceIds = [] } = req.body ?? {};
+
+      const validationError = this.validateGroupInput(name, deviceIds);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      if (this.groupManager.findGroupByName(name.trim())) {
+        res.status(409).json({
+          success: false,
+          error: `A group named "${name.trim()}" already exists`
+        });
+        return;
+      }
+
+      const group = this.groupManager.createGroup(name.trim(), deviceIds);
+
+      res.status(201).json({
+        success: true,
+        group
+      });
+    } catch (error) {
+      console.error('Error creating group:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create group'
+      });
+    }
+  };
+
+  /**
+   * Rename a device group or replace its members
+   */
+  public updateGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { groupId } = req.params;
+      const { name, deviceIds } = req.body ?? {};
+
+      if (!groupId || !this.groupManager.getGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Group not found'
+        });
+        return;
+      }
+
+      const validationError = this.validateGroupInput(name, deviceIds, true);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      if (name !== undefined) {
+        const existing = this.groupManager.findGroupByName(name.trim());
+        if (existing && existing.groupId !== groupId) {
+          res.status(409).json({
+            success: false,
+            error: `A group named "${name.trim()}" already exists`
+          });
+          return;
+        }
+      }
+
+      const changes: { name?: string; deviceIds?: string[] } = {};
+      if (name !== undefined) {
+        changes.name = name.trim();
+      }
+      if (deviceIds !== undefined) {
+        changes.deviceIds = deviceIds;
+      }
+
+      const group = this.groupManager.updateGroup(groupId, changes);
+
+      res.json({
+        success: true,
+        group
+      });
+    } catch (error) {
+      console.error('Error updating group:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update group'
+      });
+    }
+  };
+
+  /**
+   * Delete a device group
+   */
+  public deleteGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { groupId } = req.params;
+
+      if (!groupId || !this.groupManager.deleteGroup(groupId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Group not found'
+        });
+        return;
+      }
+
+      this.scheduleManager.removeTarget({ type: 'group', id: groupId });
+
+      res.json({
+        success: true,
+        message: `Group ${groupId} deleted`,
+        groupId
+      });
+    } catch (error) {
+      console.error('Error deleting group:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete group'
+      });
+    }
+  };
+
+  /**
+   * Start streaming on every device in a group
+   */
+  public startGroupStream = async (req: Request, res: Response): Promise<void> => {
+    const duration = req.body?.duration || 30000;
+    await this.runGroupCommand(req, res, 'start stream', deviceId => this.startStreamForDevice(deviceId, duration));
+  };
+
+  /**
+   * Stop streaming on every device in a group
+   */
+  public stopGroupStream = async (req: Request, res: Response): Promise<void> => {
+    await this.runGroupCommand(req, res, 'stop stream', deviceId => this.stopStreamForDevice(deviceId));
+  };
+
+  /**
+   * Change the operation mode of every device in a group
+   */
+  public updateGroupOperationMode = async (req: Request, res: Response): Promise<void> => {
+    const { operationMode } = req.body ?? {};
+
+    const validation = validateDeviceConfig({ operationMode });
+    if (!validation.valid || !validation.value.operationMode) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid operation mode',
+        errors: validation.valid ? [] : validation.errors
+      });
+      return;
+    }
+
+    const mode = validation.value.operationMode;
+    await this.runGroupCommand(req, res, 'update operation mode', deviceId => {
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device) {
+        return { deviceId, success: false, error: 'Device not found' };
+      }
+
+      const deviceValidation = validateDeviceConfig({ operationMode: mode }, device.capabilities);
+      if (!deviceValidation.valid) {
+        return { deviceId, success: false, error: this.formatFieldErrors(deviceValidation.errors) };
+      }
+
+      this.deviceManager.updateOperationMode(deviceId, mode, device.motionSensorDetected);
+      return { deviceId, success: true, message: `Operation mode set to ${mode}` };
+    });
+  };
+
+  /**
+   * Apply a configuration change to every device in a group
+   */
+  public updateGroupConfig = async (req: Request, res: Response): Promise<void> => {
+    const { config: newConfig } = req.body ?? {};
+
+    if (!newConfig) {
+      res.status(400).json({
+        success: false,
+        error: 'config is required'
+      });
+      return;
+    }
+
+    const validation = validateDeviceConfig(newConfig);
+    if (!validation.valid) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid configuration',
+        errors: validation.errors
+      });
+      return;
+    }
+
+    await this.runGroupCommand(req, res, 'update config', deviceId => {
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device) {
+        return { deviceId, success: false, error: 'Device not found' };
+      }
+
+      const deviceValidation = validateDeviceConfig(validation.value, device.capabilities);
+      if (!deviceValidation.valid) {
+        return { deviceId, success: false, error: this.formatFieldErrors(deviceValidation.errors) };
+      }
+
+      this.deviceManager.updateDeviceConfig(deviceId, deviceValidation.value);
+      return { deviceId, success: true, message: 'Configuration updated' };
+    });
+  };
+
+  /**
+   * List weekly schedules with the entry each is currently on
+   */
+  public getSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedules = this.scheduleManager.getAllSchedules();
+
+      res.json({
+        success: true,
+        schedules,
+        count: schedules.length,
+        timezone: config.schedules.timezone
+      });
+    } catch (error) {
+      console.error('Error getting schedules:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve schedules'
+      });
+    }
+  };
+
+  /**
+   * Create a weekly schedule for a device or group
+   * Body: { name, target: { type, id }, enabled?, entries: [{ days, time, config }] }
+   * The entry currently in effect is applied immediately.
+   */
+  public createSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = validateSchedule(req.body);
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid schedule',
+          errors: validation.errors
+        });
+        return;
+      }
+
+      const targetError = this.checkScheduleTarget(validation.value.target);
+      if (targetError) {
+        res.status(404).json({
+          success: false,
+          error: targetError
+        });
+        return;
+      }
+
+      if (this.scheduleManager.findScheduleForTarget(validation.value.target)) {
+        res.status(409).json({
+          success: false,
+          error: `This ${validation.value.target.type} already has a schedule`
+        });
+        return;
+      }
+
+      const schedule = this.scheduleManager.createSchedule(validation.value);
+
+      res.status(201).json({
+        success: true,
+        schedule
+      });
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create schedule'
+      });
+    }
+  };
+
+  /**
+   * Replace a weekly schedule
+   * Body: same as createSchedule
+   */
+  public updateSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { scheduleId } = req.params;
+
+      if (!scheduleId || !this.scheduleManager.getSchedule(scheduleId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+        return;
+      }
+
+      const validation = validateSchedule(req.body);
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid schedule',
+          errors: validation.errors
+        });
+        return;
+      }
+
+      const targetError = this.checkScheduleTarget(validation.value.target);
+      if (targetError) {
+        res.status(404).json({
+          success: false,
+          error: targetError
+        });
+        return;
+      }
+
+      const existing = this.scheduleManager.findScheduleForTarget(validation.value.target);
+      if (existing && existing.scheduleId !== scheduleId) {
+        res.status(409).json({
+          success: false,
+          error: `This ${validation.value.target.type} already has a schedule`
+        });
+        return;
+      }
+
+      const schedule = this.scheduleManager.updateSchedule(scheduleId, validation.value);
+
+      res.json({
+        success: true,
+        schedule
+      });
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update schedule'
+      });
+    }
+  };
+
+  /**
+   * Delete a weekly schedule; devices keep their current configuration
+   */
+  public deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { scheduleId } = req.params;
+
+      if (!scheduleId || !this.scheduleManager.deleteSchedule(scheduleId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Schedule not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Schedule ${scheduleId} deleted`,
+        scheduleId
+      });
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete schedule'
+      });
+    }
+  };
+
+  /**
+   * Get the device configuration schema (field types, ranges and defaults)
+   * Lets the frontend build config forms without hard-coding limits.
+   * Query: deviceId (optional) narrows the schema to what that device supports
+   */
+  public getConfigSchema = async (req: Request, res: Response): Promise<void> => {
+    const { deviceId } = req.query;
+    const device = typeof deviceId === 'string' ? this.deviceManager.getDeviceById(deviceId) : undefined;
+
+    if (typeof deviceId === 'string' && !device) {
+      res.status(404).json({
+        success: false,
+        error: 'Device not found'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      schema: getDeviceConfigSchema(device?.capabilities)
+    });
+  };
+
+  /**
+   * Change a single device's configuration
+   * Body: { config: Partial<DeviceConfig> }, checked against the device's capabilities
+   */
+  public updateDeviceConfig = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+      const device = this.deviceManager.getDeviceById(deviceId);
 
-  constructor() {
-    this.deviceManager = DeviceManager.getInstance();
-  }
+      if (!device) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found'
+        });
+        return;
+      }
+
+      const validation = validateDeviceConfig(req.body?.config, device.capabilities);
+      if (!validation.valid) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid configuration',
+          errors: validation.errors
+        });
+        return;
+      }
+
+      this.deviceManager.updateDeviceConfig(deviceId, validation.value);
+
+      res.json({
+        success: true,
+        message: 'Configuration updated',
+        deviceId,
+        config: device.config,
+        configVersion: device.configVersion,
+        configSync: device.configSync
+      });
+    } catch (error) {
+      console.error('Error updating device config:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update configuration'
+      });
+    }
+  };
 
   /**
-   * Get all devices with their current status
+   * List the firmware images available for over-the-air updates
    */
-  public getDevices = async (req: Request, res: Response): Promise<void> => {
+  public getFirmwareImages = async (req: Request, res: Response): Promise<void> => {
     try {
-      const devices = this.deviceManager.getAllDevices();
-      const deviceList = devices.map(device => ({
-        deviceId: device.deviceId,
-        name: device.name || device.deviceId,
-        status: device.status,
-        config: device.config,
-        lastSeen: device.lastSeen,
-        isStreaming: device.status === DeviceStatus.STREAMING,
-        batteryLevel: device.batteryLevel,
-        operationMode: device.operationMode
+      const images = this.firmwareRepository.getAllImages().map(image => ({
+        ...image,
+        targetedBy: this.deviceManager.getAllDevices()
+          .filter(device => device.targetFirmwareVersion === image.version)
+          .map(device => device.deviceId)
       }));
 
       res.json({
         success: true,
-        devices: deviceList,
-        count: deviceList.length
+        images,
+        count: images.length
       });
     } catch (error) {
-      console.error('Error getting devices:', error);
+      console.error('Error listing firmware images:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to retrieve devices'
+        error: 'Failed to retrieve firmware images'
       });
     }
   };
 
   /**
-   * Start streaming for a specific device
+   * Upload a firmware image
+   * Body: raw .bin (application/octet-stream)
+   * Query: version (required), sha256 (optional checksum to verify), notes (optional)
    */
-  public startDeviceStream = async (req: Request, res: Response): Promise<void> => {
+  public uploadFirmwareImage = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { deviceId: rawDeviceId } = req.params;
-      console.log(rawDeviceId);
-      
-      if (!rawDeviceId) {
-        console.log('No device ID provided');
+      const { version, sha256, notes } = req.query;
+
+      if (typeof version !== 'string' || !FIRMWARE_VERSION_REGEX.test(version)) {
         res.status(400).json({
           success: false,
-          error: 'Device ID is required'
+          error: `version ${FIRMWARE_VERSION_RULE}`
         });
         return;
       }
 
-      // URL decode the device ID to handle colons properly
-      const deviceId = decodeURIComponent(rawDeviceId);
-      console.log('Decoded device ID:', deviceId);
-      
-      // Debug: List all registered devices
-      const allDevices = this.deviceManager.getAllDevices();
-      console.log('All registered devices:', allDevices.map(d => d.deviceId));
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Firmware image must be sent as an application/octet-stream body'
+        });
+        return;
+      }
 
-      const device = this.deviceManager.getDeviceById(deviceId);
-      console.log('Device found:', !!device);
+      if (this.firmwareRepository.getImage(version)) {
+        res.status(409).json({
+          success: false,
+          error: `Firmware ${version} already exists`
+        });
+        return;
+      }
 
-      if (!device) {
-        console.log('Device not found, returning 404');
-        res.status(404).json({
+      const checksum = FirmwareRepository.checksum(req.body);
+      if (typeof sha256 === 'string' && sha256.toLowerCase() !== checksum.sha256) {
+        res.status(400).json({
           success: false,
-          error: 'Device not found'
+          error: 'Checksum mismatch: the uploaded image does not match the given sha256'
         });
         return;
       }
 
-      // For now, allow streaming commands even if WebSocket isn't connected
-      // since ESP32 may be sending data via other means
-      // if (!device.socket || device.socket.readyState !== device.socket.OPEN) {
-      //   res.status(400).json({
-      //     success: false,
-      //     error: 'Device is not connected'
-      //   });
-      //   return;
-      // }
+      const image = await this.firmwareRepository.addImage(version, req.body, typeof notes === 'string' ? notes : undefined);
 
-      // Send wake-up command to ESP32 if WebSocket is available
-      if (device.socket && device.socket.readyState === device.socket.OPEN) {
-        console.log('Sending wake command to device');
-        const wakeCommand = {
-          action: 'wake_and_stream',
-          duration: req.body.duration || 30000, // Default 30 seconds
-          timestamp: Date.now()
-        };
+      res.status(201).json({
+        success: true,
+        message: `Firmware ${version} uploaded`,
+        image
+      });
+    } catch (error) {
+      console.error('Error uploading firmware image:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to store firmware image'
+      });
+    }
+  };
 
-        device.socket.send(JSON.stringify(wakeCommand));
-        console.log(`Wake command sent to device: ${deviceId}`);
-        
-        // Update device status
-        this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.STREAMING);
+  /**
+   * Delete a firmware image that no device is targeting
+   */
+  public deleteFirmwareImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const version = decodeURIComponent(req.params.version ?? '');
 
-        console.log('Sending success response');
-        res.json({
-          success: true,
-          message: `Stream started for device ${deviceId}`,
-          deviceId,
-          duration: wakeCommand.duration
+      const targetedBy = this.deviceManager.getAllDevices()
+        .filter(device => device.targetFirmwareVersion === version)
+        .map(device => device.deviceId);
+      if (targetedBy.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: `Firmware ${version} is the target version of ${targetedBy.length} device(s)`,
+          targetedBy
         });
-      } else {
-        console.log('WebSocket not available, sending alternative response');
-        
-        // Update device status anyway since ESP32 is sending data
-        this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.STREAMING);
+        return;
+      }
 
-        res.json({
-          success: true,
-          message: `Stream started for device ${deviceId} (WebSocket unavailable)`,
-          deviceId,
-          duration: req.body.duration || 30000
+      if (!(await this.firmwareRepository.deleteImage(version))) {
+        res.status(404).json({
+          success: false,
+          error: 'Firmware not found'
         });
+        return;
       }
+
+      res.json({
+        success: true,
+        message: `Firmware ${version} deleted`
+      });
     } catch (error) {
-      console.error('Error in startDeviceStream:', error);
+      console.error('Error deleting firmware image:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to start stream'
+        error: 'Failed to delete firmware image'
       });
     }
   };
 
   /**
-   * Stop streaming for a specific device
+   * Set the firmware version a device should run
+   * Body: { version } or { version: null } to cancel
    */
-  public stopDeviceStream = async (req: Request, res: Response): Promise<void> => {
+  public setDeviceFirmware = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { deviceId: rawDeviceId } = req.params;
-      
-      if (!rawDeviceId) {
+      const deviceId = decodeURIComponent(req.params.deviceId ?? '');
+
+      const target = this.parseFirmwareTarget(req.body?.version);
+      if (typeof target === 'object' && target !== null) {
         res.status(400).json({
           success: false,
-          error: 'Device ID is required'
+          error: target.error
         });
         return;
       }
 
-      // URL decode the device ID to handle colons properly
-      const deviceId = decodeURIComponent(rawDeviceId);
-      const device = this.deviceManager.getDeviceById(deviceId);
-
+      const device = this.deviceManager.setTargetFirmware(deviceId, target);
       if (!device) {
         res.status(404).json({
           success: false,
@@ -165,37 +1959,48 @@ export class ApiController {
         return;
       }
 
-      if (!device.socket || device.socket.readyState !== device.socket.OPEN) {
-        res.status(400).json({
-          success: false,
-          error: 'Device is not connected'
-        });
-        return;
-      }
-
-      // Send stop command to ESP32
-      const stopCommand = {
-        action: 'stop_stream',
-        timestamp: Date.now()
-      };
-
-      device.socket.send(JSON.stringify(stopCommand));
-      
-      // Update device status
-      this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.ONLINE);
-
       res.json({
         success: true,
-        message: `Stream stopped for device ${deviceId}`,
-        deviceId
+        message: target === null ? `Firmware update cancelled for device ${deviceId}` : `Device ${deviceId} will be updated to ${target}`,
+        deviceId,
+        firmwareVersion: device.firmwareVersion,
+        firmwareUpdate: device.firmwareUpdate
       });
     } catch (error) {
-      console.error('Error stopping device stream:', error);
+      console.error('Error setting device firmware:', error);
       res.status(500).json({
         success: false,
-        error: 'Failed to stop stream'
+        error: 'Failed to set target firmware'
+      });
+    }
+  };
+
+  /**
+   * Set the firmware version for every device in a group
+   * Body: { version } or { version: null } to cancel
+   */
+  public setGroupFirmware = async (req: Request, res: Response): Promise<void> => {
+    const target = this.parseFirmwareTarget(req.body?.version);
+    if (typeof target === 'object' && target !== null) {
+      res.status(400).json({
+        success: false,
+        error: target.error
       });
+      return;
     }
+
+    await this.runGroupCommand(req, res, 'update firmware', deviceId => {
+      const device = this.deviceManager.setTargetFirmware(deviceId, target);
+      if (!device) {
+        return { deviceId, success: false, error: 'Device not found' };
+      }
+
+      return {
+        deviceId,
+        success: true,
+        message: target === null ? 'Firmware update cancelled' : `Firmware update to ${target} ${device.firmwareUpdate?.state}`
+      };
+    });
   };
 
   /**
@@ -206,6 +2011,11 @@ export class ApiController {
       const recordingsPath = config.recordings.directory;
       const recordings: any = {};
 
+      // Recording directories are named after sanitized device IDs
+      const deviceIdsByDirectory = new Map(
+        this.deviceManager.getAllDevices().map(device => [sanitizeDeviceId(device.deviceId), device.deviceId])
+      );
+
       // Check if recordings directory exists
       try {
         await fs.access(recordingsPath);
@@ -227,6 +2037,7 @@ export class ApiController {
         
         if (stats.isDirectory()) {
           recordings[deviceId] = {};
+          const ownerId = deviceIdsByDirectory.get(deviceId);
           
           // Read date directories
           const dateDirs = await fs.readdir(devicePath);
@@ -238,17 +2049,23 @@ export class ApiController {
             if (dateStats.isDirectory()) {
               recordings[deviceId][date] = [];
               
-              // Read hour files
+              // Read segment files
               const files = await fs.readdir(datePath);
               
               for (const file of files) {
                 if (file.endsWith('.mp4')) {
                   const filePath = path.join(datePath, file);
                   const fileStats = await fs.stat(filePath);
-                  const hour = file.replace('.mp4', '');
+                  const startTime = parseRecordingStart(date, file) ?? fileStats.birthtime;
+                  // FFmpeg writes until the segment closes, so the last write is its end
+                  const endTime = fileStats.mtime > startTime ? fileStats.mtime : startTime;
                   
                   recordings[deviceId][date].push({
-                    hour,
+                    startTime,
+                    endTime,
+                    durationMs: endTime.getTime() - startTime.getTime(),
+                    // Motion seen while this segment was written, for the timeline
+                    motionEvents: ownerId ? this.motionLog.getEvents(ownerId, startTime, endTime) : [],
                     filename: file,
                     size: fileStats.size,
                     created: fileStats.birthtime,
@@ -258,16 +2075,25 @@ export class ApiController {
                 }
               }
               
-              // Sort by hour
-              recordings[deviceId][date].sort((a: any, b: any) => a.hour.localeCompare(b.hour));
+              // Sort by start time
+              recordings[deviceId][date].sort((a: any, b: any) => a.startTime.getTime() - b.startTime.getTime());
             }
           }
         }
       }
 
+      // Map recording directories back to friendly device names
+      const deviceNames: Record<string, string> = {};
+      for (const device of this.deviceManager.getAllDevices()) {
+        if (device.name) {
+          deviceNames[sanitizeDeviceId(device.deviceId)] = device.name;
+        }
+      }
+
       res.json({
         success: true,
-        recordings
+        recordings,
+        deviceNames
       });
     } catch (error) {
       console.error('Error getting recordings:', error);
@@ -334,15 +2160,44 @@ export class ApiController {
     }
   };
 
+  /**
+   * Get the server's media toolchain: where FFmpeg and ffprobe were found,
+   * their versions and the encoders available for recording
+   */
+  public getSystemInfo = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const ffmpegStatus = FfmpegToolchain.getInstance().getStatus();
+
+      res.json({
+        success: true,
+        recording: {
+          enabled: FfmpegToolchain.getInstance().isAvailable(),
+          outputCodec: config.video.outputCodec
+        },
+        ffmpeg: ffmpegStatus,
+        node: process.version,
+        platform: `${process.platform}-${process.arch}`
+      });
+    } catch (error) {
+      console.error('Error getting system info:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve system info'
+      });
+    }
+  };
+
   /**
    * Get system statistics
    */
   public getSystemStats = async (req: Request, res: Response): Promise<void> => {
     try {
-      const devices = this.deviceManager.getAllDevices();
+      const devices = this.deviceManager.getAllDevices()
+        .filter(device => this.deviceManager.isApproved(device));
       const totalDevices = devices.length;
-      const onlineDevices = devices.filter(d => d.status !== DeviceStatus.OFFLINE).length;
+      const onlineDevices = devices.filter(d => d.status !== DeviceStatus.OFFLINE && d.status !== DeviceStatus.DORMANT).length;
       const streamingDevices = devices.filter(d => d.status === DeviceStatus.STREAMING).length;
+      const dormantDevices = devices.filter(d => d.status === DeviceStatus.DORMANT).length;
 
       // Calculate total recordings size
       let totalRecordingsSize = 0;
@@ -388,7 +2243,8 @@ export class ApiController {
             total: totalDevices,
             online: onlineDevices,
             streaming: streamingDevices,
-            offline: totalDevices - onlineDevices
+            dormant: dormantDevices,
+            offline: totalDevices - onlineDevices - dormantDevices
           },
           recordings: {
             total: totalRecordings,
@@ -411,6 +2267,272 @@ export class ApiController {
     }
   };
 
+  /**
+   * Ask a device to start streaming
+   * Connected devices are asked directly and their answer is returned;
+   * sleeping ones get the request queued until they wake.
+   * @param deviceId - Target device
+   * @param duration - Requested stream duration in milliseconds
+   * @returns Per-device result
+   */
+  private async startStreamForDevice(deviceId: string, duration: number): Promise<DeviceCommandResult> {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (!device) {
+      console.log(`Device ${deviceId} not found`);
+      return { deviceId, success: false, error: 'Device not found', code: 'not_found' };
+    }
+
+    if (!this.deviceManager.supportsCommand(device, 'start_streaming')) {
+      return { deviceId, success: false, error: 'Device firmware does not support start_streaming', code: 'unsupported' };
+    }
+
+    // Sleeping cameras get the request when they next wake, if that's soon enough to matter
+    if (!this.deviceManager.isReachable(device)) {
+      const queued = this.deviceManager.dispatchCommand(deviceId, 'start_streaming', { duration, timestamp: Date.now() }, STREAM_REQUEST_TTL_MS);
+      if (!queued.command) {
+        return { deviceId, success: false, error: queued.error ?? 'Failed to start stream' };
+      }
+      return { deviceId, success: true, message: `Device ${deviceId} is not reachable; stream will start when it wakes` };
+    }
+
+    const result = await this.deviceRpc.request(deviceId, 'start_streaming', { duration, timestamp: Date.now() });
+    if (!result.ok) {
+      return { deviceId, success: false, error: result.error.message, code: result.error.code, ...(result.error.deviceCode && { deviceCode: result.error.deviceCode }) };
+    }
+
+    this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.STREAMING, { reason: 'stream requested' });
+    return {
+      deviceId,
+      success: true,
+      message: result.acknowledged
+        ? `Stream started for device ${deviceId}`
+        : `Stream requested for device ${deviceId}; its firmware does not confirm commands`
+    };
+  }
+
+  /**
+   * Ask a device to stop streaming and wait for its answer
+   * @param deviceId - Target device
+   * @returns Per-device result
+   */
+  private async stopStreamForDevice(deviceId: string): Promise<DeviceCommandResult> {
+    const result = await this.deviceRpc.request(deviceId, 'stop_streaming', { timestamp: Date.now() });
+    if (!result.ok) {
+      return { deviceId, success: false, error: result.error.message, code: result.error.code, ...(result.error.deviceCode && { deviceCode: result.error.deviceCode }) };
+    }
+
+    this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.ONLINE, { reason: 'stream stopped' });
+    return {
+      deviceId,
+      success: true,
+      message: result.acknowledged
+        ? `Stream stopped for device ${deviceId}`
+        : `Stream stop requested for device ${deviceId}; its firmware does not confirm commands`
+    };
+  }
+
+  /**
+   * Send a reboot or sleep command and respond with the device's answer
+   * @param res - Response to complete
+   * @param deviceId - Target device
+   * @param action - Power command
+   * @param durationMs - Sleep length, for sleep
+   */
+  private async runPowerAction(res: Response, deviceId: string, action: PowerAction, durationMs?: number): Promise<void> {
+    const result = await this.deviceRpc.request(deviceId, action, durationMs !== undefined ? { durationMs } : {});
+    if (!result.ok) {
+      if (result.error.code !== 'not_found') {
+        this.deviceManager.failPowerAction(deviceId, action, result.error.message);
+      }
+      res.status(RPC_ERROR_STATUS[result.error.code]).json({
+        success: false,
+        error: result.error.message,
+        code: result.error.code
+      });
+      return;
+    }
+
+    const powerAction = this.deviceManager.beginPowerAction(deviceId, action, durationMs);
+    res.json({
+      success: true,
+      message: action === 'reboot'
+        ? `Device ${deviceId} is rebooting`
+        : `Device ${deviceId} is going to sleep for ${Math.round((durationMs ?? 0) / 60000)} minutes`,
+      powerAction
+    });
+  }
+
+  /**
+   * Run a command against every member of the group named in req.params
+   * Responds with one result per device; the request succeeds if at least one device did.
+   */
+  private async runGroupCommand(
+    req: Request,
+    res: Response,
+    description: string,
+    command: (deviceId: string) => DeviceCommandResult | Promise<DeviceCommandResult>
+  ): Promise<void> {
+    try {
+      const { groupId } = req.params;
+      const group = groupId ? this.groupManager.getGroup(groupId) : undefined;
+
+      if (!group) {
+        res.status(404).json({
+          success: false,
+          error: 'Group not found'
+        });
+        return;
+      }
+
+      // Devices are commanded in parallel so one slow camera doesn't hold up the rest
+      const results = await Promise.all(group.deviceIds.map(async deviceId => {
+        try {
+          return await command(deviceId);
+        } catch (error) {
+          console.error(`Error running ${description} on ${deviceId}:`, error);
+          return { deviceId, success: false, error: `Failed to ${description}` };
+        }
+      }));
+
+      const succeeded = results.filter(result => result.success).length;
+      console.log(`Group ${group.name}: ${description} succeeded on ${succeeded}/${results.length} devices`);
+
+      res.json({
+        success: results.length === 0 || succeeded > 0,
+        groupId: group.groupId,
+        succeeded,
+        failed: results.length - succeeded,
+        results
+      });
+    } catch (error) {
+      console.error(`Error running group command (${description}):`, error);
+      res.status(500).json({
+        success: false,
+        error: `Failed to ${description} for group`
+      });
+    }
+  }
+
+  /**
+   * Validate a requested target firmware version
+   * @param version - Untrusted version from the request body
+   * @returns The version, null to cancel, or an error
+   */
+  private parseFirmwareTarget(version: unknown): string | null | { error: string } {
+    if (version === null) {
+      return null;
+    }
+
+    if (typeof version !== 'string' || !FIRMWARE_VERSION_REGEX.test(version)) {
+      return { error: `version ${FIRMWARE_VERSION_RULE}, or null to cancel` };
+    }
+
+    if (!this.firmwareRepository.getImage(version)) {
+      return { error: `Firmware ${version} has not been uploaded` };
+    }
+
+    return version;
+  }
+
+  /**
+   * Join field errors into a single message for per-device results
+   */
+  private formatFieldErrors(errors: FieldError[]): string {
+    return errors.map(error => `${error.field} ${error.message}`).join('; ');
+  }
+
+  /**
+   * Validate group name and member list
+   * @returns Error message, or null if valid
+   */
+  private validateGroupInput(name: unknown, deviceIds: unknown, partial: boolean = false): string | null {
+    if (name !== undefined || !partial) {
+      if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+        return `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`;
+      }
+    }
+
+    if (deviceIds !== undefined) {
+      if (!Array.isArray(deviceIds) || deviceIds.some(id => typeof id !== 'string')) {
+        return 'deviceIds must be an array of device IDs';
+      }
+
+      const unknown = deviceIds.filter((id: string) => !this.deviceManager.getDeviceById(id));
+      if (unknown.length > 0) {
+        return `Unknown devices: ${unknown.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Archive, keep or delete a device's recordings directory
+   * @param deviceId - Device being decommissioned
+   * @param disposition - What to do with the recordings
+   * @returns Where the recordings were archived to, if they were
+   */
+  private async disposeRecordings(deviceId: string, disposition: RecordingDisposition): Promise<string | undefined> {
+    const source = path.join(config.recordings.directory, sanitizeDeviceId(deviceId));
+    if (disposition === 'keep') {
+      return undefined;
+    }
+
+    try {
+      await fs.access(source);
+    } catch {
+      return undefined; // Nothing was ever recorded
+    }
+
+    if (disposition === 'delete') {
+      await fs.rm(source, { recursive: true, force: true });
+      console.log(`Deleted recordings of decommissioned device ${deviceId}`);
+      return undefined;
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const target = path.join(config.recordings.archiveDirectory, `${sanitizeDeviceId(deviceId)}_${stamp}`);
+    await fs.mkdir(config.recordings.archiveDirectory, { recursive: true });
+    try {
+      await fs.rename(source, target);
+    } catch (error) {
+      // The archive may live on another disk
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await fs.cp(source, target, { recursive: true });
+      await fs.rm(source, { recursive: true, force: true });
+    }
+
+    console.log(`Archived recordings of decommissioned device ${deviceId} to ${target}`);
+    return target;
+  }
+
+  /**
+   * Check that a schedule's device or group exists
+   * @returns Error message, or null if the target exists
+   */
+  private checkScheduleTarget(target: ScheduleTarget): string | null {
+    if (target.type === 'group') {
+      return this.groupManager.getGroup(target.id) ? null : 'Group not found';
+    }
+
+    const device = this.deviceManager.getDeviceById(target.id);
+    return device && this.deviceManager.isApproved(device) ? null : 'Device not found';
+  }
+
+  /**
+   * Parse the ?tag= query parameter into a list of normalized tags
+   */
+  private parseTagFilter(tagQuery: unknown): string[] {
+    const values = Array.isArray(tagQuery) ? tagQuery : [tagQuery];
+    return values
+      .filter((value): value is string => typeof value === 'string')
+      .flatMap(value => value.split(','))
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.length > 0);
+  }
+
   /**
    * Helper function to format bytes
    */
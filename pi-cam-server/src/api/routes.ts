@@ -3,17 +3,22 @@
  * Defines all REST API endpoints for the surveillance dashboard
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { ApiController } from './controller.js';
-import { validateApiKey } from '../middleware/auth.js';
+import { validateApiKey, requireOwnDevice } from '../middleware/auth.js';
+import { VideoProcessor } from '../services/VideoProcessor.js';
+import config from '../config.js';
 
 export class ApiRoutes {
   private router: Router;
   private controller: ApiController;
 
-  constructor() {
+  /**
+   * @param videoProcessor - The server's recorder, stopped before a device's recordings are disposed of
+   */
+  constructor(videoProcessor: VideoProcessor) {
     this.router = Router();
-    this.controller = new ApiController();
+    this.controller = new ApiController(videoProcessor);
     this.setupRoutes();
   }
 
@@ -25,6 +30,87 @@ export class ApiRoutes {
     this.router.get('/dashboard/devices', this.controller.getDevices);
     this.router.get('/dashboard/recordings', this.controller.getRecordings);
     this.router.get('/dashboard/stats', this.controller.getSystemStats);
+    this.router.get('/dashboard/system', this.controller.getSystemInfo);
+    this.router.get('/dashboard/config/schema', this.controller.getConfigSchema);
+
+    // Device onboarding (approve or reject new registrations)
+    this.router.get('/dashboard/devices/pending', this.controller.getPendingDevices);
+    this.router.get('/dashboard/devices/decommissioned', this.controller.getDecommissionedDevices);
+    this.router.post('/dashboard/devices/:deviceId/approve', this.controller.approveDevice);
+    this.router.post('/dashboard/devices/:deviceId/reject', this.controller.rejectDevice);
+
+    // Device naming, location and tags
+    this.router.patch('/dashboard/devices/:deviceId', this.controller.updateDeviceDetails);
+
+    // Per-device configuration (checked against the device's capabilities)
+    this.router.put('/dashboard/devices/:deviceId/config', this.controller.updateDeviceConfig);
+
+    // Status history and uptime
+    this.router.get('/dashboard/devices/:deviceId/history', this.controller.getDeviceHistory);
+
+    // Battery telemetry
+    this.router.get('/dashboard/devices/:deviceId/battery', this.controller.getDeviceBattery);
+
+    // Always-on stream/sleep sessions
+    this.router.get('/dashboard/devices/:deviceId/duty-cycle', this.controller.getDeviceDutyCycle);
+
+    // Remote power control
+    this.router.post('/dashboard/devices/:deviceId/reboot', this.controller.rebootDevice);
+    this.router.post('/dashboard/devices/:deviceId/sleep', this.controller.sleepDevice);
+
+    // Device commands (queued while a device is asleep or offline)
+    this.router.get('/dashboard/devices/:deviceId/commands', this.controller.getDeviceCommands);
+    this.router.post('/dashboard/devices/:deviceId/commands', this.controller.sendDeviceCommand);
+    this.router.delete('/dashboard/devices/:deviceId/commands/:commandId', this.controller.cancelDeviceCommand);
+
+    // Over-the-air firmware updates
+    this.router.get('/dashboard/firmware', this.controller.getFirmwareImages);
+    this.router.post(
+      '/dashboard/firmware',
+      express.raw({ type: 'application/octet-stream', limit: config.firmware.maxImageSizeBytes }),
+      this.controller.uploadFirmwareImage
+    );
+    this.router.delete('/dashboard/firmware/:version', this.controller.deleteFirmwareImage);
+    this.router.put('/dashboard/devices/:deviceId/firmware', this.controller.setDeviceFirmware);
+    this.router.put('/dashboard/groups/:groupId/firmware', this.controller.setGroupFirmware);
+
+    // Device groups and group-level commands
+    this.router.get('/dashboard/groups', this.controller.getGroups);
+    this.router.post('/dashboard/groups', this.controller.createGroup);
+    this.router.put('/dashboard/groups/:groupId', this.controller.updateGroup);
+    this.router.delete('/dashboard/groups/:groupId', this.controller.deleteGroup);
+    this.router.post('/dashboard/groups/:groupId/stream/start', this.controller.startGroupStream);
+    this.router.post('/dashboard/groups/:groupId/stream/stop', this.controller.stopGroupStream);
+    this.router.put('/dashboard/groups/:groupId/operation-mode', this.controller.updateGroupOperationMode);
+    this.router.put('/dashboard/groups/:groupId/config', this.controller.updateGroupConfig);
+
+    // Weekly operation mode and config schedules for devices and groups
+    this.router.get('/dashboard/schedules', this.controller.getSchedules);
+    this.router.post('/dashboard/schedules', this.controller.createSchedule);
+    this.router.put('/dashboard/schedules/:scheduleId', this.controller.updateSchedule);
+    this.router.delete('/dashboard/schedules/:scheduleId', this.controller.deleteSchedule);
+
+    // Device API key management
+    this.router.post('/dashboard/devices/:deviceId/key/rotate', this.controller.rotateDeviceKey);
+    this.router.post('/dashboard/devices/:deviceId/key/revoke', this.controller.revokeDeviceKey);
+
+    // Inactivity lifecycle: per-device policy and a dry-run report
+    this.router.get('/dashboard/lifecycle', this.controller.getLifecycleReport);
+    this.router.put('/dashboard/devices/:deviceId/lifecycle', this.controller.setDeviceLifecycle);
+    this.router.delete('/dashboard/devices/:deviceId/lifecycle', this.controller.resetDeviceLifecycle);
+
+    // Pre- and post-roll around recordings
+    this.router.put('/dashboard/devices/:deviceId/recording-window', this.controller.setDeviceRecordingWindow);
+    this.router.delete('/dashboard/devices/:deviceId/recording-window', this.controller.resetDeviceRecordingWindow);
+
+    // Server-side motion detection: per-device settings and detected events
+    this.router.put('/dashboard/devices/:deviceId/motion', this.controller.setDeviceMotion);
+    this.router.delete('/dashboard/devices/:deviceId/motion', this.controller.resetDeviceMotion);
+    this.router.get('/dashboard/devices/:deviceId/motion/events', this.controller.getDeviceMotionEvents);
+
+    // Decommissioning and the audit trail
+    this.router.post('/dashboard/devices/:deviceId/decommission', this.controller.decommissionDevice);
+    this.router.get('/dashboard/audit', this.controller.getAuditLog);
     
     // Add middleware logging for stream start route
     this.router.post('/dashboard/devices/:deviceId/stream/start', (req, res, next) => {
@@ -39,6 +125,9 @@ export class ApiRoutes {
     this.router.get('/devices', validateApiKey, this.controller.getDevices);
     this.router.post('/devices/:deviceId/stream/start', validateApiKey, this.controller.startDeviceStream);
     this.router.post('/devices/:deviceId/stream/stop', validateApiKey, this.controller.stopDeviceStream);
+    // A device key may only reboot or sleep its own device
+    this.router.post('/devices/:deviceId/reboot', validateApiKey, requireOwnDevice, this.controller.rebootDevice);
+    this.router.post('/devices/:deviceId/sleep', validateApiKey, requireOwnDevice, this.controller.sleepDevice);
 
     // Recording Management Endpoints (require API key authentication)
     this.router.get('/recordings', validateApiKey, this.controller.getRecordings);
@@ -20,6 +20,8 @@ export interface SecurityConfig {
   keyPath: string;
   certPath: string;
   apiKeyLength: number;
+  autoApproveMacPrefixes: string[];
+  keyRotationGraceMs: number;
 }
 
 export interface VideoConfig {
@@ -30,12 +32,134 @@ export interface VideoConfig {
   recordingsPath: string;
 }
 
+export interface FfmpegConfig {
+  ffmpegPath: string;
+  ffprobePath: string;
+  probeTimeoutMs: number;
+}
+
 export interface RecordingsConfig {
   directory: string;
+  archiveDirectory: string;
+  segmentDurationMs: number;
+  fragmentDurationMs: number;
+  preRollSeconds: number;
+  postRollSeconds: number;
+  maxPreRollSeconds: number;
+  maxPostRollSeconds: number;
+  preRollMaxBytes: number;
   maxSizeGB: number;
   retentionDays: number;
 }
 
+export interface StorageConfig {
+  dataDirectory: string;
+  devicesFile: string;
+  groupsFile: string;
+  statusHistoryFile: string;
+  batteryHistoryFile: string;
+  firmwareIndexFile: string;
+  commandQueueFile: string;
+  schedulesFile: string;
+  dutyCycleFile: string;
+  auditLogFile: string;
+  motionEventsFile: string;
+  saveDebounceMs: number;
+}
+
+export interface ConfigPushConfig {
+  ackTimeoutMs: number;
+  maxAttempts: number;
+}
+
+export interface StatusHistoryConfig {
+  retentionDays: number;
+  maxTransitionsPerDevice: number;
+}
+
+export interface BatteryConfig {
+  lowPercent: number;
+  criticalPercent: number;
+  hysteresisPercent: number;
+  sampleIntervalMs: number;
+  maxSamplesPerDevice: number;
+  maxEventsPerDevice: number;
+  retentionDays: number;
+  estimationWindowHours: number;
+  minSamplesForEstimate: number;
+}
+
+export interface CommandQueueConfig {
+  defaultTtlMs: number;
+  maxTtlMs: number;
+  maxQueuedPerDevice: number;
+  maxHistoryPerDevice: number;
+}
+
+export interface RpcConfig {
+  defaultTimeoutMs: number;
+  commandTimeoutsMs: Record<string, number>;
+}
+
+export interface PowerCommandsConfig {
+  minSleepMs: number;
+  maxSleepMs: number;
+  reconnectTimeoutMs: number;
+}
+
+export interface SchedulesConfig {
+  checkSchedule: string;
+  timezone: string;
+  maxEntriesPerSchedule: number;
+}
+
+export interface DutyCycleConfig {
+  checkIntervalMs: number;
+  overrunGraceMs: number;
+  earlyEndToleranceMs: number;
+  wakeGraceMs: number;
+  sleepRetryMs: number;
+  maxSessionsPerDevice: number;
+  retentionDays: number;
+}
+
+export interface LifecycleConfig {
+  defaultPolicy: {
+    mode: 'never' | 'dormant' | 'expire';
+    afterDays: number;
+  };
+  maxAfterDays: number;
+}
+
+export interface AuditConfig {
+  maxEntries: number;
+}
+
+export interface MotionConfig {
+  enabled: boolean;
+  sensitivity: number;
+  minAreaPercent: number;
+  triggerRecording: boolean;
+  analysisIntervalMs: number;
+  endAfterMs: number;
+  maxEventsPerDevice: number;
+  retentionDays: number;
+}
+
+export interface FirmwareConfig {
+  directory: string;
+  maxImageSizeBytes: number;
+  maxUpdateAttempts: number;
+}
+
+export interface HeartbeatConfig {
+  intervalMs: number;
+  staleAfterMissed: number;
+  offlineAfterMissed: number;
+  sleepTimeoutMs: number;
+  checkIntervalMs: number;
+}
+
 /**
  * Main configuration object
  */
@@ -56,7 +180,10 @@ export const config = {
   security: {
     keyPath: './security/key.pem',
     certPath: './security/cert.pem',
-    apiKeyLength: 32
+    apiKeyLength: 32,
+    // MAC prefixes (e.g. 'AA:BB:CC') that skip admin approval, for bulk deployments
+    autoApproveMacPrefixes: [],
+    keyRotationGraceMs: 600000 // 10 minutes during which a rotated-out key still works
   } as SecurityConfig,
 
   video: {
@@ -67,12 +194,151 @@ export const config = {
     recordingsPath: './recordings'
   } as VideoConfig,
 
+  // FFmpeg and ffprobe binaries; empty paths fall back to FFMPEG_PATH/FFPROBE_PATH, then PATH
+  ffmpeg: {
+    ffmpegPath: '',
+    ffprobePath: '',
+    probeTimeoutMs: 10000
+  } as FfmpegConfig,
+
   recordings: {
     directory: './recordings',
+    archiveDirectory: './recordings-archive', // Recordings of decommissioned devices; not subject to retention cleanup
+    segmentDurationMs: 600000, // 10 minutes; segments roll over on multiples of this counted from local midnight
+    fragmentDurationMs: 2000, // Keyframe and MP4 fragment interval: at most this much footage is lost in a crash
+    preRollSeconds: 5, // Footage from before a recording starts, kept in memory per device; devices can override
+    postRollSeconds: 10, // Recording carries on this long after a device stops streaming; devices can override
+    maxPreRollSeconds: 30,
+    maxPostRollSeconds: 300,
+    preRollMaxBytes: 8 * 1024 * 1024, // Memory cap per device; the oldest frames go first when a buffer is full
     maxSizeGB: 100,
     retentionDays: 7
   } as RecordingsConfig,
 
+  // Persistent server state (device registry, etc.)
+  storage: {
+    dataDirectory: './data',
+    devicesFile: 'devices.json',
+    groupsFile: 'groups.json',
+    statusHistoryFile: 'status-history.json',
+    batteryHistoryFile: 'battery-history.json',
+    firmwareIndexFile: 'firmware.json',
+    commandQueueFile: 'command-queue.json',
+    schedulesFile: 'schedules.json',
+    dutyCycleFile: 'duty-cycles.json',
+    auditLogFile: 'audit-log.json',
+    motionEventsFile: 'motion-events.json',
+    saveDebounceMs: 1000 // Coalesce frequent updates (e.g. heartbeats) into one write
+  } as StorageConfig,
+
+  // Delivery of configuration changes to devices
+  configPush: {
+    ackTimeoutMs: 5000, // Wait this long for a config_ack before resending
+    maxAttempts: 3
+  } as ConfigPushConfig,
+
+  // Liveness tracking for connected devices
+  heartbeat: {
+    intervalMs: 5000, // Expected heartbeat interval (matches HEARTBEAT_INTERVAL in the firmware)
+    staleAfterMissed: 3, // Mark a device stale after this many missed heartbeats
+    offlineAfterMissed: 6, // Drop the connection and mark offline after this many
+    sleepTimeoutMs: 900000, // 15 minutes for a device that announced entering_sleep to reconnect
+    checkIntervalMs: 5000
+  } as HeartbeatConfig,
+
+  // Device status transition log used for uptime reporting
+  statusHistory: {
+    retentionDays: 30,
+    maxTransitionsPerDevice: 5000 // Cap per device so a flapping camera can't grow the file unbounded
+  } as StatusHistoryConfig,
+
+  // Battery telemetry, alerts and runtime estimation
+  battery: {
+    lowPercent: 20,
+    criticalPercent: 10,
+    hysteresisPercent: 5, // Charge must recover this far past a threshold before the alert clears
+    sampleIntervalMs: 60000, // Keep at most one sample per minute; heartbeats in between update it
+    maxSamplesPerDevice: 20160, // Two weeks of per-minute samples
+    maxEventsPerDevice: 100,
+    retentionDays: 14,
+    estimationWindowHours: 6, // Discharge rate is fitted over this much recent history
+    minSamplesForEstimate: 5
+  } as BatteryConfig,
+
+  // Commands held for sleeping or offline devices until they reconnect
+  commandQueue: {
+    defaultTtlMs: 86400000, // 24 hours
+    maxTtlMs: 604800000, // 7 days
+    maxQueuedPerDevice: 20,
+    maxHistoryPerDevice: 50 // Delivered, expired and cancelled commands kept for the API
+  } as CommandQueueConfig,
+
+  // Request/response commands over the device WebSocket
+  rpc: {
+    defaultTimeoutMs: 5000, // Give up waiting for a device's reply after this long
+    commandTimeoutsMs: {
+      start_streaming: 10000 // The camera may need to initialise its sensor first
+    }
+  } as RpcConfig,
+
+  // Remote reboot and sleep from the dashboard
+  powerCommands: {
+    minSleepMs: 60000, // 1 minute
+    maxSleepMs: 86400000, // 24 hours
+    reconnectTimeoutMs: 120000 // Time allowed to boot, join Wi-Fi and reconnect after a reboot or wake
+  } as PowerCommandsConfig,
+
+  // Weekly time-of-day schedules for operation modes and camera settings
+  schedules: {
+    checkSchedule: '* * * * *', // Evaluate every minute
+    timezone: process.env.TZ || Intl.DateTimeFormat().resolvedOptions().timeZone, // Schedule times are wall-clock times here
+    maxEntriesPerSchedule: 50
+  } as SchedulesConfig,
+
+  // Server-enforced streaming/sleep cycle for always-on devices
+  dutyCycle: {
+    checkIntervalMs: 5000,
+    overrunGraceMs: 30000, // Still connected this long after the window closed counts as an overrun
+    earlyEndToleranceMs: 10000, // Disconnecting more than this before the window closed counts as ending early
+    wakeGraceMs: 120000, // Time allowed to boot, join Wi-Fi and reconnect after the sleep
+    sleepRetryMs: 30000, // Wait between sleep commands the device did not accept
+    maxSessionsPerDevice: 1000,
+    retentionDays: 14
+  } as DutyCycleConfig,
+
+  // What happens to devices that stay offline; devices can override the default policy
+  lifecycle: {
+    defaultPolicy: {
+      mode: 'dormant', // 'never', 'dormant' (keep the device and its key, flag it) or 'expire' (remove it)
+      afterDays: 7 // Long enough for a battery camera to sleep through a weekend
+    },
+    maxAfterDays: 365
+  } as LifecycleConfig,
+
+  // Record of administrative actions such as decommissioning
+  audit: {
+    maxEntries: 10000 // Oldest entries are dropped beyond this
+  } as AuditConfig,
+
+  // Server-side motion detection on incoming frames; devices can override the defaults
+  motion: {
+    enabled: false, // Cameras with a PIR already wake on motion
+    sensitivity: 80, // 1-100; higher reacts to smaller changes in brightness
+    minAreaPercent: 1, // Share of the picture that must change to count as motion
+    triggerRecording: true, // Record only around motion, with the pre- and post-roll
+    analysisIntervalMs: 250, // Analyse at most 4 frames a second per camera
+    endAfterMs: 5000, // Motion ends after this long without a changed frame
+    maxEventsPerDevice: 2000,
+    retentionDays: 30
+  } as MotionConfig,
+
+  // Over-the-air firmware updates
+  firmware: {
+    directory: './data/firmware',
+    maxImageSizeBytes: 4 * 1024 * 1024, // Largest app partition on a 4MB ESP32 flash
+    maxUpdateAttempts: 3 // Give up on a device after this many interrupted downloads
+  } as FirmwareConfig,
+
   // Camera resolution mappings for ESP32-CAM
   cameraResolutions: {
     'QQVGA': { width: 160, height: 120 },
@@ -100,6 +366,17 @@ export const config = {
     alwaysOnInterval: 600000  // 10 minutes between streaming sessions for always-on mode
   },
 
+  // Allowed ranges for numeric device configuration fields (OV2640 sensor limits)
+  deviceConfigLimits: {
+    framerate: { min: 1, max: 30 },
+    quality: { min: 0, max: 63 }, // JPEG quality, lower is better
+    brightness: { min: -2, max: 2 },
+    contrast: { min: -2, max: 2 },
+    saturation: { min: -2, max: 2 },
+    alwaysOnDuration: { min: 10000, max: 3600000 }, // 10 seconds to 1 hour
+    alwaysOnInterval: { min: 10000, max: 86400000 } // 10 seconds to 24 hours
+  },
+
   // Operation mode configurations
   operationModes: {
     'motion-triggered': {
@@ -53,6 +53,14 @@ export const validateApiKey = (
       return;
     }
 
+    if (!deviceManager.isApproved(device)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'Device registration is pending administrator approval.'
+      });
+      return;
+    }
+
     // Add device information to request object for downstream middleware
     req.device = {
       id: device.deviceId,
@@ -86,7 +94,7 @@ export const validateWebSocketApiKey = (apiKey: string): boolean => {
     const deviceManager = DeviceManager.getInstance();
     const device = deviceManager.getDevice(apiKey);
 
-    return device !== undefined;
+    return device !== undefined && deviceManager.isApproved(device);
   } catch (error) {
     console.error('WebSocket authentication error:', error);
     return false;
@@ -109,3 +117,28 @@ export const getDeviceIdFromApiKey = (apiKey: string): string | undefined => {
     return undefined;
   }
 };
+
+/**
+ * Middleware limiting a device-authenticated request to the device's own
+ * :deviceId, so one camera's key can't act on the rest of the fleet
+ * Must run after validateApiKey.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const requireOwnDevice = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.device || req.device.id !== req.params.deviceId) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'An API key can only be used for its own device.'
+    });
+    return;
+  }
+
+  next();
+};
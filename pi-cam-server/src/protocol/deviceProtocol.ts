@@ -0,0 +1,439 @@
+/**
+ * Device Protocol
+ * Messages exchanged with ESP32 cameras over the device WebSocket, in both
+ * directions. Must be kept in step with esp32_cam_client.ino.
+ *
+ * Version history:
+ *   1 - Unversioned protocol of firmware before 1.2.0 (no hello message)
+ *   2 - hello/welcome version exchange, requestId responses
+ */
+
+import { DeviceConfig } from '../services/DeviceManager.js';
+import { FieldError, ValidationResult } from '../validation/deviceSchema.js';
+
+/**
+ * Protocol version spoken by this server
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Oldest device protocol the server still handles
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Commands the firmware understands
+ */
+export const DEVICE_COMMANDS = [
+  'start_streaming',
+  'stop_streaming',
+  'update_operation_mode',
+  'update_config',
+  'update_firmware',
+  'rotate_api_key',
+  'reboot',
+  'sleep'
+] as const;
+
+export type DeviceCommandAction = typeof DEVICE_COMMANDS[number];
+
+// ===== Server to device =====
+
+/**
+ * Fields any command may carry for tracking
+ */
+interface CommandEnvelope {
+  requestId?: string; // Device answers with a response message
+  commandId?: string; // Set on commands delivered from the offline queue
+}
+
+export interface StartStreamingCommand extends CommandEnvelope {
+  action: 'start_streaming';
+  duration?: number;
+  timestamp?: number;
+}
+
+export interface StopStreamingCommand extends CommandEnvelope {
+  action: 'stop_streaming';
+  timestamp?: number;
+}
+
+export interface UpdateOperationModeCommand extends CommandEnvelope {
+  action: 'update_operation_mode';
+  operationMode: DeviceConfig['operationMode'];
+  config?: Partial<DeviceConfig>;
+}
+
+export interface UpdateConfigCommand extends CommandEnvelope {
+  action: 'update_config';
+  configVersion: number;
+  config: DeviceConfig;
+}
+
+export interface UpdateFirmwareCommand extends CommandEnvelope {
+  action: 'update_firmware';
+  version: string;
+  path: string;
+  size: number;
+  md5: string;
+  sha256: string;
+}
+
+export interface RotateApiKeyCommand extends CommandEnvelope {
+  action: 'rotate_api_key';
+  apiKey: string;
+  graceExpiresAt: string;
+}
+
+export interface RebootCommand extends CommandEnvelope {
+  action: 'reboot';
+}
+
+export interface SleepCommand extends CommandEnvelope {
+  action: 'sleep';
+  durationMs?: number; // Timer wake-up; without it the device sleeps as its operation mode would
+}
+
+/**
+ * Any command the server sends to a device
+ */
+export type DeviceCommand =
+  | StartStreamingCommand
+  | StopStreamingCommand
+  | UpdateOperationModeCommand
+  | UpdateConfigCommand
+  | UpdateFirmwareCommand
+  | RotateApiKeyCommand
+  | RebootCommand
+  | SleepCommand;
+
+/**
+ * Notices the server sends without expecting a reply
+ */
+export type ServerNotice =
+  | { type: 'welcome'; protocolVersion: number; minProtocolVersion: number; deviceId: string; message: string; timestamp: string }
+  | { type: 'status_ack' | 'heartbeat_ack' | 'ready_ack'; message: string; timestamp: string };
+
+// ===== Device to server =====
+
+export interface BatteryTelemetry {
+  percent: number;
+  voltage?: number;
+}
+
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  firmwareVersion?: string;
+}
+
+export interface StatusUpdateMessage {
+  type: 'status_update';
+  status: 'online' | 'streaming' | 'entering_sleep' | 'offline';
+  operationMode?: string;
+  battery?: BatteryTelemetry;
+}
+
+export interface HeartbeatMessage {
+  type: 'heartbeat';
+  uptime?: number;
+  battery?: BatteryTelemetry;
+}
+
+export interface ReadyMessage {
+  type: 'ready';
+}
+
+export interface ConfigAckMessage {
+  type: 'config_ack';
+  configVersion: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface FirmwareStatusMessage {
+  type: 'firmware_status';
+  state: 'downloading' | 'installing' | 'failed';
+  version: string;
+  progress?: number;
+  message?: string;
+}
+
+export interface ResponseMessage {
+  type: 'response';
+  requestId: string;
+  success: boolean;
+  result?: Record<string, unknown>;
+  error?: { code?: string; message?: string };
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message?: string;
+  code?: string;
+  requestId?: string;
+}
+
+/**
+ * Any JSON message a device sends
+ */
+export type DeviceMessage =
+  | HelloMessage
+  | StatusUpdateMessage
+  | HeartbeatMessage
+  | ReadyMessage
+  | ConfigAckMessage
+  | FirmwareStatusMessage
+  | ResponseMessage
+  | ErrorMessage;
+
+const DEVICE_STATUSES = ['online', 'streaming', 'entering_sleep', 'offline'];
+const FIRMWARE_REPORT_STATES = ['downloading', 'installing', 'failed'];
+
+/**
+ * Whether an action is a command the firmware understands
+ * @param action - Untrusted action name
+ */
+export function isDeviceCommand(action: unknown): action is DeviceCommandAction {
+  return typeof action === 'string' && (DEVICE_COMMANDS as readonly string[]).includes(action);
+}
+
+/**
+ * Whether the server can talk to a device using the given protocol version
+ * @param version - Version the device announced
+ */
+export function isSupportedProtocolVersion(version: number): boolean {
+  return version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+}
+
+/**
+ * Collects field errors while reading an untrusted message
+ */
+class MessageReader {
+  public errors: FieldError[] = [];
+
+  constructor(private message: Record<string, unknown>) {}
+
+  /**
+   * Read a string field
+   */
+  public string(field: string, required: boolean): string | undefined {
+    const value = this.message[field];
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.errors.push({ field, message: 'must be a string' });
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read a finite number field
+   */
+  public number(field: string, required: boolean): number | undefined {
+    const value = this.message[field];
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.errors.push({ field, message: 'must be a number' });
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read a boolean field
+   */
+  public boolean(field: string, required: boolean): boolean | undefined {
+    const value = this.message[field];
+    if (value === undefined && !required) {
+      return undefined;
+    }
+    if (typeof value !== 'boolean') {
+      this.errors.push({ field, message: 'must be a boolean' });
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read a string field restricted to a set of values
+   */
+  public oneOf(field: string, values: string[]): string | undefined {
+    const value = this.message[field];
+    if (typeof value !== 'string' || !values.includes(value)) {
+      this.errors.push({ field, message: `must be one of: ${values.join(', ')}` });
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * Read an object field
+   */
+  public object(field: string): Record<string, unknown> | undefined {
+    const value = this.message[field];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.errors.push({ field, message: 'must be an object' });
+      return undefined;
+    }
+    return value as Record<string, unknown>;
+  }
+
+  /**
+   * Read optional battery telemetry
+   */
+  public battery(): BatteryTelemetry | undefined {
+    const battery = this.object('battery');
+    if (!battery) {
+      return undefined;
+    }
+
+    const { percent, voltage } = battery;
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      this.errors.push({ field: 'battery.percent', message: 'must be a number between 0 and 100' });
+      return undefined;
+    }
+
+    // A missing or nonsensical voltage is dropped rather than failing the whole message
+    const validVoltage = typeof voltage === 'number' && Number.isFinite(voltage) && voltage > 0;
+    return validVoltage ? { percent, voltage } : { percent };
+  }
+}
+
+/**
+ * Validate a JSON message received from a device
+ * Unknown fields are ignored so that newer firmware can add information.
+ * @param input - Parsed but untrusted message
+ * @returns The typed message, or field-level errors
+ */
+export function parseDeviceMessage(input: unknown): ValidationResult<DeviceMessage> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'message', message: 'must be a JSON object' }] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const read = new MessageReader(raw);
+  let message: DeviceMessage | undefined;
+
+  switch (raw.type) {
+    case 'hello': {
+      const protocolVersion = read.number('protocolVersion', true);
+      const firmwareVersion = read.string('firmwareVersion', false);
+      if (protocolVersion !== undefined && !Number.isInteger(protocolVersion)) {
+        read.errors.push({ field: 'protocolVersion', message: 'must be an integer' });
+      }
+      message = {
+        type: 'hello',
+        protocolVersion: protocolVersion as number,
+        ...(firmwareVersion !== undefined && { firmwareVersion })
+      };
+      break;
+    }
+
+    case 'status_update': {
+      const status = read.oneOf('status', DEVICE_STATUSES);
+      const operationMode = read.string('operationMode', false);
+      const battery = read.battery();
+      message = {
+        type: 'status_update',
+        status: status as StatusUpdateMessage['status'],
+        ...(operationMode !== undefined && { operationMode }),
+        ...(battery && { battery })
+      };
+      break;
+    }
+
+    case 'heartbeat': {
+      const uptime = read.number('uptime', false);
+      const battery = read.battery();
+      message = {
+        type: 'heartbeat',
+        ...(uptime !== undefined && { uptime }),
+        ...(battery && { battery })
+      };
+      break;
+    }
+
+    case 'ready':
+      message = { type: 'ready' };
+      break;
+
+    case 'config_ack': {
+      const configVersion = read.number('configVersion', true);
+      // A missing success flag counts as success
+      const success = read.boolean('success', false);
+      const error = read.string('error', false);
+      message = {
+        type: 'config_ack',
+        configVersion: configVersion as number,
+        success: success !== false,
+        ...(error !== undefined && { error })
+      };
+      break;
+    }
+
+    case 'firmware_status': {
+      const state = read.oneOf('state', FIRMWARE_REPORT_STATES);
+      const version = read.string('version', true);
+      const progress = read.number('progress', false);
+      const statusMessage = read.string('message', false);
+      message = {
+        type: 'firmware_status',
+        state: state as FirmwareStatusMessage['state'],
+        version: version as string,
+        ...(progress !== undefined && { progress: Math.max(0, Math.min(100, Math.round(progress))) }),
+        ...(statusMessage !== undefined && { message: statusMessage })
+      };
+      break;
+    }
+
+    case 'response': {
+      const requestId = read.string('requestId', true);
+      const success = read.boolean('success', true);
+      const result = read.object('result');
+      const error = read.object('error');
+      message = {
+        type: 'response',
+        requestId: requestId as string,
+        success: success as boolean,
+        ...(result && { result }),
+        ...(error && {
+          error: {
+            ...(typeof error.code === 'string' && { code: error.code }),
+            ...(typeof error.message === 'string' && { message: error.message })
+          }
+        })
+      };
+      break;
+    }
+
+    case 'error': {
+      const errorMessage = read.string('message', false);
+      const code = read.string('code', false);
+      const requestId = read.string('requestId', false);
+      message = {
+        type: 'error',
+        ...(errorMessage !== undefined && { message: errorMessage }),
+        ...(code !== undefined && { code }),
+        ...(requestId !== undefined && { requestId })
+      };
+      break;
+    }
+
+    default:
+      return { valid: false, errors: [{ field: 'type', message: `${String(raw.type)} is not a known message type` }] };
+  }
+
+  if (read.errors.length > 0) {
+    return { valid: false, errors: read.errors };
+  }
+
+  return { valid: true, value: message };
+}
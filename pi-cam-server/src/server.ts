@@ -17,10 +17,25 @@ import { dirname } from 'path';
 // Import services and middleware
 import config from './config.js';
 import { DeviceManager, DeviceStatus } from './services/DeviceManager.js';
+import { GroupManager } from './services/GroupManager.js';
+import { StatusHistory } from './services/StatusHistory.js';
+import { BatteryMonitor } from './services/BatteryMonitor.js';
+import { FirmwareRepository } from './services/FirmwareRepository.js';
+import { CommandQueue } from './services/CommandQueue.js';
+import { DeviceRpc } from './services/DeviceRpc.js';
+import { ScheduleManager } from './services/ScheduleManager.js';
+import { DutyCycleManager } from './services/DutyCycleManager.js';
+import { AuditLog } from './services/AuditLog.js';
+import { MotionLog, MotionEvent } from './services/MotionLog.js';
+import { MotionDetector, MotionChange } from './services/MotionDetector.js';
+import { BatteryTelemetry, MIN_PROTOCOL_VERSION, parseDeviceMessage, PROTOCOL_VERSION, ServerNotice, StatusUpdateMessage } from './protocol/deviceProtocol.js';
 import { VideoProcessor } from './services/VideoProcessor.js';
 import { CleanupService } from './services/CleanupService.js';
-import { validateApiKey, validateWebSocketApiKey, getDeviceIdFromApiKey } from './middleware/auth.js';
+import { FfmpegToolchain } from './services/FfmpegToolchain.js';
+import { HeartbeatWatchdog } from './services/HeartbeatWatchdog.js';
+import { validateApiKey, validateWebSocketApiKey, getDeviceIdFromApiKey, AuthenticatedRequest } from './middleware/auth.js';
 import { ApiRoutes } from './api/routes.js';
+import { validateDeviceConfig, validateRegistration } from './validation/deviceSchema.js';
 import path from 'path';
 
 /**
@@ -34,18 +49,43 @@ class PiCameraServer {
   private mdnsResponder: Responder | null = null;
   private mdnsService: any = null;
   private deviceManager: DeviceManager;
+  private groupManager: GroupManager;
+  private statusHistory: StatusHistory;
+  private batteryMonitor: BatteryMonitor;
+  private firmwareRepository: FirmwareRepository;
+  private commandQueue: CommandQueue;
+  private deviceRpc: DeviceRpc;
+  private scheduleManager: ScheduleManager;
+  private dutyCycleManager: DutyCycleManager;
+  private auditLog: AuditLog;
+  private motionLog: MotionLog;
+  private motionDetector: MotionDetector;
   private videoProcessor: VideoProcessor;
   private cleanupService: CleanupService;
+  private heartbeatWatchdog: HeartbeatWatchdog;
   private apiRoutes: ApiRoutes;
   private frontendClients: Set<WebSocket> = new Set();
   private frontendStreamSubscriptions: Map<string, Set<WebSocket>> = new Map();
+  private protocolAnnounced: Set<string> = new Set(); // Devices that sent a hello on their current connection
 
   constructor() {
     this.app = express();
     this.deviceManager = DeviceManager.getInstance();
+    this.groupManager = GroupManager.getInstance();
+    this.statusHistory = StatusHistory.getInstance();
+    this.batteryMonitor = BatteryMonitor.getInstance();
+    this.firmwareRepository = FirmwareRepository.getInstance();
+    this.commandQueue = CommandQueue.getInstance();
+    this.deviceRpc = DeviceRpc.getInstance();
+    this.scheduleManager = ScheduleManager.getInstance();
+    this.dutyCycleManager = DutyCycleManager.getInstance();
+    this.auditLog = AuditLog.getInstance();
+    this.motionLog = MotionLog.getInstance();
+    this.motionDetector = new MotionDetector((event, change) => this.handleMotion(event, change));
     this.videoProcessor = new VideoProcessor();
     this.cleanupService = new CleanupService();
-    this.apiRoutes = new ApiRoutes();
+    this.heartbeatWatchdog = new HeartbeatWatchdog(deviceId => this.broadcastDeviceUpdate(deviceId));
+    this.apiRoutes = new ApiRoutes(this.videoProcessor);
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -111,34 +151,64 @@ class PiCameraServer {
     // Legacy device registration endpoint (keep for backward compatibility)
     this.app.post('/register', async (req, res) => {
       try {
-        const { deviceId, operationMode, motionSensorDetected, firmwareVersion, capabilities } = req.body;
-
-        if (!deviceId) {
+        const validation = validateRegistration(req.body);
+        if (!validation.valid) {
           return res.status(400).json({
             error: 'Bad Request',
-            message: 'deviceId is required'
+            message: 'Invalid registration payload',
+            errors: validation.errors
           });
         }
 
-        // Validate MAC address format
-        const macRegex = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/;
-        if (!macRegex.test(deviceId)) {
-          return res.status(400).json({
-            error: 'Bad Request',
-            message: 'deviceId must be a valid MAC address (XX:XX:XX:XX:XX:XX)'
+        const { deviceId, operationMode, motionSensorDetected, firmwareVersion, capabilities } = validation.value;
+
+        // A known device proves it is the same camera with its current key
+        const apiKey = req.headers['x-api-key'];
+        const awaitingApproval = this.deviceManager.getDeviceById(deviceId)?.status === DeviceStatus.PENDING;
+        const result = this.deviceManager.registerDevice(deviceId, typeof apiKey === 'string' ? apiKey : undefined);
+        if (result.refused) {
+          return res.status(401).json({
+            error: 'Unauthorized',
+            message: 'Device is already registered. Provide its current API key in the X-API-Key header, or ask an administrator to revoke the key.'
           });
         }
 
-        // Register device
-        const result = this.deviceManager.registerDevice(deviceId);
+        // Capabilities and mode are pushed to the camera, so those of an approved
+        // device are only taken with its current key
+        const trusted = result.created || result.authenticated || awaitingApproval;
+
+        if (capabilities && trusted) {
+          this.deviceManager.setCapabilities(deviceId, capabilities);
+        }
+
+        // Anyone can post a MAC here, so a known device's version is only taken
+        // with its current key; otherwise it comes from the authenticated hello
+        if (firmwareVersion && (result.created || result.authenticated)) {
+          this.deviceManager.setFirmwareVersion(deviceId, firmwareVersion);
+        }
 
         // Update operation mode if provided
-        if (operationMode && ['motion-triggered', 'always-on', 'continuous'].includes(operationMode)) {
-          this.deviceManager.updateOperationMode(deviceId, operationMode as any, motionSensorDetected || false);
+        if (operationMode && trusted) {
+          this.deviceManager.updateOperationMode(deviceId, operationMode, capabilities?.pir ?? motionSensorDetected);
         }
 
         // Log registration details
-        console.log(`Device registered: ${deviceId}, Mode: ${operationMode || 'default'}, Motion Sensor: ${motionSensorDetected || false}`);
+        console.log(`Device registered: ${deviceId}, Mode: ${operationMode || 'default'}, Motion Sensor: ${motionSensorDetected}, Firmware: ${firmwareVersion || 'unknown'}`);
+
+        // Withhold the API key until an admin approves the device
+        if (result.pending) {
+          this.broadcastFrontendMessage({
+            type: 'device_pending',
+            deviceId,
+            timestamp: new Date().toISOString()
+          });
+
+          return res.status(202).json({
+            success: false,
+            status: 'pending',
+            message: 'Registration received and awaiting administrator approval'
+          });
+        }
 
         return res.json({
           success: true,
@@ -159,6 +229,30 @@ class PiCameraServer {
       }
     });
 
+    // Firmware image download for over-the-air updates (protected endpoint)
+    this.app.get('/firmware/:version', validateApiKey, (req: AuthenticatedRequest, res) => {
+      const version = req.params.version ?? '';
+      const image = this.firmwareRepository.getImage(version);
+      if (!image) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: `Firmware ${version} not found`
+        });
+      }
+
+      console.log(`Device ${req.device?.id} downloading firmware ${version}`);
+      res.setHeader('X-Firmware-Version', image.version);
+      res.setHeader('X-Firmware-MD5', image.md5);
+      res.setHeader('X-Firmware-SHA256', image.sha256);
+      return res.sendFile(this.firmwareRepository.getImagePath(image), {
+        headers: { 'Content-Type': 'application/octet-stream' }
+      }, error => {
+        if (error) {
+          console.error(`Error sending firmware ${version}:`, error);
+        }
+      });
+    });
+
     // Get device status (protected endpoint)
     this.app.get('/device/status', validateApiKey, (req: any, res) => {
       try {
@@ -199,11 +293,23 @@ class PiCameraServer {
           });
         }
 
-        this.deviceManager.updateDeviceConfig(req.device.id, newConfig);
+        const validation = validateDeviceConfig(newConfig, this.deviceManager.getDeviceById(req.device.id)?.capabilities);
+        if (!validation.valid) {
+          return res.status(400).json({
+            error: 'Bad Request',
+            message: 'Invalid configuration',
+            errors: validation.errors
+          });
+        }
+
+        this.deviceManager.updateDeviceConfig(req.device.id, validation.value);
+        const device = this.deviceManager.getDeviceById(req.device.id);
 
         return res.json({
           success: true,
-          message: 'Configuration updated successfully'
+          message: 'Configuration updated successfully',
+          configVersion: device?.configVersion,
+          configSync: device?.configSync
         });
       } catch (error) {
         console.error('Error updating device config:', error);
@@ -439,25 +545,46 @@ class PiCameraServer {
       return;
     }
 
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (!device || !this.deviceManager.isApproved(device)) {
+      console.warn(`Device WebSocket connection rejected: ${deviceId} is pending approval`);
+      ws.close(1008, 'Device pending approval');
+      return;
+    }
+
     console.log(`Device WebSocket connection established: ${deviceId}`);
 
     // Associate WebSocket with device
     this.deviceManager.setSocket(deviceId, ws);
 
+    // An always-on device's streaming window starts now
+    this.dutyCycleManager.handleConnect(deviceId);
+
     // Send welcome message now that ESP32 can handle incoming messages properly
     console.log(`Device WebSocket ready for streaming: ${deviceId}`);
     
+    // The device answers the welcome with a hello naming its protocol version
+    this.protocolAnnounced.delete(deviceId);
+
     // Send welcome message to establish proper connection
     if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({
+      const welcome: ServerNotice = {
         type: 'welcome',
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
         message: 'WebSocket connection established',
         deviceId: deviceId,
         timestamp: new Date().toISOString()
-      }));
+      };
+      ws.send(JSON.stringify(welcome));
       console.log(`Welcome message sent to device: ${deviceId}`);
     }
 
+    // Deliver commands issued while the device was asleep or offline, in order
+    if (this.deviceManager.deliverQueuedCommands(deviceId) > 0) {
+      this.broadcastDeviceUpdate(deviceId);
+    }
+
     // Don't start recording immediately - wait for actual video data
     // this.startRecordingForDevice(deviceId, ws);
 
@@ -466,16 +593,21 @@ class PiCameraServer {
       await this.handleWebSocketMessage(deviceId, data);
     });
 
+    // Pongs answer the watchdog's pings to silent devices
+    ws.on('pong', () => {
+      this.heartbeatWatchdog.recordActivity(deviceId);
+    });
+
     // Handle connection close
     ws.on('close', (code: number, reason: Buffer) => {
       console.log(`Device WebSocket closed ${deviceId}: ${code} - ${reason.toString()}`);
-      this.handleWebSocketClose(deviceId);
+      this.handleWebSocketClose(deviceId, ws);
     });
 
     // Handle errors
     ws.on('error', (error: Error) => {
       console.error(`Device WebSocket error ${deviceId}:`, error);
-      this.handleWebSocketClose(deviceId);
+      this.handleWebSocketClose(deviceId, ws);
     });
 
     // Notify frontend clients of device status change
@@ -513,14 +645,22 @@ class PiCameraServer {
    */
   private async handleWebSocketMessage(deviceId: string, data: Buffer): Promise<void> {
     try {
+      // Any traffic from the device proves it is still alive
+      this.heartbeatWatchdog.recordActivity(deviceId);
+
       // Check for JPEG magic numbers (0xFF, 0xD8) to identify a binary video frame
       if (data.length > 2 && data[0] === 0xFF && data[1] === 0xD8) {
-        // This is a binary JPEG frame
-        if (!this.videoProcessor.isRecording(deviceId)) {
+        // This is a binary JPEG frame; without FFmpeg it is only forwarded for live view.
+        // Written first so a recording it starts opens with it, after the pre-roll.
+        this.videoProcessor.writeFrame(deviceId, data);
+        this.motionDetector.analyzeFrame(deviceId, data);
+
+        // Cameras with motion-triggered recording are started by handleMotion instead
+        if (!this.motionDetector.controlsRecording(deviceId) &&
+            !this.videoProcessor.isRecording(deviceId) && this.videoProcessor.canRecord(deviceId)) {
           await this.videoProcessor.startRecording(deviceId);
           console.log(`Recording started for device: ${deviceId}`);
         }
-        this.videoProcessor.writeFrame(deviceId, data);
         
         // Forward frame to subscribed frontend clients
         this.forwardVideoFrameToFrontend(deviceId, data);
@@ -540,91 +680,265 @@ class PiCameraServer {
 
   /**
    * Handle device commands
+   * @param deviceId - Sending device
+   * @param raw - Parsed JSON, validated here against the device protocol
    */
-  private async handleDeviceCommand(deviceId: string, command: any): Promise<void> {
+  private async handleDeviceCommand(deviceId: string, raw: unknown): Promise<void> {
     try {
-      console.log(`Command received from device ${deviceId}:`, command);
-      
-      // Get device to send responses
-      const device = this.deviceManager.getDeviceById(deviceId);
+      console.log(`Command received from device ${deviceId}:`, raw);
+
+      const parsed = parseDeviceMessage(raw);
+
+      // Firmware before protocol v2 starts talking without a hello
+      if (!this.protocolAnnounced.has(deviceId) && !(parsed.valid && parsed.value.type === 'hello')) {
+        this.protocolAnnounced.add(deviceId);
+        this.applyProtocolVersion(deviceId, 1);
+      }
+
+      if (!parsed.valid) {
+        const type = (raw as { type?: unknown } | null)?.type;
+        const description = `${String(type)}: ${parsed.errors.map(error => `${error.field} ${error.message}`).join('; ')}`;
+        console.warn(`Invalid message from device ${deviceId}: ${description}`);
+        if (this.deviceManager.recordInvalidMessage(deviceId, description)) {
+          this.broadcastFrontendMessage({
+            type: 'protocol_alert',
+            deviceId,
+            deviceName: this.deviceManager.getDeviceById(deviceId)?.name || deviceId,
+            message: `Invalid message from device: ${description}`,
+            timestamp: new Date().toISOString()
+          });
+        }
+        return;
+      }
+
+      const command = parsed.value;
+
+      // Heartbeats and status updates may carry battery telemetry
+      if ((command.type === 'heartbeat' || command.type === 'status_update') && command.battery) {
+        this.handleBatteryTelemetry(deviceId, command.battery);
+      }
 
       switch (command.type) {
-        case 'status_update':
-          if (command.status) {
-            const statusMap: { [key: string]: DeviceStatus } = {
-              'online': DeviceStatus.ONLINE,
-              'streaming': DeviceStatus.STREAMING,
-              'entering_sleep': DeviceStatus.ASLEEP,
-              'offline': DeviceStatus.OFFLINE
-            };
-            
-            const newStatus = statusMap[command.status];
-            if (newStatus) {
-              this.deviceManager.updateDeviceStatus(deviceId, newStatus);
-              
-              // Send acknowledgment
-              if (device && device.socket && device.socket.readyState === WebSocket.OPEN) {
-                device.socket.send(JSON.stringify({
-                  type: 'status_ack',
-                  message: 'Status update received',
-                  timestamp: new Date().toISOString()
-                }));
-              }
-            }
+        case 'hello':
+          this.protocolAnnounced.add(deviceId);
+          this.applyProtocolVersion(deviceId, command.protocolVersion);
+
+          // Sent on every connection, so also the first one after a firmware update
+          if (command.firmwareVersion) {
+            this.deviceManager.setFirmwareVersion(deviceId, command.firmwareVersion);
+            this.broadcastDeviceUpdate(deviceId);
           }
           break;
 
+        case 'status_update': {
+          const statusMap: Record<StatusUpdateMessage['status'], DeviceStatus> = {
+            'online': DeviceStatus.ONLINE,
+            'streaming': DeviceStatus.STREAMING,
+            'entering_sleep': DeviceStatus.ASLEEP,
+            'offline': DeviceStatus.OFFLINE
+          };
+
+          this.deviceManager.updateDeviceStatus(deviceId, statusMap[command.status], { reason: `device reported ${command.status}` });
+          this.broadcastDeviceUpdate(deviceId);
+
+          // Recording outlives the stream by the device's post-roll
+          if (command.status === 'streaming' && !this.motionDetector.controlsRecording(deviceId)) {
+            this.videoProcessor.cancelPostRoll(deviceId);
+          } else if (command.status === 'online') {
+            this.videoProcessor.stopRecordingAfterPostRoll(deviceId);
+          }
+
+          // Send acknowledgment
+          this.sendDeviceNotice(deviceId, {
+            type: 'status_ack',
+            message: 'Status update received',
+            timestamp: new Date().toISOString()
+          });
+          break;
+        }
+
         case 'heartbeat':
-          // Update last seen timestamp
-          this.deviceManager.updateDeviceStatus(deviceId, DeviceStatus.ONLINE);
-          
+          // Liveness is already recorded in handleWebSocketMessage
+
           // Send heartbeat acknowledgment
-          if (device && device.socket && device.socket.readyState === WebSocket.OPEN) {
-            device.socket.send(JSON.stringify({
-              type: 'heartbeat_ack',
-              message: 'Heartbeat received',
-              timestamp: new Date().toISOString()
-            }));
-          }
+          this.sendDeviceNotice(deviceId, {
+            type: 'heartbeat_ack',
+            message: 'Heartbeat received',
+            timestamp: new Date().toISOString()
+          });
           break;
 
         case 'ready':
           console.log(`Device ${deviceId} is ready for messages`);
-          
-          // Send configuration or commands if needed
-          if (device && device.socket && device.socket.readyState === WebSocket.OPEN) {
-            device.socket.send(JSON.stringify({
-              type: 'ready_ack',
-              message: 'Server ready for communication',
-              timestamp: new Date().toISOString()
-            }));
-          }
+
+          this.sendDeviceNotice(deviceId, {
+            type: 'ready_ack',
+            message: 'Server ready for communication',
+            timestamp: new Date().toISOString()
+          });
           break;
 
-        case 'error':
-          console.error(`Device ${deviceId} reported error:`, command.message);
+        case 'config_ack':
+          this.deviceManager.handleConfigAck(deviceId, command.configVersion, command.success, command.error);
+          this.broadcastDeviceUpdate(deviceId);
           break;
 
-        default:
-          console.warn(`Unknown command type from device ${deviceId}:`, command.type);
+        case 'firmware_status':
+          this.deviceManager.handleFirmwareReport(deviceId, {
+            state: command.state,
+            version: command.version,
+            ...(command.progress !== undefined && { progress: command.progress }),
+            ...(command.message !== undefined && { message: command.message })
+          });
+          this.broadcastDeviceUpdate(deviceId);
+          break;
+
+        case 'response':
+          this.deviceRpc.handleResponse(deviceId, command);
+          break;
+
+        case 'error':
+          // An error tied to a request answers it; anything else is only logged
+          if (command.requestId) {
+            this.deviceRpc.handleResponse(deviceId, {
+              requestId: command.requestId,
+              success: false,
+              error: {
+                ...(command.code !== undefined && { code: command.code }),
+                ...(command.message !== undefined && { message: command.message })
+              }
+            });
+          } else {
+            console.error(`Device ${deviceId} reported error:`, command.message);
+          }
+          break;
       }
     } catch (error) {
       console.error(`Error handling command from device ${deviceId}:`, error);
     }
   }
 
+  /**
+   * Record a device's protocol version and tell the dashboard if it doesn't match ours
+   * @param deviceId - Device ID
+   * @param version - Version the device speaks
+   */
+  private applyProtocolVersion(deviceId: string, version: number): void {
+    const update = this.deviceManager.setProtocolVersion(deviceId, version);
+    if (!update || !update.changed) {
+      return;
+    }
+
+    if (update.protocol.status !== 'current') {
+      this.broadcastFrontendMessage({
+        type: 'protocol_alert',
+        deviceId,
+        deviceName: this.deviceManager.getDeviceById(deviceId)?.name || deviceId,
+        message: update.protocol.message,
+        timestamp: update.protocol.updatedAt
+      });
+    }
+    this.broadcastDeviceUpdate(deviceId);
+  }
+
+  /**
+   * Send a notice to a device if it is connected
+   * @param deviceId - Target device
+   * @param notice - Message that needs no reply
+   */
+  private sendDeviceNotice(deviceId: string, notice: ServerNotice): void {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (device?.socket && device.socket.readyState === WebSocket.OPEN) {
+      device.socket.send(JSON.stringify(notice));
+    }
+  }
+
+  /**
+   * Record battery telemetry from a device and alert the dashboard on level changes
+   * @param deviceId - Reporting device
+   * @param battery - Untrusted { percent, voltage? } payload
+   */
+  private handleBatteryTelemetry(deviceId: string, battery: BatteryTelemetry): void {
+    const roundedPercent = Math.round(battery.percent);
+
+    this.deviceManager.setBatteryLevel(deviceId, roundedPercent);
+    const event = this.batteryMonitor.recordReading(deviceId, roundedPercent, battery.voltage);
+
+    if (event) {
+      const device = this.deviceManager.getDeviceById(deviceId);
+      this.broadcastFrontendMessage({
+        type: 'battery_alert',
+        deviceId,
+        deviceName: device?.name || deviceId,
+        level: event.level,
+        previousLevel: event.previousLevel,
+        percent: event.percent,
+        timestamp: event.timestamp
+      });
+    }
+  }
+
+  /**
+   * Drive motion-triggered recording and alert the dashboard when motion starts or ends
+   * @param event - Motion event
+   * @param change - Whether the motion started or ended
+   */
+  private handleMotion(event: MotionEvent, change: MotionChange): void {
+    const { deviceId } = event;
+
+    if (this.motionDetector.controlsRecording(deviceId) && this.videoProcessor.canRecord(deviceId)) {
+      if (change === 'end') {
+        this.videoProcessor.stopRecordingAfterPostRoll(deviceId);
+      } else if (this.videoProcessor.isRecording(deviceId)) {
+        // Motion again within the post-roll continues the same recording
+        this.videoProcessor.cancelPostRoll(deviceId);
+      } else {
+        this.videoProcessor.startRecording(deviceId).catch(error => {
+          console.error(`Failed to start motion recording for device ${deviceId}:`, error);
+        });
+      }
+    }
+
+    this.broadcastFrontendMessage({
+      type: 'motion',
+      deviceId,
+      deviceName: this.deviceManager.getDeviceById(deviceId)?.name || deviceId,
+      state: change,
+      event,
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * Handle WebSocket connection close
    */
-  private handleWebSocketClose(deviceId: string): void {
+  private handleWebSocketClose(deviceId: string, ws: WebSocket): void {
     try {
+      // A newer connection from the same device has replaced this one
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (device?.socket && device.socket !== ws) {
+        console.log(`Superseded WebSocket closed for device: ${deviceId}`);
+        return;
+      }
+
       // Stop recording for this device
+      this.motionDetector.forgetDevice(deviceId);
       this.videoProcessor.stopRecording(deviceId);
+      this.videoProcessor.clearPreRoll(deviceId);
       
       // Remove WebSocket association
-      this.deviceManager.removeSocket(deviceId);
+      this.deviceManager.removeSocket(deviceId, ws);
+
+      // Nothing sent on this connection will be answered now
+      this.deviceRpc.handleDisconnect(deviceId);
+
+      // An always-on device is expected back after its sleep
+      this.dutyCycleManager.handleDisconnect(deviceId);
       
       console.log(`WebSocket connection closed and cleaned up for device: ${deviceId}`);
+
+      // Notify frontend clients of device status change
+      this.broadcastDeviceUpdate(deviceId);
     } catch (error) {
       console.error(`Error handling WebSocket close for device ${deviceId}:`, error);
     }
@@ -685,6 +999,24 @@ class PiCameraServer {
     try {
       console.log('Starting Pi Camera Server...');
 
+      // Restore registered devices and groups before accepting connections
+      await this.statusHistory.loadHistory();
+      await this.batteryMonitor.loadHistory();
+      await this.firmwareRepository.loadIndex();
+      await this.commandQueue.loadQueue();
+      await this.deviceManager.loadDevices();
+      await this.groupManager.loadGroups();
+      await this.scheduleManager.loadSchedules();
+      await this.dutyCycleManager.loadSessions();
+      await this.auditLog.loadLog();
+      await this.motionLog.loadLog();
+
+      // Find FFmpeg before any device can send frames; recording is disabled without it
+      await FfmpegToolchain.getInstance().probe();
+
+      // Repair segments a crash left open before anything records again
+      await this.videoProcessor.recoverRecordings();
+
       // Create insecure HTTP server for WebSocket testing
       this.httpServer = http.createServer(this.app);
 
@@ -713,6 +1045,15 @@ class PiCameraServer {
       // Start cleanup service
       this.cleanupService.start();
 
+      // Start switching devices between their scheduled modes and settings
+      this.scheduleManager.start(deviceId => this.broadcastDeviceUpdate(deviceId));
+
+      // Start enforcing the stream/sleep cycle of always-on devices
+      this.dutyCycleManager.start(deviceId => this.broadcastDeviceUpdate(deviceId));
+
+      // Start watching for devices that go silent
+      this.heartbeatWatchdog.start();
+
       console.log('Pi Camera Server started successfully');
     } catch (error) {
       console.error('Error starting server:', error);
@@ -730,9 +1071,31 @@ class PiCameraServer {
       // Stop cleanup service
       this.cleanupService.stop();
 
-      // Stop all recordings
+      // Stop schedule evaluation
+      this.scheduleManager.stop();
+
+      // Stop duty cycle checks
+      this.dutyCycleManager.stop();
+
+      // Stop heartbeat watchdog
+      this.heartbeatWatchdog.stop();
+
+      // Stop motion detection and all recordings
+      await this.motionDetector.stop();
       await this.videoProcessor.stopAllRecordings();
 
+      // Persist any pending device registry and group changes
+      await this.deviceManager.flush();
+      await this.groupManager.flush();
+      await this.statusHistory.flush();
+      await this.batteryMonitor.flush();
+      await this.firmwareRepository.flush();
+      await this.commandQueue.flush();
+      await this.scheduleManager.flush();
+      await this.dutyCycleManager.flush();
+      await this.auditLog.flush();
+      await this.motionLog.flush();
+
       // Close WebSocket server
       if (this.wsServer) {
         this.wsServer.close();
@@ -767,16 +1130,20 @@ class PiCameraServer {
    */
   private sendDeviceListToFrontend(ws: WebSocket): void {
     try {
-      const devices = this.deviceManager.getAllDevices().map(device => ({
-        deviceId: device.deviceId,
-        name: device.name || device.deviceId,
-        status: device.status,
-        config: device.config,
-        lastSeen: device.lastSeen,
-        isRecording: device.isRecording,
-        isStreaming: device.status === DeviceStatus.STREAMING,
-        operationMode: device.operationMode || 'continuous'
-      }));
+      const devices = this.deviceManager.getAllDevices()
+        .filter(device => this.deviceManager.isApproved(device))
+        .map(device => ({
+          deviceId: device.deviceId,
+          name: device.name || device.deviceId,
+          location: device.location,
+          tags: device.tags,
+          status: device.status,
+          config: device.config,
+          lastSeen: device.lastSeen,
+          isRecording: device.isRecording,
+          isStreaming: device.status === DeviceStatus.STREAMING,
+          operationMode: device.operationMode || 'continuous'
+        }));
 
       ws.send(JSON.stringify({
         type: 'device_list',
@@ -913,6 +1280,8 @@ class PiCameraServer {
         device: {
           deviceId: device.deviceId,
           name: device.name || device.deviceId,
+          location: device.location,
+          tags: device.tags,
           status: device.status,
           config: device.config,
           lastSeen: device.lastSeen,
@@ -933,27 +1302,39 @@ class PiCameraServer {
     }
   }
 
+  /**
+   * Send a JSON message to all frontend clients
+   */
+  private broadcastFrontendMessage(message: object): void {
+    try {
+      const payload = JSON.stringify(message);
+      this.frontendClients.forEach(ws => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(payload);
+        }
+      });
+    } catch (error) {
+      console.error('Error broadcasting frontend message:', error);
+    }
+  }
+
   /**
    * Handle start stream request from frontend
    */
   private async handleStartStreamRequest(deviceId: string, ws: WebSocket): Promise<void> {
     try {
-      const device = this.deviceManager.getDeviceById(deviceId);
-      if (!device || !device.socket) {
+      // Request device to start streaming and wait for its answer
+      const result = await this.deviceRpc.request(deviceId, 'start_streaming', { timestamp: Date.now() });
+      if (!result.ok) {
         ws.send(JSON.stringify({
           type: 'error',
-          message: 'Device not connected',
+          message: `Failed to start stream: ${result.error.message}`,
+          code: result.error.code,
           deviceId: deviceId
         }));
         return;
       }
 
-      // Request device to start streaming
-      device.socket.send(JSON.stringify({
-        type: 'start_stream',
-        timestamp: new Date().toISOString()
-      }));
-
       ws.send(JSON.stringify({
         type: 'stream_started',
         deviceId: deviceId,
@@ -974,22 +1355,18 @@ class PiCameraServer {
    */
   private async handleStopStreamRequest(deviceId: string, ws: WebSocket): Promise<void> {
     try {
-      const device = this.deviceManager.getDeviceById(deviceId);
-      if (!device || !device.socket) {
+      // Request device to stop streaming and wait for its answer
+      const result = await this.deviceRpc.request(deviceId, 'stop_streaming', { timestamp: Date.now() });
+      if (!result.ok) {
         ws.send(JSON.stringify({
           type: 'error',
-          message: 'Device not connected',
+          message: `Failed to stop stream: ${result.error.message}`,
+          code: result.error.code,
           deviceId: deviceId
         }));
         return;
       }
 
-      // Request device to stop streaming
-      device.socket.send(JSON.stringify({
-        type: 'stop_stream',
-        timestamp: new Date().toISOString()
-      }));
-
       ws.send(JSON.stringify({
         type: 'stream_stopped',
         deviceId: deviceId,
@@ -0,0 +1,125 @@
+/**
+ * Audit Log Service
+ * Append-only record of administrative actions taken from the dashboard
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * A single administrative action
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: string;     // e.g. 'device_decommissioned'
+  deviceId?: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * On-disk format of the audit log
+ */
+interface AuditLogFile {
+  version: number;
+  entries: AuditEntry[];
+}
+
+/**
+ * Singleton Audit Log class
+ * Keeps entries in chronological order, bounded by audit.maxEntries
+ */
+export class AuditLog {
+  private static instance: AuditLog;
+  private entries: AuditEntry[] = [];
+  private store: JsonStore<AuditLogFile> = new JsonStore(config.storage.auditLogFile);
+
+  private constructor() {
+    console.log('AuditLog initialized');
+  }
+
+  /**
+   * Get singleton instance of AuditLog
+   */
+  public static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  /**
+   * Load the persisted audit log from disk
+   */
+  public async loadLog(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      this.entries = data.entries;
+      console.log(`Loaded ${this.entries.length} audit log entries`);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    }
+  }
+
+  /**
+   * Write any pending audit entries to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Record an action
+   * @param action - What was done
+   * @param details - Choices and outcome of the action
+   * @param deviceId - Device the action applied to, if any
+   * @returns The recorded entry
+   */
+  public record(action: string, details: Record<string, unknown>, deviceId?: string): AuditEntry {
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      action,
+      ...(deviceId !== undefined && { deviceId }),
+      details
+    };
+
+    this.entries.push(entry);
+    const excess = this.entries.length - config.audit.maxEntries;
+    if (excess > 0) {
+      this.entries.splice(0, excess);
+    }
+
+    this.persist();
+    console.log(`Audit: ${action}${deviceId ? ` (${deviceId})` : ''}`);
+    return entry;
+  }
+
+  /**
+   * Get recorded actions
+   * @param deviceId - Only entries for this device
+   * @param limit - Maximum number of entries
+   * @returns Entries, newest first
+   */
+  public getEntries(deviceId?: string, limit?: number): AuditEntry[] {
+    const entries = this.entries
+      .filter(entry => deviceId === undefined || entry.deviceId === deviceId)
+      .reverse();
+    return limit !== undefined ? entries.slice(0, limit) : entries;
+  }
+
+  /**
+   * Schedule a save of the audit log
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      entries: this.entries
+    }));
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Battery Monitor Service
+ * Stores battery telemetry reported by devices, estimates remaining
+ * runtime and raises low/critical battery events
+ */
+
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * Battery level classification
+ */
+export type BatteryLevel = 'ok' | 'low' | 'critical';
+
+/**
+ * A single battery reading
+ */
+export interface BatterySample {
+  timestamp: string;
+  percent: number;
+  voltage?: number;
+}
+
+/**
+ * A change in a device's battery level classification
+ */
+export interface BatteryEvent {
+  deviceId: string;
+  level: BatteryLevel;
+  previousLevel: BatteryLevel;
+  percent: number;
+  timestamp: string;
+}
+
+/**
+ * Current battery state of a device
+ */
+export interface BatteryStatus {
+  percent: number;
+  voltage?: number;
+  level: BatteryLevel;
+  updatedAt: string;
+  estimatedRuntimeMs: number | null; // null while charging or without enough data
+}
+
+/**
+ * Per-device telemetry as stored on disk
+ */
+interface DeviceBatteryRecord {
+  samples: BatterySample[];
+  events: BatteryEvent[];
+  level: BatteryLevel;
+}
+
+/**
+ * On-disk format of the battery history
+ */
+interface BatteryHistoryFile {
+  version: number;
+  devices: Record<string, DeviceBatteryRecord>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Singleton Battery Monitor class
+ */
+export class BatteryMonitor {
+  private static instance: BatteryMonitor;
+  private records: Map<string, DeviceBatteryRecord> = new Map();
+  private store: JsonStore<BatteryHistoryFile> = new JsonStore(config.storage.batteryHistoryFile);
+
+  private constructor() {
+    console.log('BatteryMonitor initialized');
+  }
+
+  /**
+   * Get singleton instance of BatteryMonitor
+   */
+  public static getInstance(): BatteryMonitor {
+    if (!BatteryMonitor.instance) {
+      BatteryMonitor.instance = new BatteryMonitor();
+    }
+    return BatteryMonitor.instance;
+  }
+
+  /**
+   * Load persisted battery history from disk
+   */
+  public async loadHistory(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const [deviceId, record] of Object.entries(data.devices)) {
+        this.records.set(deviceId, record);
+      }
+
+      console.log(`Loaded battery history for ${this.records.size} devices`);
+    } catch (error) {
+      console.error('Error loading battery history:', error);
+    }
+  }
+
+  /**
+   * Write any pending battery history changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Record a battery reading
+   * Readings closer together than the configured sample interval only update
+   * the latest value, so per-heartbeat reports don't flood the history.
+   * @param deviceId - Device ID
+   * @param percent - Charge percentage (0-100)
+   * @param voltage - Battery voltage, if the device reports it
+   * @returns The event raised by this reading, if the level changed
+   */
+  public recordReading(deviceId: string, percent: number, voltage?: number): BatteryEvent | undefined {
+    let record = this.records.get(deviceId);
+    if (!record) {
+      record = { samples: [], events: [], level: 'ok' };
+      this.records.set(deviceId, record);
+    }
+
+    const now = new Date();
+    const sample: BatterySample = { timestamp: now.toISOString(), percent };
+    if (voltage !== undefined) {
+      sample.voltage = voltage;
+    }
+
+    const last = record.samples[record.samples.length - 1];
+    const replacesLast = last !== undefined && now.getTime() - Date.parse(last.timestamp) < config.battery.sampleIntervalMs;
+    if (replacesLast) {
+      record.samples[record.samples.length - 1] = sample;
+    } else {
+      record.samples.push(sample);
+      const excess = record.samples.length - config.battery.maxSamplesPerDevice;
+      if (excess > 0) {
+        record.samples.splice(0, excess);
+      }
+    }
+
+    const event = this.updateLevel(deviceId, record, percent, now);
+
+    // Only write when the history gains an entry; in-between updates ride along with the next one
+    if (!replacesLast || event) {
+      this.persist();
+    }
+    return event;
+  }
+
+  /**
+   * Get the current battery state of a device
+   * @param deviceId - Device ID
+   * @returns Battery status, or undefined if the device never reported one
+   */
+  public getStatus(deviceId: string): BatteryStatus | undefined {
+    const record = this.records.get(deviceId);
+    const latest = record?.samples[record.samples.length - 1];
+    if (!record || !latest) {
+      return undefined;
+    }
+
+    const status: BatteryStatus = {
+      percent: latest.percent,
+      level: record.level,
+      updatedAt: latest.timestamp,
+      estimatedRuntimeMs: this.estimateRuntime(record.samples)
+    };
+    if (latest.voltage !== undefined) {
+      status.voltage = latest.voltage;
+    }
+    return status;
+  }
+
+  /**
+   * Get a device's battery samples within a time range
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @returns Samples in chronological order
+   */
+  public getSamples(deviceId: string, from: Date, to: Date): BatterySample[] {
+    const samples = this.records.get(deviceId)?.samples ?? [];
+    return samples.filter(sample => {
+      const time = Date.parse(sample.timestamp);
+      return time >= from.getTime() && time <= to.getTime();
+    });
+  }
+
+  /**
+   * Average battery percentage per equal slice of a time range
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @param bucketCount - Number of buckets
+   * @returns Average percentage per bucket (null where there are no samples)
+   */
+  public getTrend(deviceId: string, from: Date, to: Date, bucketCount: number): (number | null)[] {
+    const bucketMs = (to.getTime() - from.getTime()) / bucketCount;
+    const sums = new Array<number>(bucketCount).fill(0);
+    const counts = new Array<number>(bucketCount).fill(0);
+
+    for (const sample of this.getSamples(deviceId, from, to)) {
+      const index = Math.min(bucketCount - 1, Math.floor((Date.parse(sample.timestamp) - from.getTime()) / bucketMs));
+      sums[index]! += sample.percent;
+      counts[index]! += 1;
+    }
+
+    return sums.map((sum, index) => counts[index] ? Math.round(sum / counts[index]!) : null);
+  }
+
+  /**
+   * Get a device's battery events, newest first
+   * @param deviceId - Device ID
+   * @returns Battery events
+   */
+  public getEvents(deviceId: string): BatteryEvent[] {
+    return [...(this.records.get(deviceId)?.events ?? [])].reverse();
+  }
+
+  /**
+   * Drop a device's battery history entirely
+   * @param deviceId - Device ID
+   */
+  public removeDevice(deviceId: string): void {
+    if (this.records.delete(deviceId)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Remove samples and events older than the retention period
+   * @returns Number of entries removed
+   */
+  public pruneHistory(): number {
+    const cutoff = Date.now() - config.battery.retentionDays * 24 * HOUR_MS;
+    let removed = 0;
+
+    for (const record of this.records.values()) {
+      const samples = record.samples.filter(sample => Date.parse(sample.timestamp) >= cutoff);
+      const events = record.events.filter(event => Date.parse(event.timestamp) >= cutoff);
+      removed += record.samples.length - samples.length + record.events.length - events.length;
+      record.samples = samples;
+      record.events = events;
+    }
+
+    if (removed > 0) {
+      this.persist();
+      console.log(`Pruned ${removed} battery history entries`);
+    }
+    return removed;
+  }
+
+  /**
+   * Reclassify the battery level and record an event when it changes
+   * A level is only left once the charge has recovered past the threshold
+   * plus a hysteresis margin, so a reading hovering at the threshold does
+   * not raise an event on every heartbeat.
+   * @returns The raised event, if any
+   */
+  private updateLevel(deviceId: string, record: DeviceBatteryRecord, percent: number, at: Date): BatteryEvent | undefined {
+    const { lowPercent, criticalPercent, hysteresisPercent } = config.battery;
+    const severity: Record<BatteryLevel, number> = { ok: 0, low: 1, critical: 2 };
+
+    let level: BatteryLevel = percent <= criticalPercent ? 'critical' : percent <= lowPercent ? 'low' : 'ok';
+
+    // Recovering to a better level requires clearing the threshold by the margin
+    if (severity[level] < severity[record.level]) {
+      if (record.level === 'critical' && percent <= criticalPercent + hysteresisPercent) {
+        level = 'critical';
+      } else if (level === 'ok' && percent <= lowPercent + hysteresisPercent) {
+        level = 'low';
+      }
+    }
+
+    if (level === record.level) {
+      return undefined;
+    }
+
+    const event: BatteryEvent = {
+      deviceId,
+      level,
+      previousLevel: record.level,
+      percent,
+      timestamp: at.toISOString()
+    };
+
+    record.level = level;
+    record.events.push(event);
+    const excess = record.events.length - config.battery.maxEventsPerDevice;
+    if (excess > 0) {
+      record.events.splice(0, excess);
+    }
+
+    console.log(`Battery level of device ${deviceId} changed to ${level} (${percent}%)`);
+    return event;
+  }
+
+  /**
+   * Estimate time until the battery is empty from the recent discharge rate
+   * Fits a least-squares line through the samples in the estimation window.
+   * @param samples - All samples of the device
+   * @returns Milliseconds until empty, or null if not discharging or too few samples
+   */
+  private estimateRuntime(samples: BatterySample[]): number | null {
+    const latest = samples[samples.length - 1];
+    if (!latest) {
+      return null;
+    }
+
+    const windowStart = Date.parse(latest.timestamp) - config.battery.estimationWindowHours * HOUR_MS;
+    const recent = samples.filter(sample => Date.parse(sample.timestamp) >= windowStart);
+    if (recent.length < config.battery.minSamplesForEstimate) {
+      return null;
+    }
+
+    const points = recent.map(sample => ({ x: Date.parse(sample.timestamp), y: sample.percent }));
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    let covariance = 0;
+    let variance = 0;
+    for (const p of points) {
+      covariance += (p.x - meanX) * (p.y - meanY);
+      variance += (p.x - meanX) ** 2;
+    }
+
+    if (variance === 0) {
+      return null;
+    }
+
+    const slopePerMs = covariance / variance;
+    if (slopePerMs >= 0) {
+      return null; // Charging or flat
+    }
+
+    return Math.round(latest.percent / -slopePerMs);
+  }
+
+  /**
+   * Schedule a save of the battery history
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      devices: Object.fromEntries(this.records)
+    }));
+  }
+}
@@ -8,6 +8,14 @@ import { promises as fs } from 'fs';
 import path from 'path';
 import config from '../config.js';
 import { DeviceManager } from './DeviceManager.js';
+import { StatusHistory } from './StatusHistory.js';
+import { BatteryMonitor } from './BatteryMonitor.js';
+import { CommandQueue } from './CommandQueue.js';
+import { DutyCycleManager } from './DutyCycleManager.js';
+import { MotionLog } from './MotionLog.js';
+import { GroupManager } from './GroupManager.js';
+import { ScheduleManager } from './ScheduleManager.js';
+import { AuditLog } from './AuditLog.js';
 
 /**
  * Service for automated cleanup tasks
@@ -64,8 +72,15 @@ export class CleanupService {
       // Clean up old recordings
       const deletedFiles = await this.cleanupOldRecordings();
       
-      // Clean up inactive devices
-      this.deviceManager.cleanupInactiveDevices();
+      // Mark or expire devices that have been offline too long
+      this.applyLifecyclePolicies();
+
+      // Drop history beyond the retention windows and expire undelivered commands
+      StatusHistory.getInstance().pruneHistory();
+      BatteryMonitor.getInstance().pruneHistory();
+      CommandQueue.getInstance().pruneQueue();
+      DutyCycleManager.getInstance().pruneSessions();
+      MotionLog.getInstance().pruneEvents();
       
       // Clean up empty directories
       await this.cleanupEmptyDirectories();
@@ -78,6 +93,27 @@ export class CleanupService {
     }
   }
 
+  /**
+   * Apply the device lifecycle policies and forget expired devices everywhere
+   */
+  private applyLifecyclePolicies(): void {
+    const { dormant, expired } = this.deviceManager.applyLifecyclePolicies();
+
+    for (const entry of expired) {
+      GroupManager.getInstance().removeDeviceFromGroups(entry.deviceId);
+      ScheduleManager.getInstance().removeTarget({ type: 'device', id: entry.deviceId });
+      AuditLog.getInstance().record('device_expired', {
+        lastSeen: entry.lastSeen,
+        policy: entry.policy,
+        policySource: entry.source
+      }, entry.deviceId);
+    }
+
+    if (dormant.length > 0 || expired.length > 0) {
+      console.log(`Lifecycle: ${dormant.length} device(s) marked dormant, ${expired.length} expired`);
+    }
+  }
+
   /**
    * Clean up recordings older than retention period
    * @returns Promise<number> - Number of files deleted
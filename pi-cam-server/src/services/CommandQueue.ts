@@ -0,0 +1,276 @@
+/**
+ * Command Queue Service
+ * Holds commands for sleeping or offline devices until they reconnect
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * Lifecycle of a device command
+ */
+export type CommandState = 'queued' | 'delivered' | 'expired' | 'cancelled' | 'failed';
+
+/**
+ * A command issued to a device, with its delivery state
+ */
+export interface QueuedCommand {
+  id: string;
+  deviceId: string;
+  action: string;
+  payload: Record<string, unknown>; // Sent alongside the action
+  state: CommandState;
+  createdAt: string;
+  expiresAt: string;
+  deliveredAt?: string;
+  reason?: string; // Why the command expired, was cancelled or failed
+}
+
+/**
+ * On-disk format of the command queue
+ */
+interface CommandQueueFile {
+  version: number;
+  commands: QueuedCommand[];
+}
+
+/**
+ * Singleton Command Queue class
+ * Commands are kept per device in the order they were issued.
+ */
+export class CommandQueue {
+  private static instance: CommandQueue;
+  private commands: Map<string, QueuedCommand[]> = new Map();
+  private store: JsonStore<CommandQueueFile> = new JsonStore(config.storage.commandQueueFile);
+
+  private constructor() {
+    console.log('CommandQueue initialized');
+  }
+
+  /**
+   * Get singleton instance of CommandQueue
+   */
+  public static getInstance(): CommandQueue {
+    if (!CommandQueue.instance) {
+      CommandQueue.instance = new CommandQueue();
+    }
+    return CommandQueue.instance;
+  }
+
+  /**
+   * Load the persisted command queue from disk
+   */
+  public async loadQueue(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const command of data.commands) {
+        this.getDeviceCommands(command.deviceId).push(command);
+      }
+
+      console.log(`Loaded ${data.commands.length} device commands`);
+    } catch (error) {
+      console.error('Error loading command queue:', error);
+    }
+  }
+
+  /**
+   * Write any pending queue changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Record a new command for a device
+   * @param deviceId - Target device
+   * @param action - Command action
+   * @param payload - Additional command fields
+   * @param ttlMs - How long the command may wait for delivery
+   * @returns The command, or undefined if the device's queue is full
+   */
+  public enqueue(deviceId: string, action: string, payload: Record<string, unknown>, ttlMs: number = config.commandQueue.defaultTtlMs): QueuedCommand | undefined {
+    if (this.getQueued(deviceId).length >= config.commandQueue.maxQueuedPerDevice) {
+      console.warn(`Command queue for device ${deviceId} is full, dropping ${action}`);
+      return undefined;
+    }
+
+    const now = Date.now();
+    const command: QueuedCommand = {
+      id: crypto.randomUUID(),
+      deviceId,
+      action,
+      payload,
+      state: 'queued',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + Math.min(ttlMs, config.commandQueue.maxTtlMs)).toISOString()
+    };
+
+    this.getDeviceCommands(deviceId).push(command);
+    this.trimHistory(deviceId);
+    this.persist();
+    return command;
+  }
+
+  /**
+   * Get a device's commands, oldest first
+   * @param deviceId - Device ID
+   * @param state - Only return commands in this state
+   * @returns Commands with expired entries marked as such
+   */
+  public getCommands(deviceId: string, state?: CommandState): QueuedCommand[] {
+    this.expireCommands(deviceId);
+    const commands = this.commands.get(deviceId) ?? [];
+    return state ? commands.filter(command => command.state === state) : [...commands];
+  }
+
+  /**
+   * Get the commands still waiting for delivery, in the order they were issued
+   * @param deviceId - Device ID
+   */
+  public getQueued(deviceId: string): QueuedCommand[] {
+    return this.getCommands(deviceId, 'queued');
+  }
+
+  /**
+   * Mark a command as delivered to the device
+   * @param command - Command that was sent
+   */
+  public markDelivered(command: QueuedCommand): void {
+    command.state = 'delivered';
+    command.deliveredAt = new Date().toISOString();
+    this.persist();
+  }
+
+  /**
+   * Mark a command as undeliverable
+   * @param command - Command that could not be sent
+   * @param reason - Why delivery failed
+   */
+  public markFailed(command: QueuedCommand, reason: string): void {
+    command.state = 'failed';
+    command.reason = reason;
+    this.persist();
+  }
+
+  /**
+   * Cancel a command that has not been delivered yet
+   * @param deviceId - Device ID
+   * @param commandId - Command ID
+   * @returns The cancelled command, undefined if not found, or the command unchanged if no longer queued
+   */
+  public cancel(deviceId: string, commandId: string): QueuedCommand | undefined {
+    const command = this.getCommands(deviceId).find(entry => entry.id === commandId);
+    if (!command || command.state !== 'queued') {
+      return command;
+    }
+
+    command.state = 'cancelled';
+    command.reason = 'Cancelled by admin';
+    this.persist();
+    console.log(`Command ${command.action} for device ${deviceId} cancelled`);
+    return command;
+  }
+
+  /**
+   * Drop all of a device's commands
+   * @param deviceId - Device ID
+   */
+  public removeDevice(deviceId: string): void {
+    if (this.commands.delete(deviceId)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Expire overdue commands and trim history for every device
+   * @returns Number of commands that expired
+   */
+  public pruneQueue(): number {
+    let expired = 0;
+    let trimmed = 0;
+    for (const deviceId of this.commands.keys()) {
+      expired += this.expireCommands(deviceId);
+      trimmed += this.trimHistory(deviceId);
+    }
+
+    if (expired > 0) {
+      console.log(`Expired ${expired} undelivered device commands`);
+    }
+    if (trimmed > 0) {
+      this.persist();
+    }
+    return expired;
+  }
+
+  /**
+   * Mark queued commands whose TTL has passed as expired
+   * @param deviceId - Device ID
+   * @returns Number of commands that expired
+   */
+  private expireCommands(deviceId: string): number {
+    const now = Date.now();
+    let expired = 0;
+
+    for (const command of this.commands.get(deviceId) ?? []) {
+      if (command.state === 'queued' && Date.parse(command.expiresAt) <= now) {
+        command.state = 'expired';
+        command.reason = 'Device did not reconnect before the command expired';
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      this.persist();
+    }
+    return expired;
+  }
+
+  /**
+   * Keep only the most recent finished commands of a device
+   * @param deviceId - Device ID
+   * @returns Number of commands dropped
+   */
+  private trimHistory(deviceId: string): number {
+    const commands = this.commands.get(deviceId);
+    if (!commands) {
+      return 0;
+    }
+
+    const finished = commands.filter(command => command.state !== 'queued');
+    const excess = finished.length - config.commandQueue.maxHistoryPerDevice;
+    if (excess > 0) {
+      const dropped = new Set(finished.slice(0, excess));
+      this.commands.set(deviceId, commands.filter(command => !dropped.has(command)));
+      return excess;
+    }
+    return 0;
+  }
+
+  /**
+   * Get (or create) the command list of a device
+   * @param deviceId - Device ID
+   */
+  private getDeviceCommands(deviceId: string): QueuedCommand[] {
+    let commands = this.commands.get(deviceId);
+    if (!commands) {
+      commands = [];
+      this.commands.set(deviceId, commands);
+    }
+    return commands;
+  }
+
+  /**
+   * Schedule a save of the command queue
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      commands: Array.from(this.commands.values()).flat()
+    }));
+  }
+}
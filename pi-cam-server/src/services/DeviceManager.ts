@@ -6,16 +6,28 @@
 import { WebSocket } from 'ws';
 import crypto from 'crypto';
 import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+import { StatusHistory } from './StatusHistory.js';
+import { BatteryMonitor } from './BatteryMonitor.js';
+import { MotionLog } from './MotionLog.js';
+import { FirmwareRepository } from './FirmwareRepository.js';
+import { CommandQueue, QueuedCommand } from './CommandQueue.js';
+import { getSupportedOperationModes, getSupportedResolutions } from '../validation/deviceSchema.js';
+import { DeviceCommand, DeviceCommandAction, isSupportedProtocolVersion, MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../protocol/deviceProtocol.js';
 
 /**
  * Device status enumeration
  */
 export enum DeviceStatus {
+  PENDING = 'pending',
   REGISTERED = 'registered',
   ONLINE = 'online',
   STREAMING = 'streaming',
+  STALE = 'stale',
   ASLEEP = 'asleep',
-  OFFLINE = 'offline'
+  OFFLINE = 'offline',
+  DORMANT = 'dormant',
+  DECOMMISSIONED = 'decommissioned'
 }
 
 /**
@@ -33,6 +45,193 @@ export interface DeviceConfig {
   alwaysOnInterval?: number;
 }
 
+/**
+ * Hardware and firmware features reported by a device at registration
+ */
+export interface DeviceCapabilities {
+  sensorModel?: string;   // e.g. 'OV2640'
+  maxResolution?: string; // Largest frame size the sensor can capture
+  flashLed: boolean;
+  pir: boolean;           // PIR motion sensor, required for motion-triggered mode
+  psram: boolean;
+  sdCard: boolean;
+  commands?: string[];    // Server commands the firmware understands; all if not reported
+}
+
+/**
+ * Whether a device has applied its desired configuration
+ */
+export type ConfigSyncState = 'in-sync' | 'pending' | 'failed';
+
+/**
+ * Delivery status of the desired configuration
+ */
+export interface ConfigSyncInfo {
+  state: ConfigSyncState;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Progress of an over-the-air firmware update
+ */
+export type FirmwareUpdateState = 'pending' | 'downloading' | 'installing' | 'succeeded' | 'failed' | 'rolled_back';
+
+/**
+ * Firmware update tracking for a device
+ */
+export interface FirmwareUpdateInfo {
+  state: FirmwareUpdateState;
+  targetVersion: string;
+  fromVersion?: string;
+  progress?: number; // Download progress in percent
+  message?: string;
+  attempts: number;  // Number of times the update command was sent
+  updatedAt: string;
+}
+
+/**
+ * Firmware update report sent by a device
+ */
+export interface FirmwareReport {
+  state: 'downloading' | 'installing' | 'failed';
+  version: string;
+  progress?: number;
+  message?: string;
+}
+
+/**
+ * Power commands an admin can send
+ */
+export type PowerAction = 'reboot' | 'sleep';
+
+/**
+ * Progress of a reboot or sleep, tracked until the device comes back
+ */
+export type PowerActionState = 'awaiting_reconnect' | 'completed' | 'overdue' | 'failed';
+
+/**
+ * Latest reboot or sleep requested for a device
+ */
+export interface PowerActionInfo {
+  action: PowerAction;
+  state: PowerActionState;
+  requestedAt: string;
+  durationMs?: number;     // Requested sleep length
+  expectedBackBy?: string; // Device is overdue if it hasn't reconnected by then
+  completedAt?: string;
+  message?: string;
+}
+
+/**
+ * How a device's protocol version compares to the server's
+ */
+export type ProtocolStatus = 'current' | 'outdated' | 'unsupported';
+
+/**
+ * Protocol a device announced on its latest connection
+ */
+export interface ProtocolInfo {
+  version: number;
+  status: ProtocolStatus;
+  message?: string;           // Explanation when not current
+  lastInvalidMessage?: string; // Most recent message that failed validation
+  updatedAt: string;
+}
+
+/**
+ * What happens to a decommissioned device's recordings directory
+ */
+export type RecordingDisposition = 'archive' | 'keep' | 'delete';
+
+/**
+ * Record of a device's retirement
+ */
+export interface DecommissionInfo {
+  decommissionedAt: string;
+  previousStatus: string;
+  recordings: RecordingDisposition;
+  archivePath?: string; // Where the recordings were moved, for 'archive'
+  reason?: string;
+}
+
+/**
+ * What happens to a device that stays offline
+ */
+export type LifecycleMode = 'never' | 'dormant' | 'expire';
+
+/**
+ * Inactivity policy for a device
+ */
+export interface LifecyclePolicy {
+  mode: LifecycleMode;
+  afterDays: number; // Days offline before the policy acts; ignored for 'never'
+}
+
+/**
+ * Policy in effect for a device and where it comes from
+ */
+export interface EffectiveLifecyclePolicy {
+  policy: LifecyclePolicy;
+  source: 'device' | 'global';
+}
+
+/**
+ * A device that a lifecycle policy will act on
+ */
+export interface LifecycleReportEntry extends EffectiveLifecyclePolicy {
+  deviceId: string;
+  name?: string;
+  status: DeviceStatus;
+  lastSeen: string;
+  action: 'mark_dormant' | 'expire';
+  dueAt: string;
+  due: boolean; // Whether the next cleanup run acts on it
+}
+
+/**
+ * Outcome of applying the lifecycle policies
+ */
+export interface LifecycleResult {
+  dormant: string[]; // Devices newly marked dormant
+  expired: LifecycleReportEntry[]; // Devices removed from the registry
+}
+
+/**
+ * Footage kept either side of a recording
+ */
+export interface RecordingWindow {
+  preRollSeconds: number;  // Buffered footage written at the start of a recording
+  postRollSeconds: number; // How long recording continues after the device stops streaming
+}
+
+/**
+ * Recording window in effect for a device and where it comes from
+ */
+export interface EffectiveRecordingWindow {
+  window: RecordingWindow;
+  source: 'device' | 'global';
+}
+
+/**
+ * Server-side motion detection settings of a device
+ */
+export interface MotionSettings {
+  enabled: boolean;
+  sensitivity: number;      // 1-100; higher reacts to smaller changes
+  minAreaPercent: number;   // Share of the picture that must change
+  triggerRecording: boolean; // Record only around motion instead of whenever the device streams
+}
+
+/**
+ * Motion settings in effect for a device and where they come from
+ */
+export interface EffectiveMotionSettings {
+  settings: MotionSettings;
+  source: 'device' | 'global';
+}
+
 /**
  * Device information interface
  */
@@ -40,8 +239,14 @@ export interface DeviceInfo {
   deviceId: string;
   apiKey: string;
   name?: string;
+  location?: string;
+  tags: string[];
   status: DeviceStatus;
   config: DeviceConfig;
+  configVersion: number;         // Version of the desired config, bumped on every change
+  appliedConfigVersion: number;  // Last version the device acknowledged
+  appliedConfig?: DeviceConfig;  // Config the device last acknowledged
+  configSync: ConfigSyncInfo;
   socket?: WebSocket;
   lastSeen: Date;
   registeredAt: Date;
@@ -49,9 +254,82 @@ export interface DeviceInfo {
   isRecording: boolean;
   operationMode: 'motion-triggered' | 'always-on' | 'continuous';
   motionSensorDetected: boolean;
+  capabilities?: DeviceCapabilities; // Unset for firmware that doesn't report them
   batteryLevel?: number;
+  firmwareVersion?: string;        // Version reported by the device
+  targetFirmwareVersion?: string;  // Version the device should be running
+  firmwareUpdate?: FirmwareUpdateInfo;
+  protocol?: ProtocolInfo;
+  powerAction?: PowerActionInfo;
+  decommissioned?: DecommissionInfo;
+  lifecyclePolicy?: LifecyclePolicy; // Overrides config.lifecycle.defaultPolicy
+  recordingWindow?: RecordingWindow; // Overrides config.recordings pre- and post-roll
+  motionSettings?: MotionSettings; // Overrides config.motion
+  retiredApiKey?: {
+    key: string;
+    expiresAt: number; // Epoch milliseconds after which the old key is refused
+  };
+  apiKeyUnclaimed?: boolean; // The key has not been handed to the device yet
+}
+
+/**
+ * Outcome of a registration request
+ */
+export interface RegistrationResult {
+  apiKey: string;          // Empty when the registration was refused
+  config: DeviceConfig;
+  pending: boolean;        // Waiting for admin approval; the key must not be handed out
+  created: boolean;        // First registration of this MAC address
+  authenticated: boolean;  // The request carried the device's current API key
+  refused: boolean;        // An approved device registered without its current key; nothing was changed
+}
+
+/**
+ * Options for a status change
+ */
+export interface StatusUpdateOptions {
+  reason?: string;           // Recorded in the status history
+  refreshLastSeen?: boolean; // Whether the change reflects activity from the device (default true)
+}
+
+/**
+ * Outcome of dispatching a command through the queue
+ */
+export interface DispatchResult {
+  command?: QueuedCommand; // The delivered or queued command
+  error?: string;          // Why the command was neither sent nor queued
+}
+
+/**
+ * User-editable descriptive fields for a device
+ */
+export interface DeviceMetadata {
+  name?: string;
+  location?: string;
+  tags?: string[];
+}
+
+/**
+ * Device information as stored on disk (no live socket, dates as ISO strings)
+ */
+export type PersistedDeviceInfo = Omit<DeviceInfo, 'socket' | 'lastSeen' | 'registeredAt'> & {
+  lastSeen: string;
+  registeredAt: string;
+};
+
+/**
+ * On-disk format of the device registry
+ */
+interface DeviceRegistryFile {
+  version: number;
+  devices: PersistedDeviceInfo[];
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that aren't about a live connection and survive a restart
+const KEPT_ON_LOAD = [DeviceStatus.PENDING, DeviceStatus.DORMANT, DeviceStatus.DECOMMISSIONED];
+
 /**
  * Singleton Device Manager class
  * Handles device registration, authentication, and state management
@@ -60,6 +338,10 @@ export class DeviceManager {
   private static instance: DeviceManager;
   private devices: Map<string, DeviceInfo> = new Map();
   private apiKeyToDeviceId: Map<string, string> = new Map();
+  private store: JsonStore<DeviceRegistryFile> = new JsonStore(config.storage.devicesFile);
+  private configAckTimers: Map<string, NodeJS.Timeout> = new Map();
+  private statusHistory: StatusHistory = StatusHistory.getInstance();
+  private commandQueue: CommandQueue = CommandQueue.getInstance();
 
   private constructor() {
     console.log('DeviceManager initialized');
@@ -75,20 +357,123 @@ export class DeviceManager {
     return DeviceManager.instance;
   }
 
+  /**
+   * Load the persisted device registry from disk
+   * Devices come back OFFLINE until they reconnect.
+   */
+  public async loadDevices(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        console.log('No readable device registry found, starting empty');
+        return;
+      }
+
+      for (const record of data.devices) {
+        const device: DeviceInfo = {
+          ...record,
+          tags: record.tags ?? [],
+          configVersion: record.configVersion ?? 1,
+          appliedConfigVersion: record.appliedConfigVersion ?? 0,
+          configSync: record.configSync ?? { state: 'pending', attempts: 0 },
+          status: KEPT_ON_LOAD.includes(record.status) ? record.status : DeviceStatus.OFFLINE,
+          isRecording: false,
+          lastSeen: new Date(record.lastSeen),
+          registeredAt: new Date(record.registeredAt)
+        };
+
+        this.devices.set(device.deviceId, device);
+        if (device.status !== DeviceStatus.DECOMMISSIONED) {
+          this.apiKeyToDeviceId.set(device.apiKey, device.deviceId);
+        }
+
+        // Close out a session the previous server run never saw end
+        if (record.status !== device.status) {
+          this.statusHistory.recordTransition(device.deviceId, device.status, record.status, 'server restarted', device.lastSeen);
+        }
+
+        // Keep honouring a rotated-out key until its grace window ends
+        if (device.retiredApiKey && device.retiredApiKey.expiresAt > Date.now()) {
+          this.apiKeyToDeviceId.set(device.retiredApiKey.key, device.deviceId);
+        } else {
+          delete device.retiredApiKey;
+        }
+      }
+
+      console.log(`Loaded ${data.devices.length} devices from persisted registry`);
+    } catch (error) {
+      console.error('Error loading device registry:', error);
+    }
+  }
+
+  /**
+   * Write any pending registry changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
   /**
    * Register a new device and generate API key
+   * New devices start PENDING unless their MAC matches the auto-approve allowlist.
+   * A known, approved device must present its current key to get it back; a
+   * key is handed out without one only once, right after it was issued.
+   * Otherwise the registration is refused and the device left as it is, so
+   * knowing a camera's MAC is neither enough to take it over nor to knock it
+   * offline. A camera that lost its key needs an admin to revoke it.
    * @param deviceId - MAC address of the device
-   * @returns Object containing API key and initial configuration
+   * @param presentedApiKey - API key sent with the registration, if any
+   * @returns API key, configuration, and whether approval is still pending and the request was new or authenticated
    */
-  public registerDevice(deviceId: string): { apiKey: string; config: DeviceConfig } {
+  public registerDevice(deviceId: string, presentedApiKey?: string): RegistrationResult {
     try {
       // Check if device is already registered
       if (this.devices.has(deviceId)) {
         const existingDevice = this.devices.get(deviceId)!;
-        console.log(`Device ${deviceId} already registered, returning existing API key`);
+
+        // A retired camera coming back must be approved again and never gets its old key
+        if (existingDevice.status === DeviceStatus.DECOMMISSIONED) {
+          this.recommissionDevice(existingDevice);
+        }
+
+        const authenticated = presentedApiKey !== undefined && this.getDevice(presentedApiKey) === existingDevice;
+
+        if (existingDevice.status !== DeviceStatus.PENDING) {
+          if (authenticated) {
+            console.log(`Device ${deviceId} already registered, returning existing API key`);
+          } else if (existingDevice.apiKeyUnclaimed) {
+            delete existingDevice.apiKeyUnclaimed;
+            this.persist();
+            console.log(`Device ${deviceId} collected its API key after approval`);
+          } else {
+            console.warn(`Refused registration of ${deviceId}: approved device without its current API key`);
+            return {
+              apiKey: '',
+              config: existingDevice.config,
+              pending: false,
+              created: false,
+              authenticated: false,
+              refused: true
+            };
+          }
+        }
+
+        const pending = existingDevice.status === DeviceStatus.PENDING;
+
+        if (pending) {
+          // Record the retry so admins can see the device is still asking
+          existingDevice.lastSeen = new Date();
+          this.persist();
+          console.log(`Device ${deviceId} is still awaiting approval`);
+        }
+
         return {
           apiKey: existingDevice.apiKey,
-          config: existingDevice.config
+          config: existingDevice.config,
+          pending,
+          created: false,
+          authenticated,
+          refused: false
         };
       }
 
@@ -98,29 +483,46 @@ export class DeviceManager {
       // Create device configuration with defaults
       const deviceConfig: DeviceConfig = { ...config.defaultDeviceConfig };
 
+      const autoApproved = this.isAutoApproved(deviceId);
+
       // Create device info
       const deviceInfo: DeviceInfo = {
         deviceId,
         apiKey,
-        status: DeviceStatus.REGISTERED,
+        tags: [],
+        status: autoApproved ? DeviceStatus.REGISTERED : DeviceStatus.PENDING,
         config: deviceConfig,
+        configVersion: 1,
+        appliedConfigVersion: 0, // Pushed and confirmed on first connection
+        configSync: { state: 'pending', attempts: 0 },
         lastSeen: new Date(),
         registeredAt: new Date(),
         totalConnections: 0,
         isRecording: false,
         operationMode: deviceConfig.operationMode,
-        motionSensorDetected: false // Will be updated when device connects
+        motionSensorDetected: false, // Will be updated when device connects
+        ...(!autoApproved && { apiKeyUnclaimed: true })
       };
 
       // Store device information
       this.devices.set(deviceId, deviceInfo);
       this.apiKeyToDeviceId.set(apiKey, deviceId);
+      this.statusHistory.recordTransition(deviceId, deviceInfo.status, null, autoApproved ? 'registered (auto-approved)' : 'registered');
+      this.persist();
 
-      console.log(`Device registered: ${deviceId} with API key: ${apiKey.substring(0, 8)}...`);
+      if (autoApproved) {
+        console.log(`Device registered: ${deviceId} with API key: ${apiKey.substring(0, 8)}... (auto-approved)`);
+      } else {
+        console.log(`Device ${deviceId} registered and awaiting admin approval`);
+      }
 
       return {
         apiKey,
-        config: deviceConfig
+        config: deviceConfig,
+        pending: !autoApproved,
+        created: true,
+        authenticated: false,
+        refused: false
       };
     } catch (error) {
       console.error(`Error registering device ${deviceId}:`, error);
@@ -128,6 +530,192 @@ export class DeviceManager {
     }
   }
 
+  /**
+   * Approve a pending device so it can authenticate
+   * @param deviceId - Device ID to approve
+   * @returns true if the device was pending and is now approved
+   */
+  public approveDevice(deviceId: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device || device.status !== DeviceStatus.PENDING) {
+      return false;
+    }
+
+    device.status = DeviceStatus.REGISTERED;
+    this.statusHistory.recordTransition(deviceId, device.status, DeviceStatus.PENDING, 'approved by admin');
+    this.persist();
+    console.log(`Device ${deviceId} approved`);
+    return true;
+  }
+
+  /**
+   * Reject a pending device and discard its registration
+   * @param deviceId - Device ID to reject
+   * @returns true if the device was pending and has been removed
+   */
+  public rejectDevice(deviceId: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device || device.status !== DeviceStatus.PENDING) {
+      return false;
+    }
+
+    this.apiKeyToDeviceId.delete(device.apiKey);
+    if (device.retiredApiKey) {
+      this.apiKeyToDeviceId.delete(device.retiredApiKey.key);
+    }
+    this.devices.delete(deviceId);
+    this.statusHistory.removeDevice(deviceId);
+    BatteryMonitor.getInstance().removeDevice(deviceId);
+    MotionLog.getInstance().removeDevice(deviceId);
+    this.commandQueue.removeDevice(deviceId);
+    this.persist();
+    console.log(`Device ${deviceId} rejected`);
+    return true;
+  }
+
+  /**
+   * Issue a new API key for a device and push it to the camera if online
+   * The previous key keeps working for the configured grace window so the
+   * camera can switch over without losing its connection.
+   * @param deviceId - Device ID to rotate the key for
+   * @returns Rotation details, or undefined if the device is unknown or not approved
+   */
+  public rotateApiKey(deviceId: string): { graceExpiresAt: Date; delivered: boolean } | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device || !this.isApproved(device)) {
+      return undefined;
+    }
+
+    // A key left over from an earlier rotation stops working now
+    if (device.retiredApiKey) {
+      this.apiKeyToDeviceId.delete(device.retiredApiKey.key);
+    }
+
+    const expiresAt = Date.now() + config.security.keyRotationGraceMs;
+    device.retiredApiKey = { key: device.apiKey, expiresAt };
+    device.apiKey = this.generateApiKey();
+    this.apiKeyToDeviceId.set(device.apiKey, deviceId);
+    this.persist();
+
+    const delivered = this.sendCommand(deviceId, {
+      action: 'rotate_api_key',
+      apiKey: device.apiKey,
+      graceExpiresAt: new Date(expiresAt).toISOString()
+    });
+
+    console.log(`API key rotated for device ${deviceId} (delivered: ${delivered})`);
+
+    return { graceExpiresAt: new Date(expiresAt), delivered };
+  }
+
+  /**
+   * Revoke a device's API key and disconnect it
+   * The device returns to PENDING and must be re-approved before it can
+   * register again, at which point it receives a fresh key.
+   * @param deviceId - Device ID to revoke
+   * @returns true if the device existed and its key was revoked
+   */
+  public revokeApiKey(deviceId: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device || device.status === DeviceStatus.DECOMMISSIONED) {
+      return false;
+    }
+
+    this.apiKeyToDeviceId.delete(device.apiKey);
+    if (device.retiredApiKey) {
+      this.apiKeyToDeviceId.delete(device.retiredApiKey.key);
+      delete device.retiredApiKey;
+    }
+
+    // Replace with a key that has never been handed out
+    device.apiKey = this.generateApiKey();
+    device.apiKeyUnclaimed = true;
+    this.apiKeyToDeviceId.set(device.apiKey, deviceId);
+    if (device.status !== DeviceStatus.PENDING) {
+      this.statusHistory.recordTransition(deviceId, DeviceStatus.PENDING, device.status, 'API key revoked');
+    }
+    device.status = DeviceStatus.PENDING;
+
+    const socket = device.socket;
+    delete device.socket;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.close(1008, 'API key revoked');
+    }
+
+    this.persist();
+    console.log(`API key revoked for device ${deviceId}`);
+    return true;
+  }
+
+  /**
+   * Retire a device: revoke its key, close its connection and keep its
+   * record under the decommissioned status
+   * @param deviceId - Device ID to decommission
+   * @param info - Recording disposition and reason, already carried out
+   * @returns The stored decommission record, or undefined if the device is unknown or not approved
+   */
+  public decommissionDevice(deviceId: string, info: Omit<DecommissionInfo, 'decommissionedAt' | 'previousStatus'>): DecommissionInfo | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device || !this.isApproved(device)) {
+      return undefined;
+    }
+
+    this.apiKeyToDeviceId.delete(device.apiKey);
+    if (device.retiredApiKey) {
+      this.apiKeyToDeviceId.delete(device.retiredApiKey.key);
+      delete device.retiredApiKey;
+    }
+    // Unmapped, so no key authenticates as this device any more
+    device.apiKey = this.generateApiKey();
+
+    device.decommissioned = {
+      decommissionedAt: new Date().toISOString(),
+      previousStatus: device.status,
+      ...info
+    };
+    this.statusHistory.recordTransition(deviceId, DeviceStatus.DECOMMISSIONED, device.status, 'decommissioned');
+    device.status = DeviceStatus.DECOMMISSIONED;
+    device.isRecording = false;
+    delete device.powerAction;
+    delete device.firmwareUpdate;
+    delete device.targetFirmwareVersion;
+    this.commandQueue.removeDevice(deviceId);
+
+    const socket = device.socket;
+    delete device.socket;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.close(1008, 'Device decommissioned');
+    }
+
+    this.persist();
+    console.log(`Device ${deviceId} decommissioned (recordings: ${info.recordings})`);
+    return device.decommissioned;
+  }
+
+  /**
+   * Return a decommissioned device that registers again to pending approval
+   * @param device - Decommissioned device
+   */
+  private recommissionDevice(device: DeviceInfo): void {
+    device.apiKey = this.generateApiKey();
+    device.apiKeyUnclaimed = true;
+    this.apiKeyToDeviceId.set(device.apiKey, device.deviceId);
+    delete device.decommissioned;
+    this.statusHistory.recordTransition(device.deviceId, DeviceStatus.PENDING, device.status, 'registered again after decommissioning');
+    device.status = DeviceStatus.PENDING;
+    this.persist();
+    console.log(`Decommissioned device ${device.deviceId} registered again and awaits approval`);
+  }
+
+  /**
+   * Check whether a device has been approved by an admin
+   * @param device - Device to check
+   * @returns true if the device is allowed to authenticate
+   */
+  public isApproved(device: DeviceInfo): boolean {
+    return device.status !== DeviceStatus.PENDING && device.status !== DeviceStatus.DECOMMISSIONED;
+  }
+
   /**
    * Get device information by API key
    * @param apiKey - API key to lookup
@@ -139,7 +727,21 @@ export class DeviceManager {
       if (!deviceId) {
         return undefined;
       }
-      return this.devices.get(deviceId);
+
+      const device = this.devices.get(deviceId);
+      if (device && device.apiKey !== apiKey) {
+        // Rotated-out key: only valid until the grace window expires
+        if (!device.retiredApiKey || device.retiredApiKey.key !== apiKey || device.retiredApiKey.expiresAt <= Date.now()) {
+          this.apiKeyToDeviceId.delete(apiKey);
+          if (device.retiredApiKey?.key === apiKey) {
+            delete device.retiredApiKey;
+            this.persist();
+          }
+          return undefined;
+        }
+      }
+
+      return device;
     } catch (error) {
       console.error(`Error getting device by API key:`, error);
       return undefined;
@@ -159,18 +761,32 @@ export class DeviceManager {
    * Update device status
    * @param deviceId - Device ID to update
    * @param status - New status
+   * @param options - Reason for the history and whether to refresh lastSeen
    */
-  public updateDeviceStatus(deviceId: string, status: DeviceStatus): void {
+  public updateDeviceStatus(deviceId: string, status: DeviceStatus, options: StatusUpdateOptions = {}): void {
     try {
       const device = this.devices.get(deviceId);
       if (device) {
+        // Pending devices only leave that state through approveDevice, decommissioned ones by registering again
+        if (!this.isApproved(device)) {
+          console.warn(`Ignoring status update for ${device.status} device ${deviceId}: ${status}`);
+          return;
+        }
+
+        if (device.status !== status) {
+          this.statusHistory.recordTransition(deviceId, status, device.status, options.reason ?? 'unspecified');
+        }
+
         device.status = status;
-        device.lastSeen = new Date();
+        if (options.refreshLastSeen !== false) {
+          device.lastSeen = new Date();
+        }
         
         if (status === DeviceStatus.ONLINE) {
           device.totalConnections++;
         }
 
+        this.persist();
         console.log(`Device ${deviceId} status updated to: ${status}`);
       } else {
         console.warn(`Attempted to update status for unknown device: ${deviceId}`);
@@ -180,6 +796,18 @@ export class DeviceManager {
     }
   }
 
+  /**
+   * Record that a device has been heard from without changing its status
+   * Called for every message, frame and pong, so it does not persist.
+   * @param deviceId - Device ID
+   */
+  public touchDevice(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (device) {
+      device.lastSeen = new Date();
+    }
+  }
+
   /**
    * Associate a WebSocket connection with a device
    * @param deviceId - Device ID
@@ -195,8 +823,23 @@ export class DeviceManager {
         }
 
         device.socket = socket;
-        this.updateDeviceStatus(deviceId, DeviceStatus.ONLINE);
+        this.updateDeviceStatus(deviceId, DeviceStatus.ONLINE, { reason: 'connected' });
         console.log(`WebSocket associated with device: ${deviceId}`);
+
+        // Deliver any config changes made while the device was away
+        if (device.appliedConfigVersion !== device.configVersion) {
+          device.configSync.attempts = 0;
+          this.pushConfig(deviceId);
+        }
+
+        // A download cut short by the disconnect starts over
+        if (device.firmwareUpdate?.state === 'downloading') {
+          this.setFirmwareUpdateState(device, 'pending', 'Download interrupted');
+        }
+        this.offerFirmwareUpdate(device);
+
+        // Coming back is what a reboot or sleep was waiting for
+        this.completePowerAction(device);
       } else {
         console.warn(`Attempted to set socket for unknown device: ${deviceId}`);
       }
@@ -211,7 +854,7 @@ export class DeviceManager {
    * @param command - Command object to send
    * @returns boolean indicating success
    */
-  public sendCommand(deviceId: string, command: object): boolean {
+  public sendCommand(deviceId: string, command: DeviceCommand): boolean {
     try {
       const device = this.devices.get(deviceId);
       if (!device || !device.socket || device.socket.readyState !== WebSocket.OPEN) {
@@ -219,9 +862,16 @@ export class DeviceManager {
         return false;
       }
 
+      const action = command.action;
+      if (!this.supportsCommand(device, action)) {
+        console.warn(`Not sending ${action} to device ${deviceId}: not supported by its firmware`);
+        return false;
+      }
+
       const message = JSON.stringify(command);
       device.socket.send(message);
-      console.log(`Command sent to device ${deviceId}:`, command);
+      // Log the action only; some commands (e.g. rotate_api_key) carry secrets
+      console.log(`Command sent to device ${deviceId}: ${action}`);
       return true;
     } catch (error) {
       console.error(`Error sending command to device ${deviceId}:`, error);
@@ -230,36 +880,136 @@ export class DeviceManager {
   }
 
   /**
-   * Remove WebSocket association when connection closes
-   * @param deviceId - Device ID
+   * Send a command now, or queue it until the device reconnects
+   * Devices that are asleep or offline get queued commands in issue order
+   * when they next connect; undelivered commands expire after their TTL.
+   * @param deviceId - Target device ID
+   * @param action - Command action
+   * @param payload - Additional command fields
+   * @param ttlMs - How long the command may wait in the queue
+   * @returns The command record, or an error if it could not be sent or queued
    */
-  public removeSocket(deviceId: string): void {
-    try {
-      const device = this.devices.get(deviceId);
-      if (device) {
-        delete device.socket;
-        this.updateDeviceStatus(deviceId, DeviceStatus.OFFLINE);
-        console.log(`WebSocket removed from device: ${deviceId}`);
-      }
-    } catch (error) {
-      console.error(`Error removing socket for device ${deviceId}:`, error);
+  public dispatchCommand(deviceId: string, action: DeviceCommandAction, payload: Record<string, unknown> = {}, ttlMs?: number): DispatchResult {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return { error: 'Device not found' };
+    }
+
+    if (!this.supportsCommand(device, action)) {
+      return { error: `Device firmware does not support ${action}` };
+    }
+
+    const command = this.commandQueue.enqueue(deviceId, action, payload, ttlMs);
+    if (!command) {
+      return { error: 'Command queue is full' };
+    }
+
+    if (this.isReachable(device)) {
+      this.deliverQueuedCommands(deviceId);
+    } else {
+      console.log(`Device ${deviceId} unreachable, ${action} queued until ${command.expiresAt}`);
     }
+    return { command };
   }
 
   /**
-   * Get all registered devices
-   * @returns Array of all device information
+   * Whether a device can receive commands right now
+   * A device that announced sleep may still hold its socket for a moment,
+   * but anything sent then would be lost.
+   * @param device - Target device
    */
-  public getAllDevices(): DeviceInfo[] {
-    return Array.from(this.devices.values());
+  public isReachable(device: DeviceInfo): boolean {
+    return device.socket?.readyState === WebSocket.OPEN && device.status !== DeviceStatus.ASLEEP;
   }
 
   /**
-   * Get devices by status
-   * @param status - Status to filter by
-   * @returns Array of devices with specified status
+   * Deliver every queued command to a device that just connected
+   * @param deviceId - Device ID
+   * @returns Number of commands delivered
    */
-  public getDevicesByStatus(status: DeviceStatus): DeviceInfo[] {
+  public deliverQueuedCommands(deviceId: string): number {
+    let delivered = 0;
+    for (const command of this.commandQueue.getQueued(deviceId)) {
+      if (!this.deliverCommand(command)) {
+        break; // Keep the rest in order for the next connection
+      }
+      delivered++;
+    }
+
+    if (delivered > 0) {
+      console.log(`Delivered ${delivered} queued commands to device ${deviceId}`);
+    }
+    return delivered;
+  }
+
+  /**
+   * Send a queued command and record the outcome
+   * @param command - Command to deliver
+   * @returns true if the command was sent
+   */
+  private deliverCommand(command: QueuedCommand): boolean {
+    const device = this.devices.get(command.deviceId);
+    if (!device || !device.socket || device.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    // Capabilities may have changed since the command was queued
+    if (!this.supportsCommand(device, command.action)) {
+      this.commandQueue.markFailed(command, `Device firmware does not support ${command.action}`);
+      return true;
+    }
+
+    // Actions are checked against the protocol before they are queued
+    if (!this.sendCommand(command.deviceId, { ...command.payload, action: command.action, commandId: command.id } as DeviceCommand)) {
+      return false;
+    }
+
+    this.commandQueue.markDelivered(command);
+    return true;
+  }
+
+  /**
+   * Remove WebSocket association when connection closes
+   * @param deviceId - Device ID
+   * @param socket - The socket that closed; ignored if it has already been replaced
+   */
+  public removeSocket(deviceId: string, socket?: WebSocket): void {
+    try {
+      const device = this.devices.get(deviceId);
+      if (device) {
+        if (socket && device.socket && device.socket !== socket) {
+          console.log(`Ignoring close of superseded socket for device: ${deviceId}`);
+          return;
+        }
+
+        delete device.socket;
+        this.clearConfigAckTimer(deviceId);
+
+        // A device that announced deep sleep stays asleep until it reconnects or times out
+        if (device.status !== DeviceStatus.ASLEEP) {
+          this.updateDeviceStatus(deviceId, DeviceStatus.OFFLINE, { reason: 'connection closed', refreshLastSeen: false });
+        }
+        console.log(`WebSocket removed from device: ${deviceId}`);
+      }
+    } catch (error) {
+      console.error(`Error removing socket for device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Get all registered devices
+   * @returns Array of all device information
+   */
+  public getAllDevices(): DeviceInfo[] {
+    return Array.from(this.devices.values());
+  }
+
+  /**
+   * Get devices by status
+   * @param status - Status to filter by
+   * @returns Array of devices with specified status
+   */
+  public getDevicesByStatus(status: DeviceStatus): DeviceInfo[] {
     return Array.from(this.devices.values()).filter(device => device.status === status);
   }
 
@@ -273,15 +1023,15 @@ export class DeviceManager {
       const device = this.devices.get(deviceId);
       if (device) {
         device.config = { ...device.config, ...config };
-        console.log(`Device ${deviceId} configuration updated:`, config);
-        
-        // Temporarily disable sending config updates to ESP32 until we fix the receive issue
-        // if (device.socket && device.socket.readyState === WebSocket.OPEN) {
-        //   this.sendCommand(deviceId, {
-        //     action: 'update_config',
-        //     config: device.config
-        //   });
-        // }
+        if (config.operationMode) {
+          device.operationMode = config.operationMode;
+        }
+        device.configVersion++;
+        this.persist();
+        console.log(`Device ${deviceId} configuration updated to v${device.configVersion}:`, config);
+
+        device.configSync.attempts = 0;
+        this.pushConfig(deviceId);
       } else {
         console.warn(`Attempted to update config for unknown device: ${deviceId}`);
       }
@@ -290,6 +1040,46 @@ export class DeviceManager {
     }
   }
 
+
+  /**
+   * Update a device's name, location and tags
+   * Empty strings clear the name or location.
+   * @param deviceId - Device ID to update
+   * @param metadata - Fields to change; omitted fields are left as-is
+   * @returns Updated device, or undefined if not found
+   */
+  public updateDeviceMetadata(deviceId: string, metadata: DeviceMetadata): DeviceInfo | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      console.warn(`Attempted to update metadata for unknown device: ${deviceId}`);
+      return undefined;
+    }
+
+    if (metadata.name !== undefined) {
+      if (metadata.name) {
+        device.name = metadata.name;
+      } else {
+        delete device.name;
+      }
+    }
+
+    if (metadata.location !== undefined) {
+      if (metadata.location) {
+        device.location = metadata.location;
+      } else {
+        delete device.location;
+      }
+    }
+
+    if (metadata.tags !== undefined) {
+      device.tags = metadata.tags;
+    }
+
+    this.persist();
+    console.log(`Device ${deviceId} metadata updated:`, metadata);
+    return device;
+  }
+
   /**
    * Update device operation mode
    * @param deviceId - Device ID to update
@@ -304,20 +1094,23 @@ export class DeviceManager {
     try {
       const device = this.devices.get(deviceId);
       if (device) {
+        const modeChanged = device.config.operationMode !== operationMode;
+
         device.operationMode = operationMode;
         device.motionSensorDetected = motionSensorDetected;
         device.config.operationMode = operationMode;
+        if (modeChanged) {
+          device.configVersion++;
+        }
+        this.persist();
         
         console.log(`Device ${deviceId} operation mode updated to: ${operationMode} (motion sensor: ${motionSensorDetected})`);
-        
-        // Temporarily disable sending commands to ESP32 until we fix the receive issue
-        // if (device.socket && device.socket.readyState === WebSocket.OPEN) {
-        //   this.sendCommand(deviceId, {
-        //     action: 'update_operation_mode',
-        //     operationMode: operationMode,
-        //     config: device.config
-        //   });
-        // }
+
+        // The operation mode travels to the device as part of the versioned config
+        if (modeChanged) {
+          device.configSync.attempts = 0;
+          this.pushConfig(deviceId);
+        }
       } else {
         console.warn(`Attempted to update operation mode for unknown device: ${deviceId}`);
       }
@@ -326,6 +1119,498 @@ export class DeviceManager {
     }
   }
 
+  /**
+   * Send the desired config to a device and wait for its acknowledgement
+   * Resends after ackTimeoutMs until maxAttempts is reached. Offline devices
+   * stay pending and receive the config when they next connect.
+   * @param deviceId - Device ID
+   */
+  public pushConfig(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    this.clearConfigAckTimer(deviceId);
+
+    if (!this.supportsCommand(device, 'update_config')) {
+      device.configSync.state = 'failed';
+      device.configSync.lastError = 'Firmware does not support remote configuration';
+      this.persist();
+      return;
+    }
+
+    if (!device.socket || device.socket.readyState !== WebSocket.OPEN) {
+      device.configSync.state = 'pending';
+      this.persist();
+      console.log(`Device ${deviceId} offline, config v${device.configVersion} queued until reconnect`);
+      return;
+    }
+
+    device.configSync.state = 'pending';
+    device.configSync.attempts++;
+    device.configSync.lastAttemptAt = new Date().toISOString();
+    delete device.configSync.lastError;
+    this.persist();
+
+    const version = device.configVersion;
+    this.sendCommand(deviceId, {
+      action: 'update_config',
+      configVersion: version,
+      config: device.config
+    });
+
+    const timer = setTimeout(() => {
+      this.configAckTimers.delete(deviceId);
+      const current = this.devices.get(deviceId);
+      if (!current || current.appliedConfigVersion === current.configVersion || current.configVersion !== version) {
+        return;
+      }
+
+      if (current.configSync.attempts < config.configPush.maxAttempts) {
+        console.warn(`No config_ack from ${deviceId} for v${version}, retrying`);
+        this.pushConfig(deviceId);
+      } else {
+        current.configSync.state = 'failed';
+        current.configSync.lastError = `No acknowledgement after ${current.configSync.attempts} attempts`;
+        this.persist();
+        console.error(`Config v${version} delivery to ${deviceId} failed: no acknowledgement`);
+      }
+    }, config.configPush.ackTimeoutMs);
+
+    this.configAckTimers.set(deviceId, timer);
+  }
+
+  /**
+   * Record a device's acknowledgement of a config push
+   * @param deviceId - Device ID
+   * @param configVersion - Version the device is acknowledging
+   * @param success - Whether the device applied the config
+   * @param error - Error reported by the device, if any
+   */
+  public handleConfigAck(deviceId: string, configVersion: number, success: boolean, error?: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    if (configVersion !== device.configVersion) {
+      console.log(`Ignoring stale config_ack v${configVersion} from ${deviceId} (current v${device.configVersion})`);
+      return;
+    }
+
+    this.clearConfigAckTimer(deviceId);
+
+    if (success) {
+      device.appliedConfigVersion = configVersion;
+      device.appliedConfig = { ...device.config };
+      device.configSync = { state: 'in-sync', attempts: 0 };
+      console.log(`Device ${deviceId} applied config v${configVersion}`);
+    } else {
+      device.configSync.state = 'failed';
+      device.configSync.lastError = error || 'Device rejected configuration';
+      console.warn(`Device ${deviceId} rejected config v${configVersion}: ${device.configSync.lastError}`);
+    }
+
+    this.persist();
+  }
+
+  /**
+   * List config fields whose desired value differs from what the device last applied
+   * @param device - Device to compare
+   * @returns Names of fields that are out of sync
+   */
+  public getConfigDrift(device: DeviceInfo): string[] {
+    const applied = device.appliedConfig;
+    if (!applied) {
+      return Object.keys(device.config);
+    }
+
+    return (Object.keys(device.config) as (keyof DeviceConfig)[])
+      .filter(key => device.config[key] !== applied[key]);
+  }
+
+  /**
+   * Stop waiting for a config acknowledgement
+   * @param deviceId - Device ID
+   */
+  private clearConfigAckTimer(deviceId: string): void {
+    const timer = this.configAckTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.configAckTimers.delete(deviceId);
+    }
+  }
+
+  /**
+   * Store the capabilities a device reported at registration
+   * Config values the hardware can't honour (e.g. motion-triggered mode
+   * without a PIR sensor) are replaced with supported ones.
+   * @param deviceId - Device ID
+   * @param capabilities - Validated capabilities
+   */
+  public setCapabilities(deviceId: string, capabilities: DeviceCapabilities): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    device.capabilities = capabilities;
+    device.motionSensorDetected = capabilities.pir;
+
+    const fixes: Partial<DeviceConfig> = {};
+    const resolutions = getSupportedResolutions(capabilities);
+    if (!resolutions.includes(device.config.resolution)) {
+      fixes.resolution = resolutions[resolutions.length - 1]!;
+    }
+    if (!getSupportedOperationModes(capabilities).includes(device.config.operationMode)) {
+      fixes.operationMode = 'always-on';
+    }
+
+    if (Object.keys(fixes).length > 0) {
+      console.warn(`Device ${deviceId} does not support its configuration, adjusting:`, fixes);
+      this.updateDeviceConfig(deviceId, fixes);
+    } else {
+      this.persist();
+    }
+  }
+
+  /**
+   * Whether a device's firmware understands a command
+   * @param device - Target device
+   * @param action - Command action name
+   * @returns true if supported, or if the firmware doesn't report its commands
+   */
+  public supportsCommand(device: DeviceInfo, action: string): boolean {
+    return !device.capabilities?.commands || device.capabilities.commands.includes(action);
+  }
+
+  /**
+   * Record the protocol version a device announced
+   * @param deviceId - Device ID
+   * @param version - Announced version; devices that never announce one speak version 1
+   * @returns The updated protocol info, and whether its status or version changed
+   */
+  public setProtocolVersion(deviceId: string, version: number): { protocol: ProtocolInfo; changed: boolean } | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return undefined;
+    }
+
+    const protocol: ProtocolInfo = {
+      version,
+      status: 'current',
+      updatedAt: new Date().toISOString()
+    };
+
+    if (!isSupportedProtocolVersion(version)) {
+      protocol.status = 'unsupported';
+      protocol.message = `Device speaks protocol v${version}; this server supports v${MIN_PROTOCOL_VERSION} to v${PROTOCOL_VERSION}`;
+    } else if (version < PROTOCOL_VERSION) {
+      protocol.status = 'outdated';
+      protocol.message = `Device speaks protocol v${version}; update its firmware for v${PROTOCOL_VERSION}`;
+    }
+
+    const changed = device.protocol?.version !== version || device.protocol.status !== protocol.status;
+    device.protocol = protocol;
+    this.persist();
+
+    if (protocol.message) {
+      console.warn(`Device ${deviceId}: ${protocol.message}`);
+    }
+    return { protocol, changed };
+  }
+
+  /**
+   * Remember a message from a device that did not match the protocol
+   * @param deviceId - Device ID
+   * @param description - What was wrong with the message
+   * @returns true if this differs from the last invalid message recorded
+   */
+  public recordInvalidMessage(deviceId: string, description: string): boolean {
+    const device = this.devices.get(deviceId);
+    if (!device?.protocol || device.protocol.lastInvalidMessage === description) {
+      return false;
+    }
+
+    device.protocol.lastInvalidMessage = description;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Record the firmware version a device reported at enrollment or in its hello
+   * A device restarts after installing an update, so this is where an update
+   * is confirmed, or found to have been rolled back by the bootloader.
+   * @param deviceId - Device ID
+   * @param version - Running firmware version
+   */
+  public setFirmwareVersion(deviceId: string, version: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    const update = device.firmwareUpdate;
+    if (update && update.state !== 'succeeded' && update.state !== 'failed') {
+      if (version === update.targetVersion) {
+        update.progress = 100;
+        this.setFirmwareUpdateState(device, 'succeeded');
+        console.log(`Device ${deviceId} is now running firmware ${version}`);
+      } else if (update.state === 'installing') {
+        this.setFirmwareUpdateState(device, 'rolled_back', `Device restarted on ${version} instead of ${update.targetVersion}`);
+        console.warn(`Firmware update of ${deviceId} to ${update.targetVersion} was rolled back`);
+      } else if (update.state === 'downloading') {
+        this.setFirmwareUpdateState(device, 'pending', 'Download interrupted');
+      }
+    }
+
+    if (device.firmwareVersion !== version) {
+      device.firmwareVersion = version;
+      this.persist();
+    }
+  }
+
+  /**
+   * Set the firmware version a device should run and start the update
+   * The image must exist in the firmware repository.
+   * @param deviceId - Device ID
+   * @param version - Target version, or null to cancel a pending update
+   * @returns Updated device, or undefined if not found
+   */
+  public setTargetFirmware(deviceId: string, version: string | null): DeviceInfo | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return undefined;
+    }
+
+    if (version === null) {
+      delete device.targetFirmwareVersion;
+      delete device.firmwareUpdate;
+      this.persist();
+      console.log(`Firmware target cleared for device ${deviceId}`);
+      return device;
+    }
+
+    device.targetFirmwareVersion = version;
+    device.firmwareUpdate = {
+      state: device.firmwareVersion === version ? 'succeeded' : 'pending',
+      targetVersion: version,
+      attempts: 0,
+      updatedAt: new Date().toISOString()
+    };
+    if (device.firmwareVersion) {
+      device.firmwareUpdate.fromVersion = device.firmwareVersion;
+    }
+    this.persist();
+    console.log(`Device ${deviceId} targeted for firmware ${version}`);
+
+    this.offerFirmwareUpdate(device);
+    return device;
+  }
+
+  /**
+   * Record a firmware update progress report from a device
+   * @param deviceId - Device ID
+   * @param report - Report sent by the device
+   */
+  public handleFirmwareReport(deviceId: string, report: FirmwareReport): void {
+    const device = this.devices.get(deviceId);
+    const update = device?.firmwareUpdate;
+    if (!device || !update) {
+      return;
+    }
+
+    if (report.version !== update.targetVersion) {
+      console.log(`Ignoring firmware report for ${report.version} from ${deviceId} (target ${update.targetVersion})`);
+      return;
+    }
+
+    switch (report.state) {
+      case 'downloading':
+        if (report.progress !== undefined) {
+          update.progress = report.progress;
+        }
+        this.setFirmwareUpdateState(device, 'downloading');
+        break;
+      case 'installing':
+        update.progress = 100;
+        this.setFirmwareUpdateState(device, 'installing');
+        console.log(`Device ${deviceId} is installing firmware ${update.targetVersion}`);
+        break;
+      case 'failed':
+        this.setFirmwareUpdateState(device, 'failed', report.message || 'Device reported a failed update');
+        console.warn(`Firmware update of ${deviceId} to ${update.targetVersion} failed: ${update.message}`);
+        break;
+    }
+  }
+
+  /**
+   * Send a pending firmware update to a connected device
+   * Offline devices receive it when they next connect.
+   * @param device - Device to update
+   */
+  private offerFirmwareUpdate(device: DeviceInfo): void {
+    const update = device.firmwareUpdate;
+    if (!update || update.state !== 'pending') {
+      return;
+    }
+
+    if (!device.socket || device.socket.readyState !== WebSocket.OPEN) {
+      console.log(`Device ${device.deviceId} offline, firmware ${update.targetVersion} queued until reconnect`);
+      return;
+    }
+
+    if (!this.supportsCommand(device, 'update_firmware')) {
+      this.setFirmwareUpdateState(device, 'failed', 'Firmware does not support over-the-air updates');
+      return;
+    }
+
+    const image = FirmwareRepository.getInstance().getImage(update.targetVersion);
+    if (!image) {
+      this.setFirmwareUpdateState(device, 'failed', `Firmware ${update.targetVersion} is no longer available`);
+      return;
+    }
+
+    if (update.attempts >= config.firmware.maxUpdateAttempts) {
+      this.setFirmwareUpdateState(device, 'failed', `Gave up after ${update.attempts} attempts`);
+      return;
+    }
+
+    update.attempts++;
+    this.setFirmwareUpdateState(device, 'pending');
+    this.sendCommand(device.deviceId, {
+      action: 'update_firmware',
+      version: image.version,
+      path: `/firmware/${encodeURIComponent(image.version)}`,
+      size: image.size,
+      md5: image.md5,
+      sha256: image.sha256
+    });
+  }
+
+  /**
+   * Move a firmware update to a new state
+   * @param device - Device being updated
+   * @param state - New state
+   * @param message - Optional detail; cleared when omitted
+   */
+  private setFirmwareUpdateState(device: DeviceInfo, state: FirmwareUpdateState, message?: string): void {
+    const update = device.firmwareUpdate;
+    if (!update) {
+      return;
+    }
+
+    update.state = state;
+    update.updatedAt = new Date().toISOString();
+    if (message) {
+      update.message = message;
+    } else {
+      delete update.message;
+    }
+    this.persist();
+  }
+
+  /**
+   * Start tracking a reboot or sleep the device accepted
+   * @param deviceId - Device ID
+   * @param action - Power command sent
+   * @param durationMs - Requested sleep length
+   * @returns The tracked action, or undefined if the device is unknown
+   */
+  public beginPowerAction(deviceId: string, action: PowerAction, durationMs?: number): PowerActionInfo | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const expectedBackBy = now + (durationMs ?? 0) + config.powerCommands.reconnectTimeoutMs;
+    device.powerAction = {
+      action,
+      state: 'awaiting_reconnect',
+      requestedAt: new Date(now).toISOString(),
+      expectedBackBy: new Date(expectedBackBy).toISOString()
+    };
+    if (durationMs !== undefined) {
+      device.powerAction.durationMs = durationMs;
+    }
+
+    this.persist();
+    console.log(`Device ${deviceId} accepted ${action}, expected back by ${device.powerAction.expectedBackBy}`);
+    return device.powerAction;
+  }
+
+  /**
+   * Record a reboot or sleep the device did not accept
+   * @param deviceId - Device ID
+   * @param action - Power command attempted
+   * @param message - Why it failed
+   */
+  public failPowerAction(deviceId: string, action: PowerAction, message: string): void {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      return;
+    }
+
+    device.powerAction = {
+      action,
+      state: 'failed',
+      requestedAt: new Date().toISOString(),
+      message
+    };
+    this.persist();
+  }
+
+  /**
+   * Flag a device that has not come back from a reboot or sleep in time
+   * @param deviceId - Device ID
+   * @returns true if the action just became overdue
+   */
+  public markPowerActionOverdue(deviceId: string): boolean {
+    const action = this.devices.get(deviceId)?.powerAction;
+    if (!action || action.state !== 'awaiting_reconnect' || !action.expectedBackBy || Date.parse(action.expectedBackBy) > Date.now()) {
+      return false;
+    }
+
+    action.state = 'overdue';
+    action.message = `Device has not reconnected since the ${action.action}`;
+    this.persist();
+    console.warn(`Device ${deviceId} is overdue after ${action.action}`);
+    return true;
+  }
+
+  /**
+   * Mark a pending reboot or sleep as done when the device reconnects
+   * @param device - Device that just connected
+   */
+  private completePowerAction(device: DeviceInfo): void {
+    const action = device.powerAction;
+    if (!action || (action.state !== 'awaiting_reconnect' && action.state !== 'overdue')) {
+      return;
+    }
+
+    const seconds = Math.round((Date.now() - Date.parse(action.requestedAt)) / 1000);
+    action.state = 'completed';
+    action.completedAt = new Date().toISOString();
+    action.message = `Reconnected ${seconds}s after the ${action.action}`;
+    this.persist();
+    console.log(`Device ${device.deviceId} ${action.message.toLowerCase()}`);
+  }
+
+  /**
+   * Set the latest battery percentage reported by a device
+   * @param deviceId - Device ID
+   * @param batteryLevel - Charge percentage (0-100)
+   */
+  public setBatteryLevel(deviceId: string, batteryLevel: number): void {
+    const device = this.devices.get(deviceId);
+    if (device && device.batteryLevel !== batteryLevel) {
+      device.batteryLevel = batteryLevel;
+      this.persist();
+    }
+  }
+
   /**
    * Set device recording status
    * @param deviceId - Device ID
@@ -337,7 +1622,7 @@ export class DeviceManager {
       if (device) {
         device.isRecording = isRecording;
         if (isRecording) {
-          this.updateDeviceStatus(deviceId, DeviceStatus.STREAMING);
+          this.updateDeviceStatus(deviceId, DeviceStatus.STREAMING, { reason: 'recording started' });
         }
       }
     } catch (error) {
@@ -345,6 +1630,41 @@ export class DeviceManager {
     }
   }
 
+  /**
+   * Check a MAC address against the auto-approve allowlist
+   * @param deviceId - MAC address of the device
+   * @returns true if the device may skip admin approval
+   */
+  private isAutoApproved(deviceId: string): boolean {
+    const normalize = (mac: string) => mac.toUpperCase().replace(/-/g, ':');
+    const mac = normalize(deviceId);
+    return config.security.autoApproveMacPrefixes.some(prefix => mac.startsWith(normalize(prefix)));
+  }
+
+  /**
+   * Schedule a save of the device registry
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      devices: Array.from(this.devices.values()).map(device => this.toPersisted(device))
+    }));
+  }
+
+  /**
+   * Convert a device to its on-disk representation
+   * @param device - Device to convert
+   * @returns Device record without the live socket
+   */
+  private toPersisted(device: DeviceInfo): PersistedDeviceInfo {
+    const { socket, lastSeen, registeredAt, ...rest } = device;
+    return {
+      ...rest,
+      lastSeen: lastSeen.toISOString(),
+      registeredAt: registeredAt.toISOString()
+    };
+  }
+
   /**
    * Generate a secure random API key
    * @returns Random hex string
@@ -354,20 +1674,188 @@ export class DeviceManager {
   }
 
   /**
-   * Clean up inactive devices (called periodically)
+   * Get the lifecycle policy that applies to a device
+   * @param device - Device to check
+   * @returns The device's own policy, or the global default
    */
-  public cleanupInactiveDevices(): void {
-    const now = new Date();
-    const maxInactiveTime = 24 * 60 * 60 * 1000; // 24 hours
+  public getLifecyclePolicy(device: DeviceInfo): EffectiveLifecyclePolicy {
+    return device.lifecyclePolicy
+      ? { policy: device.lifecyclePolicy, source: 'device' }
+      : { policy: { ...config.lifecycle.defaultPolicy }, source: 'global' };
+  }
 
-    for (const [deviceId, device] of this.devices.entries()) {
-      const inactiveTime = now.getTime() - device.lastSeen.getTime();
-      
-      if (inactiveTime > maxInactiveTime && device.status === DeviceStatus.OFFLINE) {
-        console.log(`Cleaning up inactive device: ${deviceId}`);
-        this.apiKeyToDeviceId.delete(device.apiKey);
-        this.devices.delete(deviceId);
+  /**
+   * Set or clear a device's own lifecycle policy
+   * @param deviceId - Device to update
+   * @param policy - Policy to use, or null to fall back to the global default
+   * @returns The policy now in effect, or undefined if the device is unknown
+   */
+  public setLifecyclePolicy(deviceId: string, policy: LifecyclePolicy | null): EffectiveLifecyclePolicy | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device || !this.isApproved(device)) {
+      return undefined;
+    }
+
+    if (policy) {
+      device.lifecyclePolicy = policy;
+    } else {
+      delete device.lifecyclePolicy;
+    }
+
+    this.persist();
+    console.log(`Lifecycle policy for ${deviceId} ${policy ? `set to ${policy.mode}` : 'reset to the default'}`);
+    return this.getLifecyclePolicy(device);
+  }
+
+  /**
+   * Get the pre- and post-roll that apply to a device
+   * @param device - Device to check
+   * @returns The device's own window, or the global default
+   */
+  public getRecordingWindow(device: DeviceInfo): EffectiveRecordingWindow {
+    return device.recordingWindow
+      ? { window: device.recordingWindow, source: 'device' }
+      : {
+          window: {
+            preRollSeconds: config.recordings.preRollSeconds,
+            postRollSeconds: config.recordings.postRollSeconds
+          },
+          source: 'global'
+        };
+  }
+
+  /**
+   * Set or clear a device's own pre- and post-roll
+   * @param deviceId - Device to update
+   * @param window - Window to use, or null to fall back to the global default
+   * @returns The window now in effect, or undefined if the device is unknown
+   */
+  public setRecordingWindow(deviceId: string, window: RecordingWindow | null): EffectiveRecordingWindow | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device || !this.isApproved(device)) {
+      return undefined;
+    }
+
+    if (window) {
+      device.recordingWindow = window;
+    } else {
+      delete device.recordingWindow;
+    }
+
+    this.persist();
+    console.log(`Recording window for ${deviceId} ${window ? `set to ${window.preRollSeconds}s pre-roll, ${window.postRollSeconds}s post-roll` : 'reset to the default'}`);
+    return this.getRecordingWindow(device);
+  }
+
+  /**
+   * Get the motion detection settings that apply to a device
+   * @param device - Device to check
+   * @returns The device's own settings, or the global default
+   */
+  public getMotionSettings(device: DeviceInfo): EffectiveMotionSettings {
+    const { enabled, sensitivity, minAreaPercent, triggerRecording } = config.motion;
+    return device.motionSettings
+      ? { settings: device.motionSettings, source: 'device' }
+      : { settings: { enabled, sensitivity, minAreaPercent, triggerRecording }, source: 'global' };
+  }
+
+  /**
+   * Set or clear a device's own motion detection settings
+   * @param deviceId - Device to update
+   * @param settings - Settings to use, or null to fall back to the global default
+   * @returns The settings now in effect, or undefined if the device is unknown
+   */
+  public setMotionSettings(deviceId: string, settings: MotionSettings | null): EffectiveMotionSettings | undefined {
+    const device = this.devices.get(deviceId);
+    if (!device || !this.isApproved(device)) {
+      return undefined;
+    }
+
+    if (settings) {
+      device.motionSettings = settings;
+    } else {
+      delete device.motionSettings;
+    }
+
+    this.persist();
+    console.log(`Motion detection for ${deviceId} ${settings ? (settings.enabled ? `enabled at sensitivity ${settings.sensitivity}` : 'disabled') : 'reset to the default'}`);
+    return this.getMotionSettings(device);
+  }
+
+  /**
+   * List devices the lifecycle policies will act on, without changing anything
+   * @param now - Time to evaluate the policies at
+   * @returns Pending actions, soonest first
+   */
+  public getLifecycleReport(now: Date = new Date()): LifecycleReportEntry[] {
+    const entries: LifecycleReportEntry[] = [];
+
+    for (const device of this.devices.values()) {
+      if (device.status !== DeviceStatus.OFFLINE && device.status !== DeviceStatus.DORMANT) {
+        continue;
+      }
+
+      const effective = this.getLifecyclePolicy(device);
+      const { mode, afterDays } = effective.policy;
+      if (mode === 'never' || (mode === 'dormant' && device.status === DeviceStatus.DORMANT)) {
+        continue;
+      }
+
+      const dueAt = device.lastSeen.getTime() + afterDays * DAY_MS;
+      entries.push({
+        deviceId: device.deviceId,
+        ...(device.name !== undefined && { name: device.name }),
+        status: device.status,
+        lastSeen: device.lastSeen.toISOString(),
+        ...effective,
+        action: mode === 'dormant' ? 'mark_dormant' : 'expire',
+        dueAt: new Date(dueAt).toISOString(),
+        due: dueAt <= now.getTime()
+      });
+    }
+
+    return entries.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  /**
+   * Mark or remove devices that have been offline longer than their policy allows (called periodically)
+   * Dormant devices keep their key and come back as soon as they reconnect.
+   * @returns Devices marked dormant and devices removed
+   */
+  public applyLifecyclePolicies(): LifecycleResult {
+    const result: LifecycleResult = { dormant: [], expired: [] };
+
+    for (const entry of this.getLifecycleReport().filter(entry => entry.due)) {
+      const device = this.devices.get(entry.deviceId);
+      if (!device) {
+        continue;
+      }
+
+      if (entry.action === 'mark_dormant') {
+        this.updateDeviceStatus(device.deviceId, DeviceStatus.DORMANT, {
+          reason: `offline for ${entry.policy.afterDays} days`,
+          refreshLastSeen: false
+        });
+        result.dormant.push(device.deviceId);
+        continue;
+      }
+
+      console.log(`Expiring device ${device.deviceId}: offline since ${entry.lastSeen}`);
+      this.apiKeyToDeviceId.delete(device.apiKey);
+      if (device.retiredApiKey) {
+        this.apiKeyToDeviceId.delete(device.retiredApiKey.key);
       }
+      this.devices.delete(device.deviceId);
+      this.statusHistory.removeDevice(device.deviceId);
+      BatteryMonitor.getInstance().removeDevice(device.deviceId);
+      MotionLog.getInstance().removeDevice(device.deviceId);
+      this.commandQueue.removeDevice(device.deviceId);
+      result.expired.push(entry);
+    }
+
+    if (result.expired.length > 0) {
+      this.persist();
     }
+    return result;
   }
 }
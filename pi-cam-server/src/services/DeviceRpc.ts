@@ -0,0 +1,189 @@
+/**
+ * Device RPC Service
+ * Correlates commands sent over a device's WebSocket with the device's replies
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { DeviceManager } from './DeviceManager.js';
+import { DeviceCommand, DeviceCommandAction, ResponseMessage } from '../protocol/deviceProtocol.js';
+
+/**
+ * Why a request did not succeed
+ */
+export type RpcErrorCode =
+  | 'not_found'      // No such device
+  | 'not_connected'  // Device is asleep or offline
+  | 'unsupported'    // Device firmware does not implement the command
+  | 'send_failed'    // The command could not be written to the socket
+  | 'timeout'        // No reply within the command's timeout
+  | 'disconnected'   // Connection closed before the device replied
+  | 'device_error';  // Device replied with an error
+
+/**
+ * A failed request
+ */
+export interface RpcError {
+  code: RpcErrorCode;
+  message: string;
+  deviceCode?: string; // Error code reported by the device, for device_error
+}
+
+/**
+ * Outcome of a request
+ * acknowledged is false for firmware that predates replies; the command was
+ * sent but the device's answer is unknown.
+ */
+export type RpcResult =
+  | { ok: true; acknowledged: boolean; result: Record<string, unknown> }
+  | { ok: false; error: RpcError };
+
+/**
+ * A request waiting for its reply
+ */
+interface PendingRequest {
+  deviceId: string;
+  action: string;
+  sentAt: number;
+  timer: NodeJS.Timeout;
+  resolve: (result: RpcResult) => void;
+}
+
+/**
+ * Singleton Device RPC class
+ * Each request carries a requestId that the device echoes in its response.
+ */
+export class DeviceRpc {
+  private static instance: DeviceRpc;
+  private deviceManager: DeviceManager = DeviceManager.getInstance();
+  private pending: Map<string, PendingRequest> = new Map();
+
+  private constructor() {
+    console.log('DeviceRpc initialized');
+  }
+
+  /**
+   * Get singleton instance of DeviceRpc
+   */
+  public static getInstance(): DeviceRpc {
+    if (!DeviceRpc.instance) {
+      DeviceRpc.instance = new DeviceRpc();
+    }
+    return DeviceRpc.instance;
+  }
+
+  /**
+   * Send a command and wait for the device's reply
+   * Never rejects; failures are returned as typed errors.
+   * @param deviceId - Target device
+   * @param action - Command action
+   * @param payload - Additional command fields
+   * @param timeoutMs - How long to wait for the reply (defaults per command from config)
+   * @returns The device's answer
+   */
+  public request(deviceId: string, action: DeviceCommandAction, payload: Record<string, unknown> = {}, timeoutMs?: number): Promise<RpcResult> {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (!device) {
+      return Promise.resolve(this.failure('not_found', 'Device not found'));
+    }
+
+    if (!this.deviceManager.supportsCommand(device, action)) {
+      return Promise.resolve(this.failure('unsupported', `Device firmware does not support ${action}`));
+    }
+
+    if (!this.deviceManager.isReachable(device)) {
+      return Promise.resolve(this.failure('not_connected', 'Device is not connected'));
+    }
+
+    // Firmware that doesn't report its commands also doesn't answer them
+    if (!device.capabilities?.commands) {
+      return Promise.resolve(this.deviceManager.sendCommand(deviceId, { ...payload, action } as DeviceCommand)
+        ? { ok: true, acknowledged: false, result: {} }
+        : this.failure('send_failed', `Failed to send ${action}`));
+    }
+
+    const requestId = crypto.randomUUID();
+    const timeout = timeoutMs ?? config.rpc.commandTimeoutsMs[action] ?? config.rpc.defaultTimeoutMs;
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        console.warn(`No response from device ${deviceId} to ${action} within ${timeout}ms`);
+        resolve(this.failure('timeout', `Device did not respond within ${timeout}ms`));
+      }, timeout);
+
+      this.pending.set(requestId, { deviceId, action, sentAt: Date.now(), timer, resolve });
+
+      if (!this.deviceManager.sendCommand(deviceId, { ...payload, action, requestId } as DeviceCommand)) {
+        this.settle(requestId, this.failure('send_failed', `Failed to send ${action}`));
+      }
+    });
+  }
+
+  /**
+   * Resolve a pending request with the device's reply
+   * @param deviceId - Device the reply came from
+   * @param response - Validated response message
+   * @returns true if the reply matched a pending request
+   */
+  public handleResponse(deviceId: string, response: Pick<ResponseMessage, 'requestId' | 'success' | 'result' | 'error'>): boolean {
+    const request = this.pending.get(response.requestId);
+    if (!request || request.deviceId !== deviceId) {
+      console.warn(`Unexpected response ${response.requestId} from device ${deviceId}`);
+      return false;
+    }
+
+    const elapsed = Date.now() - request.sentAt;
+    if (response.success) {
+      console.log(`Device ${deviceId} completed ${request.action} in ${elapsed}ms`);
+      this.settle(response.requestId, { ok: true, acknowledged: true, result: response.result ?? {} });
+    } else {
+      const message = response.error?.message || `Device failed to run ${request.action}`;
+      console.warn(`Device ${deviceId} failed ${request.action}: ${message}`);
+      this.settle(response.requestId, {
+        ok: false,
+        error: {
+          code: 'device_error',
+          message,
+          ...(response.error?.code && { deviceCode: response.error.code })
+        }
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Fail every request still waiting on a device whose connection closed
+   * @param deviceId - Device ID
+   */
+  public handleDisconnect(deviceId: string): void {
+    for (const [requestId, request] of this.pending) {
+      if (request.deviceId === deviceId) {
+        this.settle(requestId, this.failure('disconnected', `Connection closed before the device answered ${request.action}`));
+      }
+    }
+  }
+
+  /**
+   * Complete a pending request
+   * @param requestId - Request ID
+   * @param result - Outcome to hand to the caller
+   */
+  private settle(requestId: string, result: RpcResult): void {
+    const request = this.pending.get(requestId);
+    if (!request) {
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId);
+    request.resolve(result);
+  }
+
+  /**
+   * Build a failed result
+   */
+  private failure(code: RpcErrorCode, message: string): RpcResult {
+    return { ok: false, error: { code, message } };
+  }
+}
@@ -0,0 +1,433 @@
+/**
+ * Duty Cycle Manager Service
+ * Enforces the always-on cycle: a device streams for alwaysOnDuration, is
+ * commanded to sleep for alwaysOnInterval, and is expected back afterwards.
+ * Each cycle is logged as a session, and cameras that overrun their window
+ * or don't wake up on time are flagged.
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+import { DeviceManager, DeviceInfo } from './DeviceManager.js';
+import { DeviceRpc } from './DeviceRpc.js';
+
+/**
+ * Where a session is in its cycle
+ */
+export type DutyCyclePhase =
+  | 'streaming'        // Connected, inside its streaming window
+  | 'sleep_requested'  // Sleep command sent, waiting for the device to disconnect
+  | 'sleeping'         // Disconnected, waiting for the wake-up
+  | 'closed';          // Device woke up, or left always-on mode
+
+/**
+ * Something that went wrong during a session
+ */
+export type DutyCycleIssueType =
+  | 'overrun'       // Still connected well after the streaming window closed
+  | 'ended_early'   // Disconnected before the streaming window closed
+  | 'sleep_failed'  // The device did not accept the sleep command
+  | 'missed_wake';  // Did not reconnect when the sleep should have ended
+
+export interface DutyCycleIssue {
+  type: DutyCycleIssueType;
+  message: string;
+  at: string;
+}
+
+/**
+ * One streaming window and the sleep that follows it
+ */
+export interface DutyCycleSession {
+  sessionId: string;
+  phase: DutyCyclePhase;
+  startedAt: string;
+  plannedEndAt: string;      // End of the streaming window
+  sleepDurationMs: number;
+  sleepRequestedAt?: string;
+  disconnectedAt?: string;
+  expectedWakeAt?: string;   // Disconnect time plus the sleep duration
+  closedAt?: string;
+  closeReason?: string;
+  issues: DutyCycleIssue[];
+}
+
+/**
+ * On-disk format of the session log
+ */
+interface DutyCycleFile {
+  version: number;
+  devices: Record<string, DutyCycleSession[]>;
+}
+
+/**
+ * Singleton Duty Cycle Manager class
+ * Sessions start when an always-on device connects and close when it next
+ * connects; a periodic check sends the sleep command and raises flags.
+ */
+export class DutyCycleManager {
+  private static instance: DutyCycleManager;
+  private deviceManager: DeviceManager = DeviceManager.getInstance();
+  private deviceRpc: DeviceRpc = DeviceRpc.getInstance();
+  private sessions: Map<string, DutyCycleSession[]> = new Map();
+  private lastSleepAttempt: Map<string, number> = new Map();
+  private store: JsonStore<DutyCycleFile> = new JsonStore(config.storage.dutyCycleFile);
+  private checkTimer: NodeJS.Timeout | null = null;
+  private onChange: ((deviceId: string) => void) | null = null;
+
+  private constructor() {
+    console.log('DutyCycleManager initialized');
+  }
+
+  /**
+   * Get singleton instance of DutyCycleManager
+   */
+  public static getInstance(): DutyCycleManager {
+    if (!DutyCycleManager.instance) {
+      DutyCycleManager.instance = new DutyCycleManager();
+    }
+    return DutyCycleManager.instance;
+  }
+
+  /**
+   * Load the persisted session log from disk
+   */
+  public async loadSessions(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const [deviceId, sessions] of Object.entries(data.devices)) {
+        this.sessions.set(deviceId, sessions);
+      }
+
+      console.log(`Loaded duty cycle sessions for ${this.sessions.size} devices`);
+    } catch (error) {
+      console.error('Error loading duty cycle sessions:', error);
+    }
+  }
+
+  /**
+   * Write any pending session changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Start periodic duty cycle checks
+   * @param onChange - Called whenever a device's session changes phase or is flagged
+   */
+  public start(onChange: (deviceId: string) => void): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    this.onChange = onChange;
+    this.checkTimer = setInterval(() => this.checkSessions(), config.dutyCycle.checkIntervalMs);
+    console.log('Duty cycle manager started');
+  }
+
+  /**
+   * Stop periodic duty cycle checks
+   */
+  public stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+      console.log('Duty cycle manager stopped');
+    }
+  }
+
+  /**
+   * A device connected: close the previous session and, for always-on
+   * devices, open a new streaming window
+   * @param deviceId - Device ID
+   */
+  public handleConnect(deviceId: string): void {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (!device) {
+      return;
+    }
+
+    const now = Date.now();
+    const previous = this.getOpenSession(deviceId);
+    if (previous) {
+      const lateBy = previous.expectedWakeAt ? now - Date.parse(previous.expectedWakeAt) : 0;
+      if (lateBy > config.dutyCycle.wakeGraceMs && !this.hasIssue(previous, 'missed_wake')) {
+        this.flag(deviceId, previous, 'missed_wake', `Woke up ${this.formatDelay(lateBy)} late`);
+      }
+      this.closeSession(previous, previous.phase === 'sleeping' ? 'woke up' : 'reconnected');
+    }
+
+    if (device.operationMode === 'always-on') {
+      this.startSession(device, now);
+    }
+  }
+
+  /**
+   * A device's connection closed: its sleep has begun
+   * @param deviceId - Device ID
+   */
+  public handleDisconnect(deviceId: string): void {
+    const session = this.getOpenSession(deviceId);
+    if (!session || session.phase === 'sleeping') {
+      return;
+    }
+
+    const now = Date.now();
+    const remainingMs = Date.parse(session.plannedEndAt) - now;
+    if (session.phase === 'streaming' && remainingMs > config.dutyCycle.earlyEndToleranceMs) {
+      this.flag(deviceId, session, 'ended_early', `Disconnected ${this.formatDelay(remainingMs)} before the streaming window closed`);
+    }
+
+    session.phase = 'sleeping';
+    session.disconnectedAt = new Date(now).toISOString();
+    session.expectedWakeAt = new Date(now + session.sleepDurationMs).toISOString();
+    this.persist();
+  }
+
+  /**
+   * Get the session log of a device
+   * @param deviceId - Device ID
+   * @returns Sessions, newest first
+   */
+  public getSessions(deviceId: string): DutyCycleSession[] {
+    return [...(this.sessions.get(deviceId) ?? [])].reverse();
+  }
+
+  /**
+   * Get the session a device is currently in
+   * @param deviceId - Device ID
+   */
+  public getOpenSession(deviceId: string): DutyCycleSession | undefined {
+    const last = this.sessions.get(deviceId)?.at(-1);
+    return last && last.phase !== 'closed' ? last : undefined;
+  }
+
+  /**
+   * Get a device's most recent finished session
+   * @param deviceId - Device ID
+   */
+  public getLastClosedSession(deviceId: string): DutyCycleSession | undefined {
+    const sessions = this.sessions.get(deviceId) ?? [];
+    for (let i = sessions.length - 1; i >= 0; i--) {
+      if (sessions[i]!.phase === 'closed') {
+        return sessions[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop sessions older than the retention window
+   * @returns Number of sessions removed
+   */
+  public pruneSessions(): number {
+    const cutoff = Date.now() - config.dutyCycle.retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const [deviceId, sessions] of this.sessions) {
+      const kept = sessions.filter(session => session.phase !== 'closed' || Date.parse(session.startedAt) > cutoff);
+      removed += sessions.length - kept.length;
+      if (kept.length === 0) {
+        this.sessions.delete(deviceId);
+      } else {
+        this.sessions.set(deviceId, kept);
+      }
+    }
+
+    if (removed > 0) {
+      this.persist();
+      console.log(`Pruned ${removed} duty cycle sessions`);
+    }
+    return removed;
+  }
+
+  /**
+   * Advance every open session: send due sleep commands and flag overruns
+   * and missed wake-ups
+   */
+  public checkSessions(): void {
+    const now = Date.now();
+
+    for (const device of this.deviceManager.getAllDevices()) {
+      const deviceId = device.deviceId;
+      const session = this.getOpenSession(deviceId);
+      const alwaysOn = device.operationMode === 'always-on';
+
+      // Switched to always-on while connected, or connected before a server restart
+      if (!session) {
+        if (alwaysOn && device.socket && this.deviceManager.isReachable(device)) {
+          this.startSession(device, now);
+          this.onChange?.(deviceId);
+        }
+        continue;
+      }
+
+      if (!alwaysOn || !this.deviceManager.isApproved(device)) {
+        this.closeSession(session, alwaysOn ? 'device no longer approved' : 'left always-on mode');
+        this.onChange?.(deviceId);
+        continue;
+      }
+
+      // Connection lost while the server was down or without a close event
+      if (session.phase !== 'sleeping' && !device.socket) {
+        this.handleDisconnect(deviceId);
+        this.onChange?.(deviceId);
+        continue;
+      }
+
+      const plannedEnd = Date.parse(session.plannedEndAt);
+
+      if (session.phase === 'streaming' && now >= plannedEnd) {
+        const lastAttempt = this.lastSleepAttempt.get(deviceId) ?? 0;
+        if (now - lastAttempt >= config.dutyCycle.sleepRetryMs) {
+          this.lastSleepAttempt.set(deviceId, now);
+          void this.requestSleep(deviceId, session);
+        }
+      }
+
+      if (session.phase !== 'sleeping' && now > plannedEnd + config.dutyCycle.overrunGraceMs && !this.hasIssue(session, 'overrun')) {
+        this.flag(deviceId, session, 'overrun', `Still connected ${this.formatDelay(now - plannedEnd)} after the streaming window closed`);
+      }
+
+      if (session.phase === 'sleeping' && session.expectedWakeAt && !this.hasIssue(session, 'missed_wake')) {
+        const lateBy = now - Date.parse(session.expectedWakeAt);
+        if (lateBy > config.dutyCycle.wakeGraceMs) {
+          this.flag(deviceId, session, 'missed_wake', `Has not reconnected ${this.formatDelay(lateBy)} after its sleep ended`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Command a device to sleep at the end of its streaming window
+   * @param deviceId - Device ID
+   * @param session - Session whose window has closed
+   */
+  private async requestSleep(deviceId: string, session: DutyCycleSession): Promise<void> {
+    session.phase = 'sleep_requested';
+    session.sleepRequestedAt = new Date().toISOString();
+    this.persist();
+    console.log(`Streaming window closed for device ${deviceId}, sleeping for ${session.sleepDurationMs}ms`);
+
+    const result = await this.deviceRpc.request(deviceId, 'sleep', { durationMs: session.sleepDurationMs });
+
+    // The device may have disconnected while the command was in flight
+    if (session.phase !== 'sleep_requested') {
+      return;
+    }
+
+    if (result.ok) {
+      this.deviceManager.beginPowerAction(deviceId, 'sleep', session.sleepDurationMs);
+      this.onChange?.(deviceId);
+      return;
+    }
+
+    this.deviceManager.failPowerAction(deviceId, 'sleep', result.error.message);
+    session.phase = 'streaming';
+    delete session.sleepRequestedAt;
+    if (!this.hasIssue(session, 'sleep_failed')) {
+      this.flag(deviceId, session, 'sleep_failed', result.error.message);
+    }
+  }
+
+  /**
+   * Open a streaming window for an always-on device
+   * @param device - Device that is connected and in always-on mode
+   * @param now - Start of the window
+   */
+  private startSession(device: DeviceInfo, now: number): void {
+    const { duration, interval } = this.getCycle(device);
+    const session: DutyCycleSession = {
+      sessionId: crypto.randomBytes(8).toString('hex'),
+      phase: 'streaming',
+      startedAt: new Date(now).toISOString(),
+      plannedEndAt: new Date(now + duration).toISOString(),
+      sleepDurationMs: interval,
+      issues: []
+    };
+    this.addSession(device.deviceId, session);
+    this.lastSleepAttempt.delete(device.deviceId);
+    console.log(`Duty cycle session started for device ${device.deviceId}, streaming until ${session.plannedEndAt}`);
+  }
+
+  /**
+   * Streaming window and sleep length for a device
+   * Falls back to the always-on mode defaults for configs that predate the fields.
+   */
+  private getCycle(device: DeviceInfo): { duration: number; interval: number } {
+    const mode = config.operationModes['always-on'];
+    return {
+      duration: device.config.alwaysOnDuration ?? mode.streamingDuration,
+      interval: device.config.alwaysOnInterval ?? mode.sleepDuration
+    };
+  }
+
+  /**
+   * Record an issue on a session
+   */
+  private flag(deviceId: string, session: DutyCycleSession, type: DutyCycleIssueType, message: string): void {
+    session.issues.push({ type, message, at: new Date().toISOString() });
+    this.persist();
+    console.warn(`Duty cycle ${type} for device ${deviceId}: ${message}`);
+    this.onChange?.(deviceId);
+  }
+
+  /**
+   * Whether a session has already been flagged for an issue
+   */
+  private hasIssue(session: DutyCycleSession, type: DutyCycleIssueType): boolean {
+    return session.issues.some(issue => issue.type === type);
+  }
+
+  /**
+   * Finish a session
+   */
+  private closeSession(session: DutyCycleSession, reason: string): void {
+    session.phase = 'closed';
+    session.closedAt = new Date().toISOString();
+    session.closeReason = reason;
+    this.persist();
+  }
+
+  /**
+   * Append a session to a device's log, keeping it bounded
+   */
+  private addSession(deviceId: string, session: DutyCycleSession): void {
+    let sessions = this.sessions.get(deviceId);
+    if (!sessions) {
+      sessions = [];
+      this.sessions.set(deviceId, sessions);
+    }
+
+    sessions.push(session);
+    const excess = sessions.length - config.dutyCycle.maxSessionsPerDevice;
+    if (excess > 0) {
+      sessions.splice(0, excess);
+    }
+    this.persist();
+  }
+
+  /**
+   * Format a delay for log and issue messages
+   */
+  private formatDelay(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+  }
+
+  /**
+   * Schedule a save of the session log
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      devices: Object.fromEntries(this.sessions)
+    }));
+  }
+}
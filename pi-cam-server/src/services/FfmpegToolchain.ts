@@ -0,0 +1,233 @@
+/**
+ * FFmpeg Toolchain Service
+ * Locates FFmpeg and ffprobe and probes what the installed build can do
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs, constants as fsConstants } from 'fs';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import config from '../config.js';
+
+/**
+ * Where a binary's path came from
+ */
+export type ToolSource = 'config' | 'environment' | 'path';
+
+/**
+ * A located binary
+ */
+export interface ToolInfo {
+  path: string;
+  source: ToolSource;
+  version?: string; // First line of `-version`, e.g. 'ffmpeg version 6.1.1-3ubuntu5'
+}
+
+/**
+ * Result of the startup probe
+ */
+export interface FfmpegStatus {
+  available: boolean;          // FFmpeg was found and runs
+  ffmpeg?: ToolInfo;
+  ffprobe?: ToolInfo;
+  encoders: Record<string, boolean>;
+  mjpegCopy: boolean;          // MJPEG frames can be stored without re-encoding
+  recordingCodecAvailable: boolean; // video.outputCodec is among the encoders
+  error?: string;              // Why FFmpeg is unusable, or what is degraded
+  probedAt: string;
+}
+
+// Encoders worth knowing about on a Raspberry Pi
+const PROBED_ENCODERS = ['libx264', 'h264_v4l2m2m', 'libx265', 'mjpeg'];
+
+/**
+ * Singleton FFmpeg Toolchain class
+ * Resolution order for each binary: config, environment variable, PATH.
+ */
+export class FfmpegToolchain {
+  private static instance: FfmpegToolchain;
+  private status: FfmpegStatus = {
+    available: false,
+    encoders: {},
+    mjpegCopy: false,
+    recordingCodecAvailable: false,
+    error: 'FFmpeg has not been probed yet',
+    probedAt: new Date().toISOString()
+  };
+
+  private constructor() {
+    console.log('FfmpegToolchain initialized');
+  }
+
+  /**
+   * Get singleton instance of FfmpegToolchain
+   */
+  public static getInstance(): FfmpegToolchain {
+    if (!FfmpegToolchain.instance) {
+      FfmpegToolchain.instance = new FfmpegToolchain();
+    }
+    return FfmpegToolchain.instance;
+  }
+
+  /**
+   * Latest probe result
+   */
+  public getStatus(): FfmpegStatus {
+    return this.status;
+  }
+
+  /**
+   * Whether recordings can be made
+   */
+  public isAvailable(): boolean {
+    return this.status.available && this.status.recordingCodecAvailable;
+  }
+
+  /**
+   * Locate FFmpeg and ffprobe, check their versions and list the encoders
+   * Points fluent-ffmpeg at the binaries that were found.
+   * @returns The probe result
+   */
+  public async probe(): Promise<FfmpegStatus> {
+    const status: FfmpegStatus = {
+      available: false,
+      encoders: {},
+      mjpegCopy: false,
+      recordingCodecAvailable: false,
+      probedAt: new Date().toISOString()
+    };
+
+    const ffmpegTool = await this.locate('ffmpeg', config.ffmpeg.ffmpegPath, 'FFMPEG_PATH');
+    const ffprobeTool = await this.locate('ffprobe', config.ffmpeg.ffprobePath, 'FFPROBE_PATH');
+
+    if (ffprobeTool) {
+      try {
+        ffprobeTool.version = await this.readVersion(ffprobeTool.path);
+        status.ffprobe = ffprobeTool;
+        ffmpeg.setFfprobePath(ffprobeTool.path);
+      } catch (error) {
+        console.warn(`ffprobe at ${ffprobeTool.path} does not run:`, (error as Error).message);
+      }
+    }
+
+    if (!ffmpegTool) {
+      status.error = 'FFmpeg not found. Install it (sudo apt install ffmpeg), or set ffmpeg.ffmpegPath in config.ts or the FFMPEG_PATH environment variable.';
+      return this.finish(status);
+    }
+
+    try {
+      ffmpegTool.version = await this.readVersion(ffmpegTool.path);
+    } catch (error) {
+      status.error = `FFmpeg at ${ffmpegTool.path} (from ${ffmpegTool.source}) does not run: ${(error as Error).message}`;
+      return this.finish(status);
+    }
+
+    status.ffmpeg = ffmpegTool;
+    status.available = true;
+    ffmpeg.setFfmpegPath(ffmpegTool.path);
+
+    try {
+      const encoders = await this.run(ffmpegTool.path, ['-hide_banner', '-encoders']);
+      for (const encoder of new Set([...PROBED_ENCODERS, config.video.outputCodec])) {
+        status.encoders[encoder] = new RegExp(`^\\s*V\\S*\\s+${encoder}\\s`, 'm').test(encoders);
+      }
+
+      // Storing MJPEG as-is needs the demuxer only, no encoder
+      const demuxers = await this.run(ffmpegTool.path, ['-hide_banner', '-demuxers']);
+      status.mjpegCopy = /^\s*D\S*\s+mjpeg\s/m.test(demuxers);
+
+      status.recordingCodecAvailable = status.encoders[config.video.outputCodec] === true;
+      if (!status.recordingCodecAvailable) {
+        status.error = `This FFmpeg build has no ${config.video.outputCodec} encoder (video.outputCodec), so recording is disabled`;
+      }
+    } catch (error) {
+      // Can't tell, so let recording try
+      status.recordingCodecAvailable = true;
+      status.error = `Could not list FFmpeg encoders: ${(error as Error).message}`;
+    }
+
+    return this.finish(status);
+  }
+
+  /**
+   * Store and log a probe result
+   * @param status - Probe result
+   * @returns The same result
+   */
+  private finish(status: FfmpegStatus): FfmpegStatus {
+    this.status = status;
+
+    if (!status.available) {
+      console.error(`Recording disabled: ${status.error}`);
+    } else {
+      console.log(`Using ${status.ffmpeg?.version} at ${status.ffmpeg?.path} (from ${status.ffmpeg?.source})`);
+      const found = Object.entries(status.encoders).filter(([, present]) => present).map(([name]) => name);
+      console.log(`FFmpeg encoders: ${found.join(', ') || 'none of interest'}${status.mjpegCopy ? '; MJPEG copy supported' : ''}`);
+      if (status.error) {
+        console.warn(status.error);
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Find a binary in config, the environment or PATH
+   * @param name - Binary name without extension
+   * @param configuredPath - Path from config.ts, if set
+   * @param envVar - Environment variable that may hold the path
+   * @returns The binary's path and where it came from, or undefined if not found
+   */
+  private async locate(name: string, configuredPath: string, envVar: string): Promise<ToolInfo | undefined> {
+    if (configuredPath) {
+      return { path: configuredPath, source: 'config' };
+    }
+
+    const envPath = process.env[envVar];
+    if (envPath) {
+      return { path: envPath, source: 'environment' };
+    }
+
+    const executable = process.platform === 'win32' ? `${name}.exe` : name;
+    for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+      const candidate = path.join(dir, executable);
+      try {
+        await fs.access(candidate, fsConstants.X_OK);
+        return { path: candidate, source: 'path' };
+      } catch {
+        // Not in this directory
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read a binary's version line
+   * @param binaryPath - FFmpeg or ffprobe
+   * @returns First line of its -version output
+   */
+  private async readVersion(binaryPath: string): Promise<string> {
+    const output = await this.run(binaryPath, ['-version']);
+    // e.g. 'ffmpeg version 6.1.1-3ubuntu5 Copyright (c) 2000-2023 the FFmpeg developers'
+    return output.split('\n')[0]?.replace(/\s+Copyright.*$/, '').trim() || 'unknown version';
+  }
+
+  /**
+   * Run a binary and collect its standard output
+   * @param binaryPath - Executable
+   * @param args - Arguments
+   * @returns Standard output
+   */
+  private run(binaryPath: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(binaryPath, args, { timeout: config.ffmpeg.probeTimeoutMs, maxBuffer: 4 * 1024 * 1024 }, (error, stdout) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(stdout);
+        }
+      });
+    });
+  }
+}
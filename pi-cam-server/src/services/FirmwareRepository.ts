@@ -0,0 +1,188 @@
+/**
+ * Firmware Repository Service
+ * Stores ESP32 firmware images for over-the-air updates
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * A stored firmware image
+ */
+export interface FirmwareImage {
+  version: string;
+  filename: string;
+  size: number;
+  sha256: string;
+  md5: string; // The ESP32 Update library verifies images against an MD5
+  notes?: string;
+  uploadedAt: string;
+}
+
+/**
+ * On-disk format of the firmware index
+ */
+interface FirmwareIndexFile {
+  version: number;
+  images: FirmwareImage[];
+}
+
+/**
+ * Singleton Firmware Repository class
+ * Image files live in the firmware directory; their metadata in a JSON index.
+ */
+export class FirmwareRepository {
+  private static instance: FirmwareRepository;
+  private images: Map<string, FirmwareImage> = new Map();
+  private store: JsonStore<FirmwareIndexFile> = new JsonStore(config.storage.firmwareIndexFile);
+
+  private constructor() {
+    console.log('FirmwareRepository initialized');
+  }
+
+  /**
+   * Get singleton instance of FirmwareRepository
+   */
+  public static getInstance(): FirmwareRepository {
+    if (!FirmwareRepository.instance) {
+      FirmwareRepository.instance = new FirmwareRepository();
+    }
+    return FirmwareRepository.instance;
+  }
+
+  /**
+   * Load the firmware index from disk
+   */
+  public async loadIndex(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const image of data.images) {
+        this.images.set(image.version, image);
+      }
+
+      console.log(`Loaded ${data.images.length} firmware images`);
+    } catch (error) {
+      console.error('Error loading firmware index:', error);
+    }
+  }
+
+  /**
+   * Write any pending index changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Get all firmware images
+   * @returns Images, newest upload first
+   */
+  public getAllImages(): FirmwareImage[] {
+    return Array.from(this.images.values()).sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  /**
+   * Get a firmware image by version
+   * @param version - Firmware version
+   * @returns Image metadata or undefined if not found
+   */
+  public getImage(version: string): FirmwareImage | undefined {
+    return this.images.get(version);
+  }
+
+  /**
+   * Absolute path of an image file
+   * @param image - Firmware image
+   * @returns Path suitable for res.sendFile
+   */
+  public getImagePath(image: FirmwareImage): string {
+    return path.resolve(config.firmware.directory, image.filename);
+  }
+
+  /**
+   * Compute the checksums of an image
+   * @param data - Image contents
+   * @returns Hex-encoded SHA-256 and MD5 digests
+   */
+  public static checksum(data: Buffer): { sha256: string; md5: string } {
+    return {
+      sha256: crypto.createHash('sha256').update(data).digest('hex'),
+      md5: crypto.createHash('md5').update(data).digest('hex')
+    };
+  }
+
+  /**
+   * Store a new firmware image
+   * The version must already be validated, as it is used in the file name.
+   * @param version - Firmware version
+   * @param data - Image contents
+   * @param notes - Optional release notes
+   * @returns The stored image metadata
+   */
+  public async addImage(version: string, data: Buffer, notes?: string): Promise<FirmwareImage> {
+    const { sha256, md5 } = FirmwareRepository.checksum(data);
+    const image: FirmwareImage = {
+      version,
+      filename: `${version}.bin`,
+      size: data.length,
+      sha256,
+      md5,
+      uploadedAt: new Date().toISOString()
+    };
+    if (notes) {
+      image.notes = notes;
+    }
+
+    // Write to a temporary file first so a partial upload is never served
+    const filePath = this.getImagePath(image);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, data);
+    await fs.rename(`${filePath}.tmp`, filePath);
+
+    this.images.set(version, image);
+    this.persist();
+    console.log(`Firmware ${version} stored (${data.length} bytes, sha256 ${sha256})`);
+    return image;
+  }
+
+  /**
+   * Delete a firmware image and its file
+   * @param version - Firmware version
+   * @returns true if the image existed
+   */
+  public async deleteImage(version: string): Promise<boolean> {
+    const image = this.images.get(version);
+    if (!image) {
+      return false;
+    }
+
+    this.images.delete(version);
+    this.persist();
+
+    try {
+      await fs.unlink(this.getImagePath(image));
+    } catch (error) {
+      console.warn(`Could not delete firmware file for ${version}:`, error);
+    }
+
+    console.log(`Firmware ${version} deleted`);
+    return true;
+  }
+
+  /**
+   * Schedule a save of the firmware index
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      images: Array.from(this.images.values())
+    }));
+  }
+}
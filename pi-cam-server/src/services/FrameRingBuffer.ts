@@ -0,0 +1,91 @@
+/**
+ * Frame Ring Buffer
+ * Keeps a device's most recent JPEG frames in memory so a recording can
+ * start with the footage from just before it was triggered
+ */
+
+/**
+ * A frame and when the server received it
+ */
+export interface BufferedFrame {
+  data: Buffer;
+  receivedAt: number; // Epoch milliseconds
+}
+
+/**
+ * Bounded buffer of recent frames
+ * Frames are dropped oldest first once they are older than the window or
+ * the buffer holds more than its byte limit.
+ */
+export class FrameRingBuffer {
+  private frames: BufferedFrame[] = [];
+  private bytes = 0;
+
+  /**
+   * @param windowMs - How much footage to keep
+   * @param maxBytes - Memory cap for the buffered frames
+   */
+  constructor(private windowMs: number, private readonly maxBytes: number) {}
+
+  /**
+   * Add a frame
+   * @param data - JPEG frame
+   * @param receivedAt - When it arrived
+   */
+  public push(data: Buffer, receivedAt: number): void {
+    this.frames.push({ data, receivedAt });
+    this.bytes += data.length;
+    this.trim(receivedAt);
+  }
+
+  /**
+   * Take every frame still inside the window, leaving the buffer empty
+   * @param now - Current time
+   * @returns Frames, oldest first
+   */
+  public drain(now: number): BufferedFrame[] {
+    this.trim(now);
+    const frames = this.frames;
+    this.frames = [];
+    this.bytes = 0;
+    return frames;
+  }
+
+  /**
+   * Change how much footage is kept
+   * @param windowMs - New window
+   */
+  public setWindow(windowMs: number): void {
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Size of the buffered frames
+   */
+  public getByteLength(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Drop frames that fall outside the window or the byte limit
+   * @param now - Current time
+   */
+  private trim(now: number): void {
+    const oldest = now - this.windowMs;
+    let drop = 0;
+    let bytes = this.bytes;
+
+    for (const frame of this.frames) {
+      if (frame.receivedAt >= oldest && bytes <= this.maxBytes) {
+        break;
+      }
+      bytes -= frame.data.length;
+      drop++;
+    }
+
+    if (drop > 0) {
+      this.frames.splice(0, drop);
+      this.bytes = bytes;
+    }
+  }
+}
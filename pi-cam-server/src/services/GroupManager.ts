@@ -0,0 +1,199 @@
+/**
+ * Group Manager Service
+ * Manages named groups of camera devices (e.g. "front yard", "garage")
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * Device group interface
+ */
+export interface DeviceGroup {
+  groupId: string;
+  name: string;
+  deviceIds: string[];
+  createdAt: string;
+}
+
+/**
+ * On-disk format of the group list
+ */
+interface GroupsFile {
+  version: number;
+  groups: DeviceGroup[];
+}
+
+/**
+ * Singleton Group Manager class
+ * Handles creation, membership and persistence of device groups
+ */
+export class GroupManager {
+  private static instance: GroupManager;
+  private groups: Map<string, DeviceGroup> = new Map();
+  private store: JsonStore<GroupsFile> = new JsonStore(config.storage.groupsFile);
+
+  private constructor() {
+    console.log('GroupManager initialized');
+  }
+
+  /**
+   * Get singleton instance of GroupManager
+   */
+  public static getInstance(): GroupManager {
+    if (!GroupManager.instance) {
+      GroupManager.instance = new GroupManager();
+    }
+    return GroupManager.instance;
+  }
+
+  /**
+   * Load persisted groups from disk
+   */
+  public async loadGroups(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const group of data.groups) {
+        this.groups.set(group.groupId, group);
+      }
+
+      console.log(`Loaded ${data.groups.length} device groups`);
+    } catch (error) {
+      console.error('Error loading device groups:', error);
+    }
+  }
+
+  /**
+   * Write any pending group changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Get all groups
+   * @returns Array of groups sorted by name
+   */
+  public getAllGroups(): DeviceGroup[] {
+    return Array.from(this.groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a group by ID
+   * @param groupId - Group ID to lookup
+   * @returns Group or undefined if not found
+   */
+  public getGroup(groupId: string): DeviceGroup | undefined {
+    return this.groups.get(groupId);
+  }
+
+  /**
+   * Find a group by name (case-insensitive)
+   * @param name - Group name
+   * @returns Group or undefined if not found
+   */
+  public findGroupByName(name: string): DeviceGroup | undefined {
+    const lowerName = name.toLowerCase();
+    return Array.from(this.groups.values()).find(group => group.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * Get the groups a device belongs to
+   * @param deviceId - Device ID
+   * @returns Groups containing the device
+   */
+  public getGroupsForDevice(deviceId: string): DeviceGroup[] {
+    return this.getAllGroups().filter(group => group.deviceIds.includes(deviceId));
+  }
+
+  /**
+   * Create a new group
+   * @param name - Display name
+   * @param deviceIds - Initial members
+   * @returns The created group
+   */
+  public createGroup(name: string, deviceIds: string[]): DeviceGroup {
+    const group: DeviceGroup = {
+      groupId: crypto.randomBytes(8).toString('hex'),
+      name,
+      deviceIds: Array.from(new Set(deviceIds)),
+      createdAt: new Date().toISOString()
+    };
+
+    this.groups.set(group.groupId, group);
+    this.persist();
+    console.log(`Device group created: ${name} (${group.deviceIds.length} devices)`);
+    return group;
+  }
+
+  /**
+   * Update a group's name and/or members
+   * @param groupId - Group ID to update
+   * @param changes - Fields to change
+   * @returns Updated group, or undefined if not found
+   */
+  public updateGroup(groupId: string, changes: { name?: string; deviceIds?: string[] }): DeviceGroup | undefined {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      return undefined;
+    }
+
+    if (changes.name !== undefined) {
+      group.name = changes.name;
+    }
+    if (changes.deviceIds !== undefined) {
+      group.deviceIds = Array.from(new Set(changes.deviceIds));
+    }
+
+    this.persist();
+    console.log(`Device group updated: ${group.name}`);
+    return group;
+  }
+
+  /**
+   * Delete a group (member devices are not affected)
+   * @param groupId - Group ID to delete
+   * @returns true if the group existed
+   */
+  public deleteGroup(groupId: string): boolean {
+    const deleted = this.groups.delete(groupId);
+    if (deleted) {
+      this.persist();
+      console.log(`Device group deleted: ${groupId}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove a device from every group it belongs to
+   * @param deviceId - Device ID to remove
+   */
+  public removeDeviceFromGroups(deviceId: string): void {
+    let changed = false;
+    for (const group of this.groups.values()) {
+      if (group.deviceIds.includes(deviceId)) {
+        group.deviceIds = group.deviceIds.filter(id => id !== deviceId);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Schedule a save of the group list
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      groups: Array.from(this.groups.values())
+    }));
+  }
+}
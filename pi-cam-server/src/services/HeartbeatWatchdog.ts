@@ -0,0 +1,200 @@
+/**
+ * Heartbeat Watchdog
+ * Detects devices that stopped talking without closing their connection
+ * (power loss, Wi-Fi drop) and marks them stale, then offline
+ */
+
+import { WebSocket } from 'ws';
+import config from '../config.js';
+import { DeviceManager, DeviceInfo, DeviceStatus } from './DeviceManager.js';
+
+/**
+ * Statuses of devices the watchdog keeps an eye on
+ */
+const WATCHED_STATUSES = new Set<DeviceStatus>([
+  DeviceStatus.ONLINE,
+  DeviceStatus.STREAMING,
+  DeviceStatus.STALE,
+  DeviceStatus.ASLEEP
+]);
+
+/**
+ * Periodically checks each connected device's last activity against the
+ * expected heartbeat interval
+ */
+export class HeartbeatWatchdog {
+  private deviceManager: DeviceManager;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private statusBeforeStale: Map<string, DeviceStatus> = new Map();
+  private onStatusChange: (deviceId: string) => void;
+
+  /**
+   * @param onStatusChange - Called whenever the watchdog changes a device's status
+   */
+  constructor(onStatusChange: (deviceId: string) => void) {
+    this.deviceManager = DeviceManager.getInstance();
+    this.onStatusChange = onStatusChange;
+    console.log('HeartbeatWatchdog initialized');
+  }
+
+  /**
+   * Start periodic liveness checks
+   */
+  public start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    this.checkTimer = setInterval(() => this.checkDevices(), config.heartbeat.checkIntervalMs);
+    console.log(`Heartbeat watchdog started (expecting heartbeats every ${config.heartbeat.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop periodic liveness checks
+   */
+  public stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+      console.log('Heartbeat watchdog stopped');
+    }
+  }
+
+  /**
+   * Record activity from a device (heartbeat, frame, command or pong)
+   * A stale device that is heard from again returns to its previous status.
+   * @param deviceId - Device ID
+   */
+  public recordActivity(deviceId: string): void {
+    this.deviceManager.touchDevice(deviceId);
+
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (device?.status === DeviceStatus.STALE) {
+      const previousStatus = this.statusBeforeStale.get(deviceId) ?? DeviceStatus.ONLINE;
+      this.statusBeforeStale.delete(deviceId);
+      this.deviceManager.updateDeviceStatus(deviceId, previousStatus, { reason: 'heard from again' });
+      console.log(`Device ${deviceId} recovered from stale state`);
+      this.onStatusChange(deviceId);
+    }
+  }
+
+  /**
+   * Check every watched device for missed heartbeats
+   */
+  private checkDevices(): void {
+    try {
+      const now = Date.now();
+
+      for (const device of this.deviceManager.getAllDevices()) {
+        // A rebooted or sleeping device that hasn't come back is flagged whatever its status
+        if (this.deviceManager.markPowerActionOverdue(device.deviceId)) {
+          this.onStatusChange(device.deviceId);
+        }
+
+        if (!WATCHED_STATUSES.has(device.status)) {
+          this.statusBeforeStale.delete(device.deviceId);
+          continue;
+        }
+
+        const silentMs = now - device.lastSeen.getTime();
+
+        if (device.status === DeviceStatus.ASLEEP) {
+          this.checkSleepingDevice(device, silentMs);
+        } else {
+          this.checkConnectedDevice(device, silentMs);
+        }
+      }
+    } catch (error) {
+      console.error('Error running heartbeat watchdog:', error);
+    }
+  }
+
+  /**
+   * Mark a connected device stale or offline depending on how long it has been silent
+   * @param device - Device to check
+   * @param silentMs - Time since the device was last heard from
+   */
+  private checkConnectedDevice(device: DeviceInfo, silentMs: number): void {
+    const { intervalMs, staleAfterMissed, offlineAfterMissed } = config.heartbeat;
+
+    if (silentMs > intervalMs * offlineAfterMissed) {
+      console.warn(`Device ${device.deviceId} missed ${offlineAfterMissed} heartbeats - marking offline`);
+      this.markOffline(device, `missed ${offlineAfterMissed} heartbeats`);
+      return;
+    }
+
+    if (silentMs > intervalMs * staleAfterMissed && device.status !== DeviceStatus.STALE) {
+      console.warn(`Device ${device.deviceId} missed ${staleAfterMissed} heartbeats - marking stale`);
+      this.statusBeforeStale.set(device.deviceId, device.status);
+      this.deviceManager.updateDeviceStatus(device.deviceId, DeviceStatus.STALE, {
+        reason: `missed ${staleAfterMissed} heartbeats`,
+        refreshLastSeen: false
+      });
+      this.onStatusChange(device.deviceId);
+    }
+
+    // Ask the TCP stack for proof of life; the pong counts as activity
+    if (silentMs > intervalMs && device.socket?.readyState === WebSocket.OPEN) {
+      device.socket.ping();
+    }
+  }
+
+  /**
+   * Mark a sleeping device offline once it has overslept its wake-up window
+   * @param device - Device to check
+   * @param silentMs - Time since the device announced sleep
+   */
+  private checkSleepingDevice(device: DeviceInfo, silentMs: number): void {
+    const timeoutMs = this.getSleepTimeout(device);
+
+    if (silentMs > timeoutMs) {
+      console.warn(`Device ${device.deviceId} did not wake within ${timeoutMs}ms - marking offline`);
+      this.markOffline(device, 'did not wake from sleep');
+    }
+  }
+
+  /**
+   * How long a sleeping device may stay silent before it is considered offline
+   * Always-on devices wake on a known interval, and devices put to sleep from
+   * the dashboard after a set time; allow at least that plus the usual
+   * heartbeat tolerance.
+   * @param device - Sleeping device
+   * @returns Timeout in milliseconds
+   */
+  private getSleepTimeout(device: DeviceInfo): number {
+    const { intervalMs, offlineAfterMissed, sleepTimeoutMs } = config.heartbeat;
+
+    let timeoutMs = sleepTimeoutMs;
+
+    const wakeInterval = device.config.alwaysOnInterval;
+    if (device.config.operationMode === 'always-on' && wakeInterval !== undefined) {
+      timeoutMs = Math.max(timeoutMs, wakeInterval + intervalMs * offlineAfterMissed);
+    }
+
+    const powerAction = device.powerAction;
+    if (powerAction?.action === 'sleep' && powerAction.state === 'awaiting_reconnect' && powerAction.durationMs !== undefined) {
+      timeoutMs = Math.max(timeoutMs, powerAction.durationMs + intervalMs * offlineAfterMissed);
+    }
+    return timeoutMs;
+  }
+
+  /**
+   * Drop a device's (half-open) connection and mark it offline
+   * @param device - Device to mark offline
+   * @param reason - Recorded in the status history
+   */
+  private markOffline(device: DeviceInfo, reason: string): void {
+    const socket = device.socket;
+
+    this.statusBeforeStale.delete(device.deviceId);
+    this.deviceManager.updateDeviceStatus(device.deviceId, DeviceStatus.OFFLINE, { reason, refreshLastSeen: false });
+
+    if (socket) {
+      this.deviceManager.removeSocket(device.deviceId, socket);
+      // terminate() skips the close handshake a dead peer would never answer
+      socket.terminate();
+    }
+
+    this.onStatusChange(device.deviceId);
+  }
+}
@@ -0,0 +1,386 @@
+/**
+ * JPEG Thumbnail Decoder
+ * Decodes the brightness of a baseline JPEG at 1/8 scale. Only the DC
+ * coefficient of each 8x8 luma block is kept, which is the block's average,
+ * so no inverse DCT or colour conversion is needed. The rest of the entropy
+ * coded data is walked but discarded.
+ */
+
+/**
+ * Grayscale image, one byte per pixel, row by row
+ */
+export interface LumaThumbnail {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * Canonical Huffman table in the form used by the JPEG decoding procedure (ITU T.81 F.2.2.3)
+ */
+interface HuffmanTable {
+  maxCode: Int32Array;  // Largest code of each length, -1 if none
+  valPtr: Int32Array;   // Index of the first value of each length
+  minCode: Int32Array;  // Smallest code of each length
+  values: Uint8Array;
+}
+
+/**
+ * A colour component from the frame header
+ */
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+}
+
+/**
+ * Build a decoding table from a DHT segment's code counts and values
+ * @param counts - Number of codes of each length 1-16
+ * @param values - Symbols in code order
+ * @returns Decoding table
+ */
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1]!;
+    if (count > 0) {
+      valPtr[length] = index;
+      minCode[length] = code;
+      code += count;
+      index += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff; // Stops a corrupt code from running past 16 bits
+
+  return { maxCode, valPtr, minCode, values };
+}
+
+/**
+ * Reads the entropy coded data of a scan bit by bit
+ * Removes the 0x00 stuffed after 0xFF bytes and stops at markers.
+ */
+class BitReader {
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, public position: number) {}
+
+  /**
+   * Read the next bit
+   */
+  public readBit(): number {
+    if (this.bitCount === 0) {
+      this.fill();
+    }
+    this.bitCount--;
+    return (this.bitBuffer >> this.bitCount) & 1;
+  }
+
+  /**
+   * Read an unsigned value, most significant bit first
+   * @param count - Number of bits
+   */
+  public readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  /**
+   * Read one Huffman coded symbol
+   * @param table - Table to decode with
+   */
+  public decode(table: HuffmanTable): number {
+    let code = this.readBit();
+    let length = 1;
+    while (code > table.maxCode[length]!) {
+      code = (code << 1) | this.readBit();
+      length++;
+      if (length > 16) {
+        throw new Error('Invalid Huffman code');
+      }
+    }
+    return table.values[table.valPtr[length]! + code - table.minCode[length]!]!;
+  }
+
+  /**
+   * Skip to the data after the next restart marker
+   */
+  public restart(): void {
+    this.bitCount = 0;
+    while (this.position + 1 < this.data.length) {
+      if (this.data[this.position] === 0xff && this.data[this.position + 1]! >= 0xd0 && this.data[this.position + 1]! <= 0xd7) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+
+  /**
+   * Load the next byte of entropy coded data
+   */
+  private fill(): void {
+    const byte = this.data[this.position];
+    if (byte === undefined) {
+      throw new Error('Unexpected end of JPEG data');
+    }
+
+    if (byte === 0xff) {
+      const next = this.data[this.position + 1];
+      if (next === 0x00) {
+        this.position += 2; // Stuffed byte
+      } else {
+        // A marker: the scan is over, so pad with zero bits without consuming it
+        this.bitBuffer = 0;
+        this.bitCount = 8;
+        return;
+      }
+    } else {
+      this.position++;
+    }
+
+    this.bitBuffer = byte;
+    this.bitCount = 8;
+  }
+}
+
+/**
+ * Decode a received DC difference or AC value of the given size
+ * @param bits - Raw bits
+ * @param size - Number of bits
+ * @returns Signed value
+ */
+function extend(bits: number, size: number): number {
+  return bits < 1 << (size - 1) ? bits - (1 << size) + 1 : bits;
+}
+
+/**
+ * Decode a JPEG's brightness at 1/8 of its width and height
+ * Supports baseline and extended sequential Huffman JPEGs, which is what
+ * camera sensors produce. Progressive and arithmetic coded images are rejected.
+ * @param jpeg - JPEG file contents
+ * @returns Thumbnail with one pixel per 8x8 block of the image
+ */
+export function decodeLumaThumbnail(jpeg: Uint8Array): LumaThumbnail {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG');
+  }
+
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  const quantDc: number[] = [];
+  let components: FrameComponent[] = [];
+  let width = 0;
+  let height = 0;
+  let restartInterval = 0;
+  let position = 2;
+
+  while (position + 4 <= jpeg.length) {
+    if (jpeg[position] !== 0xff) {
+      throw new Error(`Expected a marker at offset ${position}`);
+    }
+    const marker = jpeg[position + 1]!;
+    if (marker === 0xff) {
+      position++; // Fill byte
+      continue;
+    }
+
+    const length = (jpeg[position + 2]! << 8) | jpeg[position + 3]!;
+    const segment = position + 4;
+    const segmentEnd = position + 2 + length;
+
+    switch (marker) {
+      case 0xdb: { // DQT: only the DC entry of each table is needed
+        let offset = segment;
+        while (offset < segmentEnd) {
+          const precision = jpeg[offset]! >> 4;
+          const id = jpeg[offset]! & 0x0f;
+          quantDc[id] = precision ? (jpeg[offset + 1]! << 8) | jpeg[offset + 2]! : jpeg[offset + 1]!;
+          offset += 1 + 64 * (precision ? 2 : 1);
+        }
+        break;
+      }
+
+      case 0xc0: // SOF0 baseline
+      case 0xc1: { // SOF1 extended sequential
+        height = (jpeg[segment + 1]! << 8) | jpeg[segment + 2]!;
+        width = (jpeg[segment + 3]! << 8) | jpeg[segment + 4]!;
+        const count = jpeg[segment + 5]!;
+        components = [];
+        for (let i = 0; i < count; i++) {
+          const offset = segment + 6 + i * 3;
+          components.push({
+            id: jpeg[offset]!,
+            h: jpeg[offset + 1]! >> 4,
+            v: jpeg[offset + 1]! & 0x0f,
+            quantTable: jpeg[offset + 2]!
+          });
+        }
+        break;
+      }
+
+      case 0xc2: case 0xc3: case 0xc5: case 0xc6: case 0xc7:
+      case 0xc9: case 0xca: case 0xcb: case 0xcd: case 0xce: case 0xcf:
+        throw new Error('Only baseline JPEGs are supported');
+
+      case 0xc4: { // DHT
+        let offset = segment;
+        while (offset < segmentEnd) {
+          const tableClass = jpeg[offset]! >> 4;
+          const id = jpeg[offset]! & 0x0f;
+          const counts = jpeg.subarray(offset + 1, offset + 17);
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          const table = buildHuffmanTable(counts, jpeg.subarray(offset + 17, offset + 17 + total));
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+          offset += 17 + total;
+        }
+        break;
+      }
+
+      case 0xdd: // DRI
+        restartInterval = (jpeg[segment]! << 8) | jpeg[segment + 1]!;
+        break;
+
+      case 0xda: // SOS: the luma comes from the first scan
+        return decodeScan(jpeg, segment, segmentEnd, {
+          width, height, components, dcTables, acTables, quantDc, restartInterval
+        });
+
+      case 0xd9: // EOI
+        throw new Error('JPEG has no image data');
+    }
+
+    position = segmentEnd;
+  }
+
+  throw new Error('JPEG has no image data');
+}
+
+/**
+ * Tables and frame layout collected before the first scan
+ */
+interface DecoderState {
+  width: number;
+  height: number;
+  components: FrameComponent[];
+  dcTables: HuffmanTable[];
+  acTables: HuffmanTable[];
+  quantDc: number[];
+  restartInterval: number;
+}
+
+/**
+ * Decode the DC coefficients of the luma component from a scan
+ * @param jpeg - JPEG file contents
+ * @param header - Offset of the scan header
+ * @param dataStart - Offset of the entropy coded data
+ * @param state - Tables and frame layout
+ * @returns The luma thumbnail
+ */
+function decodeScan(jpeg: Uint8Array, header: number, dataStart: number, state: DecoderState): LumaThumbnail {
+  const { width, height, components, restartInterval } = state;
+  const luma = components[0];
+  if (!luma || width === 0 || height === 0) {
+    throw new Error('JPEG scan before frame header');
+  }
+
+  const scanCount = jpeg[header]!;
+  const scanComponents = [];
+  for (let i = 0; i < scanCount; i++) {
+    const id = jpeg[header + 1 + i * 2]!;
+    const tables = jpeg[header + 2 + i * 2]!;
+    const component = components.find(candidate => candidate.id === id);
+    const dcTable = state.dcTables[tables >> 4];
+    const acTable = state.acTables[tables & 0x0f];
+    if (!component || !dcTable || !acTable) {
+      throw new Error('JPEG scan refers to a missing component or table');
+    }
+    scanComponents.push({ component, dcTable, acTable, predictor: 0 });
+  }
+  if (scanComponents[0]?.component !== luma) {
+    throw new Error('JPEG first scan does not contain luma');
+  }
+
+  const maxH = Math.max(...components.map(component => component.h));
+  const maxV = Math.max(...components.map(component => component.v));
+  const thumbWidth = Math.ceil(width / 8);
+  const thumbHeight = Math.ceil(height / 8);
+  const pixels = new Uint8Array(thumbWidth * thumbHeight);
+  const quant = state.quantDc[luma.quantTable] ?? 1;
+
+  // A single-component scan is not interleaved: one block per MCU across the component
+  const interleaved = scanCount > 1;
+  const lumaWidth = Math.ceil((width * luma.h) / maxH / 8);
+  const mcusX = interleaved ? Math.ceil(width / (8 * maxH)) : lumaWidth;
+  const mcusY = interleaved ? Math.ceil(height / (8 * maxV)) : Math.ceil((height * luma.v) / maxV / 8);
+
+  const reader = new BitReader(jpeg, dataStart);
+  const mcuCount = mcusX * mcusY;
+
+  for (let mcu = 0; mcu < mcuCount; mcu++) {
+    if (restartInterval > 0 && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      for (const scanComponent of scanComponents) {
+        scanComponent.predictor = 0;
+      }
+    }
+
+    const mcuX = mcu % mcusX;
+    const mcuY = Math.floor(mcu / mcusX);
+
+    for (const scanComponent of scanComponents) {
+      const blocksH = interleaved ? scanComponent.component.h : 1;
+      const blocksV = interleaved ? scanComponent.component.v : 1;
+
+      for (let v = 0; v < blocksV; v++) {
+        for (let h = 0; h < blocksH; h++) {
+          const size = reader.decode(scanComponent.dcTable);
+          scanComponent.predictor += size ? extend(reader.readBits(size), size) : 0;
+
+          // Skip the AC coefficients
+          for (let k = 1; k < 64; k++) {
+            const symbol = reader.decode(scanComponent.acTable);
+            const run = symbol >> 4;
+            const acSize = symbol & 0x0f;
+            if (acSize === 0) {
+              if (run !== 15) {
+                break; // End of block
+              }
+              k += 15;
+            } else {
+              k += run;
+              reader.readBits(acSize);
+            }
+          }
+
+          if (scanComponent.component !== luma) {
+            continue;
+          }
+
+          // Chroma subsampling decides how many luma blocks an MCU holds
+          const blockX = interleaved ? mcuX * luma.h + h : mcuX;
+          const blockY = interleaved ? mcuY * luma.v + v : mcuY;
+          if (blockX < thumbWidth && blockY < thumbHeight) {
+            // DC is eight times the block's average, level shifted by 128
+            const value = Math.round((scanComponent.predictor * quant) / 8) + 128;
+            pixels[blockY * thumbWidth + blockX] = value < 0 ? 0 : value > 255 ? 255 : value;
+          }
+        }
+      }
+    }
+  }
+
+  return { width: thumbWidth, height: thumbHeight, pixels };
+}
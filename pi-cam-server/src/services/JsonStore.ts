@@ -0,0 +1,150 @@
+/**
+ * JSON Store
+ * Persists server state to disk as JSON using atomic writes
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config.js';
+
+/**
+ * File-backed JSON store
+ * Writes go to a temporary file which is then renamed over the target,
+ * so a crash or power cut never leaves a half-written file behind.
+ */
+export class JsonStore<T> {
+  private filePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+  private saveTimer: NodeJS.Timeout | null = null;
+  private pendingSnapshot: (() => T) | null = null;
+  private savesBlocked = false;
+
+  /**
+   * @param filename - File name inside the configured data directory
+   */
+  constructor(filename: string) {
+    this.filePath = path.join(config.storage.dataDirectory, filename);
+  }
+
+  /**
+   * Load stored data from disk
+   * A file that doesn't parse is moved aside to `<file>.corrupt-<timestamp>`
+   * rather than overwritten by the next save, so it can be recovered by hand.
+   * @returns Parsed data, or undefined if the file does not exist or is unreadable
+   */
+  public async load(): Promise<T | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error loading ${this.filePath}:`, error);
+      }
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      console.error(`Error parsing ${this.filePath}:`, error);
+      await this.quarantine();
+      return undefined;
+    }
+  }
+
+  /**
+   * Write data to disk immediately
+   * Writes are serialized so that concurrent saves land in call order.
+   * @param data - Data to persist
+   */
+  public save(data: T): Promise<void> {
+    if (this.savesBlocked) {
+      console.warn(`Not saving ${this.filePath}: the unreadable file on disk could not be moved aside`);
+      return this.writeChain;
+    }
+
+    const contents = JSON.stringify(data, null, 2);
+
+    this.writeChain = this.writeChain
+      .then(() => this.writeAtomic(contents))
+      .catch((error) => {
+        console.error(`Error saving ${this.filePath}:`, error);
+      });
+
+    return this.writeChain;
+  }
+
+  /**
+   * Schedule a debounced save
+   * Frequent updates within the debounce window collapse into a single write.
+   * @param snapshot - Function producing the data to persist at write time
+   */
+  public scheduleSave(snapshot: () => T): void {
+    this.pendingSnapshot = snapshot;
+
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      const pending = this.pendingSnapshot;
+      this.pendingSnapshot = null;
+      if (pending) {
+        void this.save(pending());
+      }
+    }, config.storage.saveDebounceMs);
+  }
+
+  /**
+   * Write any scheduled save immediately and wait for all writes to finish
+   */
+  public async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const pending = this.pendingSnapshot;
+    this.pendingSnapshot = null;
+    if (pending) {
+      await this.save(pending());
+    }
+
+    await this.writeChain;
+  }
+
+  /**
+   * Move an unreadable file out of the way of future saves
+   * If that fails, saves are refused so the file is never overwritten.
+   */
+  private async quarantine(): Promise<void> {
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    try {
+      await fs.rename(this.filePath, corruptPath);
+      console.error(`Moved unreadable ${this.filePath} to ${corruptPath}`);
+    } catch (error) {
+      this.savesBlocked = true;
+      console.error(`Could not move unreadable ${this.filePath} aside, refusing to overwrite it:`, error);
+    }
+  }
+
+  /**
+   * Write contents to a temporary file, sync it and rename it over the target
+   * @param contents - Serialized file contents
+   */
+  private async writeAtomic(contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Motion Detector Service
+ * Runs server-side motion detection for cameras that have it enabled and
+ * turns the per-frame results into motion start and end events
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import config from '../config.js';
+import { DeviceManager, MotionSettings } from './DeviceManager.js';
+import { MotionLog, MotionEvent } from './MotionLog.js';
+import type { MotionWorkerMessage, MotionWorkerRequest, MotionWorkerResult } from './MotionWorker.js';
+
+// Wait this long before starting a failed worker again
+const WORKER_RESTART_DELAY_MS = 10000;
+
+// The worker is next to this module: a .js file in the build, a .ts file when ts-node runs the sources (npm run dev)
+const WORKER_URL = new URL(`./MotionWorker${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url);
+
+/**
+ * Whether motion began or ended
+ */
+export type MotionChange = 'start' | 'end';
+
+/**
+ * Motion state of a device
+ */
+interface DeviceMotionState {
+  event?: MotionEvent;        // Open event while motion is ongoing
+  lastMotionAt: number;
+  endTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Translate a 1-100 sensitivity into a per-pixel brightness threshold
+ * At 100 a change of 2 (of 255) counts; at 1 it takes about 60.
+ * @param sensitivity - Motion sensitivity
+ * @returns Brightness change for a pixel to count as changed
+ */
+export function getPixelThreshold(sensitivity: number): number {
+  return Math.round(2 + (100 - sensitivity) * 0.6);
+}
+
+/**
+ * Sends frames to the motion worker and tracks motion per device
+ * At most one frame per device is analysed at a time, and no more often
+ * than motion.analysisIntervalMs; other frames are skipped.
+ */
+export class MotionDetector {
+  private deviceManager: DeviceManager;
+  private motionLog: MotionLog;
+  private worker: Worker | null = null;
+  private workerFailedAt = 0;
+  private workerUnavailable = false; // The worker failed to load, which a restart won't fix
+  private inFlight: Set<string> = new Set();
+  private discardResults: Set<string> = new Set();
+  private failingDevices: Set<string> = new Set();
+  private lastAnalysedAt: Map<string, number> = new Map();
+  private states: Map<string, DeviceMotionState> = new Map();
+  private onMotion: (event: MotionEvent, change: MotionChange) => void;
+
+  /**
+   * @param onMotion - Called when motion starts or ends on a device
+   */
+  constructor(onMotion: (event: MotionEvent, change: MotionChange) => void) {
+    this.deviceManager = DeviceManager.getInstance();
+    this.motionLog = MotionLog.getInstance();
+    this.onMotion = onMotion;
+    console.log('MotionDetector initialized');
+  }
+
+  /**
+   * Whether motion decides when a device records
+   * Without a working worker, devices record whenever they stream instead.
+   * @param deviceId - Device ID
+   */
+  public controlsRecording(deviceId: string): boolean {
+    const settings = this.getSettings(deviceId);
+    return !this.workerUnavailable && settings !== undefined && settings.enabled && settings.triggerRecording;
+  }
+
+  /**
+   * Whether a device currently sees motion
+   * @param deviceId - Device ID
+   */
+  public isMotionActive(deviceId: string): boolean {
+    return this.states.get(deviceId)?.event !== undefined;
+  }
+
+  /**
+   * Queue a frame for analysis if the device has motion detection enabled
+   * @param deviceId - Device ID
+   * @param frame - JPEG frame
+   */
+  public analyzeFrame(deviceId: string, frame: Buffer): void {
+    const settings = this.getSettings(deviceId);
+    if (!settings?.enabled || this.inFlight.has(deviceId)) {
+      return;
+    }
+
+    const now = Date.now();
+    if (now - (this.lastAnalysedAt.get(deviceId) ?? 0) < config.motion.analysisIntervalMs) {
+      return;
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return;
+    }
+
+    // A copy can be moved to the worker without touching the frame still being recorded
+    const copy = new Uint8Array(frame);
+    const request: MotionWorkerRequest = {
+      type: 'analyze',
+      deviceId,
+      frame: copy,
+      pixelThreshold: getPixelThreshold(settings.sensitivity)
+    };
+
+    this.lastAnalysedAt.set(deviceId, now);
+    this.inFlight.add(deviceId);
+    worker.postMessage(request, [copy.buffer]);
+  }
+
+  /**
+   * End a device's motion and drop its reference frame, e.g. when it disconnects
+   * @param deviceId - Device ID
+   */
+  public forgetDevice(deviceId: string): void {
+    this.endMotion(deviceId);
+    this.states.delete(deviceId);
+    this.lastAnalysedAt.delete(deviceId);
+    if (this.inFlight.has(deviceId)) {
+      this.discardResults.add(deviceId);
+    }
+
+    const request: MotionWorkerRequest = { type: 'forget', deviceId };
+    this.worker?.postMessage(request);
+  }
+
+  /**
+   * End all motion and stop the worker
+   */
+  public async stop(): Promise<void> {
+    for (const deviceId of this.states.keys()) {
+      this.endMotion(deviceId);
+    }
+
+    const worker = this.worker;
+    this.worker = null;
+    this.inFlight.clear();
+    if (worker) {
+      await worker.terminate();
+      console.log('Motion worker stopped');
+    }
+  }
+
+  /**
+   * Handle the worker's verdict on a frame
+   * @param result - Analysis result
+   */
+  private handleResult(result: MotionWorkerResult): void {
+    const { deviceId, changedPercent } = result;
+    this.inFlight.delete(deviceId);
+    if (this.discardResults.delete(deviceId)) {
+      return; // The device was forgotten while its frame was being analysed
+    }
+
+    // Log a device's undecodable frames once, not at every frame
+    if (result.error) {
+      if (!this.failingDevices.has(deviceId)) {
+        this.failingDevices.add(deviceId);
+        console.warn(`Motion detection can't read frames from ${deviceId}: ${result.error}`);
+      }
+      return;
+    }
+    this.failingDevices.delete(deviceId);
+
+    const settings = this.getSettings(deviceId);
+    if (settings?.enabled && changedPercent !== null && changedPercent >= settings.minAreaPercent) {
+      this.recordMotion(deviceId, changedPercent);
+    }
+  }
+
+  /**
+   * Start or extend a device's motion event
+   * @param deviceId - Device ID
+   * @param areaPercent - Share of the picture that changed
+   */
+  private recordMotion(deviceId: string, areaPercent: number): void {
+    let state = this.states.get(deviceId);
+    if (!state) {
+      state = { lastMotionAt: 0 };
+      this.states.set(deviceId, state);
+    }
+    state.lastMotionAt = Date.now();
+
+    if (!state.event) {
+      state.event = this.motionLog.startEvent(deviceId, areaPercent);
+      console.log(`Motion started on ${deviceId} (${areaPercent.toFixed(1)}% of the picture changed)`);
+      this.onMotion(state.event, 'start');
+    } else if (areaPercent > state.event.peakAreaPercent) {
+      state.event.peakAreaPercent = areaPercent;
+    }
+
+    // Also ends the motion when the device stops sending frames
+    clearTimeout(state.endTimer);
+    state.endTimer = setTimeout(() => this.endMotion(deviceId), config.motion.endAfterMs);
+  }
+
+  /**
+   * Close a device's open motion event
+   * @param deviceId - Device ID
+   */
+  private endMotion(deviceId: string): void {
+    const state = this.states.get(deviceId);
+    const event = state?.event;
+    if (!state || !event) {
+      return;
+    }
+
+    clearTimeout(state.endTimer);
+    delete state.endTimer;
+    delete state.event;
+
+    this.motionLog.endEvent(event, new Date(state.lastMotionAt));
+    console.log(`Motion ended on ${deviceId}`);
+    this.onMotion(event, 'end');
+  }
+
+  /**
+   * Motion settings of a device
+   * @param deviceId - Device ID
+   * @returns Settings in effect, or undefined for an unknown device
+   */
+  private getSettings(deviceId: string): MotionSettings | undefined {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    return device ? this.deviceManager.getMotionSettings(device).settings : undefined;
+  }
+
+  /**
+   * Get the running worker, starting it if needed
+   * @returns The worker, or null while a failed worker waits to be restarted
+   */
+  private getWorker(): Worker | null {
+    if (this.worker) {
+      return this.worker;
+    }
+    if (this.workerUnavailable || Date.now() - this.workerFailedAt < WORKER_RESTART_DELAY_MS) {
+      return null;
+    }
+
+    try {
+      const worker = new Worker(WORKER_URL);
+      let ready = false;
+      let loadError: Error | undefined;
+
+      worker.on('message', (message: MotionWorkerMessage) => {
+        if (message.type === 'ready') {
+          ready = true;
+          console.log('Motion worker started');
+        } else {
+          this.handleResult(message);
+        }
+      });
+      worker.on('error', error => {
+        if (ready) {
+          console.error('Motion worker error:', error);
+        } else {
+          loadError = error;
+        }
+      });
+      worker.on('exit', code => {
+        if (this.worker !== worker) {
+          return; // Stopped on purpose
+        }
+        this.worker = null;
+        this.inFlight.clear();
+        this.discardResults.clear();
+
+        if (!ready) {
+          this.workerUnavailable = true;
+          console.error(`Motion worker ${WORKER_URL.href} failed to load, motion detection is disabled until the server restarts:`, loadError ?? `exit code ${code}`);
+          return;
+        }
+        console.warn(`Motion worker exited with code ${code}; restarting it on a later frame`);
+        this.workerFailedAt = Date.now();
+      });
+      // Shutdown doesn't wait for the worker
+      worker.unref();
+
+      this.worker = worker;
+      return worker;
+    } catch (error) {
+      console.error('Failed to start motion worker:', error);
+      this.workerFailedAt = Date.now();
+      return null;
+    }
+  }
+}
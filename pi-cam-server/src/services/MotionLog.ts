@@ -0,0 +1,193 @@
+/**
+ * Motion Log Service
+ * Keeps the motion events found by server-side motion detection, so they
+ * can be shown on the recordings timeline
+ */
+
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * A period of motion seen by a device
+ */
+export interface MotionEvent {
+  id: string;
+  deviceId: string;
+  startedAt: string;
+  endedAt?: string;          // Unset while the motion is ongoing
+  peakAreaPercent: number;   // Largest share of the picture that changed
+}
+
+/**
+ * On-disk format of the motion log
+ */
+interface MotionLogFile {
+  version: number;
+  devices: Record<string, MotionEvent[]>;
+}
+
+/**
+ * Singleton Motion Log class
+ * Keeps a bounded, time-ordered list of events per device
+ */
+export class MotionLog {
+  private static instance: MotionLog;
+  private events: Map<string, MotionEvent[]> = new Map();
+  private store: JsonStore<MotionLogFile> = new JsonStore(config.storage.motionEventsFile);
+
+  private constructor() {
+    console.log('MotionLog initialized');
+  }
+
+  /**
+   * Get singleton instance of MotionLog
+   */
+  public static getInstance(): MotionLog {
+    if (!MotionLog.instance) {
+      MotionLog.instance = new MotionLog();
+    }
+    return MotionLog.instance;
+  }
+
+  /**
+   * Load persisted motion events from disk
+   */
+  public async loadLog(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const [deviceId, events] of Object.entries(data.devices)) {
+        // Motion still open when the server stopped; its real end is unknown
+        for (const event of events) {
+          event.endedAt ??= event.startedAt;
+        }
+        this.events.set(deviceId, events);
+      }
+
+      console.log(`Loaded motion events for ${this.events.size} devices`);
+    } catch (error) {
+      console.error('Error loading motion log:', error);
+    }
+  }
+
+  /**
+   * Write any pending motion events to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Record the start of motion
+   * @param deviceId - Device that saw it
+   * @param areaPercent - Share of the picture that changed
+   * @returns The open event
+   */
+  public startEvent(deviceId: string, areaPercent: number): MotionEvent {
+    let events = this.events.get(deviceId);
+    if (!events) {
+      events = [];
+      this.events.set(deviceId, events);
+    }
+
+    const event: MotionEvent = {
+      id: crypto.randomUUID(),
+      deviceId,
+      startedAt: new Date().toISOString(),
+      peakAreaPercent: areaPercent
+    };
+    events.push(event);
+
+    const excess = events.length - config.motion.maxEventsPerDevice;
+    if (excess > 0) {
+      events.splice(0, excess);
+    }
+
+    this.persist();
+    return event;
+  }
+
+  /**
+   * Record the end of motion
+   * @param event - Open event
+   * @param at - When the last motion was seen
+   */
+  public endEvent(event: MotionEvent, at: Date): void {
+    event.endedAt = at.toISOString();
+    this.persist();
+  }
+
+  /**
+   * Get the events of a device that overlap a time range
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @returns Events in chronological order
+   */
+  public getEvents(deviceId: string, from: Date, to: Date): MotionEvent[] {
+    const fromTime = from.getTime();
+    const toTime = to.getTime();
+
+    return (this.events.get(deviceId) ?? []).filter(event =>
+      Date.parse(event.startedAt) <= toTime &&
+      (event.endedAt === undefined || Date.parse(event.endedAt) >= fromTime)
+    );
+  }
+
+  /**
+   * Get the most recent event of a device
+   * @param deviceId - Device ID
+   */
+  public getLastEvent(deviceId: string): MotionEvent | undefined {
+    return this.events.get(deviceId)?.at(-1);
+  }
+
+  /**
+   * Forget every event of a device
+   * @param deviceId - Device ID
+   */
+  public removeDevice(deviceId: string): void {
+    if (this.events.delete(deviceId)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Drop events older than the retention window
+   * @returns Number of events removed
+   */
+  public pruneEvents(): number {
+    const cutoff = Date.now() - config.motion.retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const [deviceId, events] of this.events) {
+      const kept = events.filter(event => event.endedAt === undefined || Date.parse(event.endedAt) > cutoff);
+      removed += events.length - kept.length;
+      if (kept.length === 0) {
+        this.events.delete(deviceId);
+      } else {
+        this.events.set(deviceId, kept);
+      }
+    }
+
+    if (removed > 0) {
+      this.persist();
+      console.log(`Pruned ${removed} motion events`);
+    }
+    return removed;
+  }
+
+  /**
+   * Schedule a save of the motion log
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      devices: Object.fromEntries(this.events)
+    }));
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Motion Worker
+ * Runs in a worker thread, off the WebSocket loop: decodes frames to 1/8
+ * scale brightness thumbnails and compares each with the device's previous one
+ */
+
+import { parentPort } from 'worker_threads';
+import { decodeLumaThumbnail, LumaThumbnail } from './JpegThumbnail.js';
+
+/**
+ * Analyse a frame of a device
+ */
+export interface AnalyzeFrameRequest {
+  type: 'analyze';
+  deviceId: string;
+  frame: Uint8Array;
+  pixelThreshold: number; // Brightness change (0-255) for a pixel to count as changed
+}
+
+/**
+ * Drop the reference frame of a device
+ */
+export interface ForgetDeviceRequest {
+  type: 'forget';
+  deviceId: string;
+}
+
+export type MotionWorkerRequest = AnalyzeFrameRequest | ForgetDeviceRequest;
+
+/**
+ * Sent once the worker has loaded and takes requests
+ */
+export interface MotionWorkerReady {
+  type: 'ready';
+}
+
+/**
+ * Outcome of analysing a frame
+ */
+export interface MotionWorkerResult {
+  type: 'result';
+  deviceId: string;
+  changedPercent: number | null; // Share of the picture that changed; null without a reference frame
+  error?: string;                // Why the frame could not be analysed
+}
+
+export type MotionWorkerMessage = MotionWorkerReady | MotionWorkerResult;
+
+const previousFrames: Map<string, LumaThumbnail> = new Map();
+
+/**
+ * Measure how much of the picture changed between two thumbnails
+ * A brightness shift of the whole picture, e.g. from auto exposure or a
+ * passing cloud, is not motion. The median difference is taken as that
+ * shift, which a moving object covering less than half the picture can't skew.
+ * @param previous - Reference thumbnail
+ * @param current - New thumbnail of the same size
+ * @param pixelThreshold - Brightness change for a pixel to count as changed
+ * @returns Percentage of changed pixels, to one decimal
+ */
+function compareThumbnails(previous: LumaThumbnail, current: LumaThumbnail, pixelThreshold: number): number {
+  const count = current.pixels.length;
+  const histogram = new Uint32Array(511); // Differences -255..255
+  for (let i = 0; i < count; i++) {
+    histogram[current.pixels[i]! - previous.pixels[i]! + 255]!++;
+  }
+
+  let shift = -255;
+  for (let seen = 0; shift < 255; shift++) {
+    seen += histogram[shift + 255]!;
+    if (seen * 2 >= count) {
+      break;
+    }
+  }
+
+  let changed = 0;
+  for (let i = 0; i < count; i++) {
+    if (Math.abs(current.pixels[i]! - previous.pixels[i]! - shift) > pixelThreshold) {
+      changed++;
+    }
+  }
+  return Math.round((changed * 1000) / count) / 10;
+}
+
+/**
+ * Analyse a frame against the device's previous frame
+ * @param request - Frame and threshold
+ * @returns Result to send back
+ */
+function analyzeFrame(request: AnalyzeFrameRequest): MotionWorkerResult {
+  const { deviceId } = request;
+  try {
+    const current = decodeLumaThumbnail(request.frame);
+    const previous = previousFrames.get(deviceId);
+    previousFrames.set(deviceId, current);
+
+    // The first frame, or the resolution changed: nothing to compare with yet
+    if (!previous || previous.width !== current.width || previous.height !== current.height) {
+      return { type: 'result', deviceId, changedPercent: null };
+    }
+
+    return { type: 'result', deviceId, changedPercent: compareThumbnails(previous, current, request.pixelThreshold) };
+  } catch (error) {
+    return { type: 'result', deviceId, changedPercent: null, error: (error as Error).message };
+  }
+}
+
+parentPort?.on('message', (request: MotionWorkerRequest) => {
+  switch (request.type) {
+    case 'analyze':
+      parentPort?.postMessage(analyzeFrame(request));
+      break;
+
+    case 'forget':
+      previousFrames.delete(request.deviceId);
+      break;
+  }
+});
+
+// Lets the detector tell a worker that loaded from one that failed to
+const ready: MotionWorkerReady = { type: 'ready' };
+parentPort?.postMessage(ready);
@@ -0,0 +1,196 @@
+/**
+ * Recording Recovery Service
+ * Finalises recording segments and repairs the ones left unfinished by a
+ * crash, power cut or killed FFmpeg
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import config from '../config.js';
+
+// Sits next to a segment while FFmpeg is writing it
+const OPEN_MARKER_SUFFIX = '.partial';
+
+/**
+ * What was done with an unfinished segment
+ */
+export type RecoveryOutcome = 'complete' | 'repaired' | 'removed' | 'unrecoverable';
+
+/**
+ * Summary of a recovery pass
+ */
+export interface RecoverySummary {
+  checked: number;
+  repaired: string[];
+  removed: string[];
+  unrecoverable: string[];
+}
+
+/**
+ * Layout of an MP4 file's top-level boxes
+ */
+interface Mp4Layout {
+  size: number;
+  hasMoov: boolean;
+  mediaBoxes: number; // Complete mdat boxes, i.e. footage that can be played
+  validEnd: number;   // Offset after the last complete fragment
+}
+
+/**
+ * Walk the top-level boxes of an MP4 file
+ * A moof only counts once the mdat that follows it is complete, so a
+ * fragment cut off mid-write ends the valid part of the file.
+ * @param filePath - MP4 file
+ * @returns Where the intact part of the file ends and what it contains
+ */
+async function readMp4Layout(filePath: string): Promise<Mp4Layout> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const header = Buffer.alloc(16);
+    const layout: Mp4Layout = { size, hasMoov: false, mediaBoxes: 0, validEnd: 0 };
+    let position = 0;
+
+    while (position + 8 <= size) {
+      await handle.read(header, 0, 16, position);
+      const type = header.toString('latin1', 4, 8);
+      let boxSize = header.readUInt32BE(0);
+      let headerSize = 8;
+
+      if (boxSize === 1) {
+        // 64-bit size follows the type
+        boxSize = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (boxSize === 0) {
+        boxSize = size - position; // Box runs to the end of the file
+      }
+
+      if (boxSize < headerSize || position + boxSize > size) {
+        break; // Truncated or garbage
+      }
+
+      position += boxSize;
+      if (type === 'moov') {
+        layout.hasMoov = true;
+      } else if (type === 'mdat') {
+        layout.mediaBoxes++;
+      }
+      if (type !== 'moof') {
+        layout.validEnd = position;
+      }
+    }
+
+    return layout;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Service that keeps recording segments playable
+ */
+export class RecordingRecovery {
+  /**
+   * Flag a segment as being written
+   * @param filePath - Segment FFmpeg is about to write
+   */
+  public async markOpen(filePath: string): Promise<void> {
+    await fs.writeFile(`${filePath}${OPEN_MARKER_SUFFIX}`, new Date().toISOString());
+  }
+
+  /**
+   * Check a segment FFmpeg has stopped writing, repairing it if needed
+   * Segments are fragmented MP4, so cutting off a partly written
+   * fragment leaves a file that plays up to that point.
+   * @param filePath - Segment file
+   * @returns What was done with the file
+   */
+  public async finalize(filePath: string): Promise<RecoveryOutcome> {
+    let outcome: RecoveryOutcome;
+
+    try {
+      const layout = await readMp4Layout(filePath);
+
+      if (!layout.hasMoov) {
+        // Nothing to index the footage with; only an empty file is safe to drop
+        if (layout.size === 0) {
+          await fs.rm(filePath, { force: true });
+          outcome = 'removed';
+        } else {
+          outcome = 'unrecoverable';
+        }
+      } else if (layout.mediaBoxes === 0) {
+        await fs.rm(filePath, { force: true }); // Headers only, no footage
+        outcome = 'removed';
+      } else if (layout.validEnd < layout.size) {
+        await fs.truncate(filePath, layout.validEnd);
+        outcome = 'repaired';
+      } else {
+        outcome = 'complete';
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      outcome = 'removed'; // FFmpeg never created it
+    }
+
+    await fs.rm(`${filePath}${OPEN_MARKER_SUFFIX}`, { force: true });
+    return outcome;
+  }
+
+  /**
+   * Repair every segment the previous run left open
+   * Must run before recording starts, when no segment is legitimately open.
+   * @returns What was found and done
+   */
+  public async recoverAll(): Promise<RecoverySummary> {
+    const summary: RecoverySummary = { checked: 0, repaired: [], removed: [], unrecoverable: [] };
+    const recordingsPath = config.video.recordingsPath;
+
+    let deviceDirs: string[];
+    try {
+      deviceDirs = await fs.readdir(recordingsPath);
+    } catch {
+      return summary; // Nothing recorded yet
+    }
+
+    for (const deviceDir of deviceDirs) {
+      const devicePath = path.join(recordingsPath, deviceDir);
+      if (!(await fs.stat(devicePath)).isDirectory()) {
+        continue;
+      }
+
+      for (const dateDir of await fs.readdir(devicePath)) {
+        const datePath = path.join(devicePath, dateDir);
+        if (!(await fs.stat(datePath)).isDirectory()) {
+          continue;
+        }
+
+        const markers = (await fs.readdir(datePath)).filter(file => file.endsWith(OPEN_MARKER_SUFFIX));
+        for (const marker of markers) {
+          const filePath = path.join(datePath, marker.slice(0, -OPEN_MARKER_SUFFIX.length));
+          summary.checked++;
+
+          try {
+            const outcome = await this.finalize(filePath);
+            if (outcome !== 'complete') {
+              summary[outcome].push(filePath);
+            }
+          } catch (error) {
+            console.error(`Error recovering recording ${filePath}:`, error);
+            summary.unrecoverable.push(filePath);
+          }
+        }
+      }
+    }
+
+    if (summary.checked > 0) {
+      console.log(`Recording recovery: ${summary.checked} unfinished segment(s), ${summary.repaired.length} repaired, ${summary.removed.length} removed, ${summary.unrecoverable.length} unrecoverable`);
+    }
+    for (const filePath of summary.unrecoverable) {
+      console.warn(`Recording ${filePath} has no index and could not be repaired`);
+    }
+    return summary;
+  }
+}
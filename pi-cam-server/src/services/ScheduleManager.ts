@@ -0,0 +1,488 @@
+/**
+ * Schedule Manager Service
+ * Weekly time-of-day schedules that switch a device's operation mode and
+ * camera settings (e.g. continuous at night, motion-triggered by day)
+ */
+
+import cron from 'node-cron';
+import crypto from 'crypto';
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+import { DeviceManager, DeviceConfig, DeviceInfo } from './DeviceManager.js';
+import { GroupManager } from './GroupManager.js';
+import { validateDeviceConfig } from '../validation/deviceSchema.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * What a schedule applies to
+ */
+export interface ScheduleTarget {
+  type: 'device' | 'group';
+  id: string;
+}
+
+/**
+ * A point in the week from which a set of config values applies
+ * The entry stays in effect until the next entry in the week starts.
+ */
+export interface ScheduleEntry {
+  entryId: string;
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  time: string;   // HH:MM in the scheduler's timezone
+  config: Partial<DeviceConfig>;
+}
+
+/**
+ * A weekly schedule for one device or group
+ */
+export interface Schedule {
+  scheduleId: string;
+  name: string;
+  target: ScheduleTarget;
+  enabled: boolean;
+  entries: ScheduleEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Schedule fields supplied when creating or replacing a schedule
+ */
+export interface ScheduleInput {
+  name: string;
+  target: ScheduleTarget;
+  enabled: boolean;
+  entries: Omit<ScheduleEntry, 'entryId'>[];
+}
+
+/**
+ * The entry currently in effect for a device
+ */
+export interface ActiveScheduleEntry {
+  scheduleId: string;
+  scheduleName: string;
+  target: ScheduleTarget;
+  entry: ScheduleEntry;
+  startedAt: string; // Most recent time the entry came into effect
+}
+
+/**
+ * Record of the last entry pushed to a device
+ * Entries are applied once when they start, so manual changes made
+ * afterwards stand until the next entry begins.
+ */
+export interface AppliedSchedule {
+  scheduleId: string;
+  entryId: string;
+  appliedAt: string;
+  skippedFields?: string[]; // Fields the device's hardware doesn't support
+}
+
+/**
+ * On-disk format of the schedule list
+ */
+interface SchedulesFile {
+  version: number;
+  schedules: Schedule[];
+  applied: Record<string, AppliedSchedule>;
+}
+
+/**
+ * Singleton Schedule Manager class
+ * Stores schedules and applies them to devices from a per-minute cron task
+ */
+export class ScheduleManager {
+  private static instance: ScheduleManager;
+  private deviceManager: DeviceManager = DeviceManager.getInstance();
+  private groupManager: GroupManager = GroupManager.getInstance();
+  private schedules: Map<string, Schedule> = new Map();
+  private applied: Map<string, AppliedSchedule> = new Map();
+  private store: JsonStore<SchedulesFile> = new JsonStore(config.storage.schedulesFile);
+  private scheduleTask: cron.ScheduledTask | null = null;
+  private onApplied: ((deviceId: string) => void) | null = null;
+  private weekdayFormat: Intl.DateTimeFormat = new Intl.DateTimeFormat('en-US', {
+    timeZone: config.schedules.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  });
+
+  private constructor() {
+    console.log('ScheduleManager initialized');
+  }
+
+  /**
+   * Get singleton instance of ScheduleManager
+   */
+  public static getInstance(): ScheduleManager {
+    if (!ScheduleManager.instance) {
+      ScheduleManager.instance = new ScheduleManager();
+    }
+    return ScheduleManager.instance;
+  }
+
+  /**
+   * Load persisted schedules from disk
+   */
+  public async loadSchedules(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const schedule of data.schedules) {
+        this.schedules.set(schedule.scheduleId, schedule);
+      }
+      for (const [deviceId, applied] of Object.entries(data.applied ?? {})) {
+        this.applied.set(deviceId, applied);
+      }
+
+      console.log(`Loaded ${data.schedules.length} schedules`);
+    } catch (error) {
+      console.error('Error loading schedules:', error);
+    }
+  }
+
+  /**
+   * Write any pending schedule changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Start evaluating schedules
+   * Runs once immediately so that entries that began while the server was
+   * down take effect without waiting for the next tick.
+   * @param onApplied - Called for each device whose config a schedule changed
+   */
+  public start(onApplied: (deviceId: string) => void): void {
+    this.onApplied = onApplied;
+
+    try {
+      this.scheduleTask = cron.schedule(config.schedules.checkSchedule, () => {
+        this.applySchedules();
+      }, {
+        scheduled: true,
+        timezone: config.schedules.timezone
+      });
+
+      console.log(`Schedule evaluation started (timezone: ${config.schedules.timezone})`);
+    } catch (error) {
+      console.error('Error starting schedule evaluation:', error);
+    }
+
+    this.applySchedules();
+  }
+
+  /**
+   * Stop evaluating schedules
+   */
+  public stop(): void {
+    if (this.scheduleTask) {
+      this.scheduleTask.stop();
+      this.scheduleTask = null;
+      console.log('Schedule evaluation stopped');
+    }
+  }
+
+  /**
+   * Get all schedules
+   * @returns Array of schedules sorted by name
+   */
+  public getAllSchedules(): Schedule[] {
+    return Array.from(this.schedules.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a schedule by ID
+   * @param scheduleId - Schedule ID to lookup
+   * @returns Schedule or undefined if not found
+   */
+  public getSchedule(scheduleId: string): Schedule | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  /**
+   * Find the schedule for a device or group
+   * @param target - Device or group
+   * @returns Schedule or undefined if the target has none
+   */
+  public findScheduleForTarget(target: ScheduleTarget): Schedule | undefined {
+    return Array.from(this.schedules.values())
+      .find(schedule => schedule.target.type === target.type && schedule.target.id === target.id);
+  }
+
+  /**
+   * Create a new schedule and apply it straight away
+   * @param input - Validated schedule fields
+   * @returns The created schedule
+   */
+  public createSchedule(input: ScheduleInput): Schedule {
+    const now = new Date().toISOString();
+    const schedule: Schedule = {
+      scheduleId: crypto.randomBytes(8).toString('hex'),
+      name: input.name,
+      target: input.target,
+      enabled: input.enabled,
+      entries: input.entries.map(entry => ({ ...entry, entryId: crypto.randomBytes(4).toString('hex') })),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.schedules.set(schedule.scheduleId, schedule);
+    this.persist();
+    console.log(`Schedule created: ${schedule.name} (${schedule.target.type} ${schedule.target.id}, ${schedule.entries.length} entries)`);
+
+    this.applySchedules();
+    return schedule;
+  }
+
+  /**
+   * Replace a schedule's fields and re-evaluate it
+   * Entries get new IDs, so the entry now in effect is applied again.
+   * @param scheduleId - Schedule ID to update
+   * @param input - Validated schedule fields
+   * @returns Updated schedule, or undefined if not found
+   */
+  public updateSchedule(scheduleId: string, input: ScheduleInput): Schedule | undefined {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      return undefined;
+    }
+
+    schedule.name = input.name;
+    schedule.target = input.target;
+    schedule.enabled = input.enabled;
+    schedule.entries = input.entries.map(entry => ({ ...entry, entryId: crypto.randomBytes(4).toString('hex') }));
+    schedule.updatedAt = new Date().toISOString();
+
+    this.persist();
+    console.log(`Schedule updated: ${schedule.name}`);
+
+    this.applySchedules();
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule (devices keep their current config)
+   * @param scheduleId - Schedule ID to delete
+   * @returns true if the schedule existed
+   */
+  public deleteSchedule(scheduleId: string): boolean {
+    const deleted = this.schedules.delete(scheduleId);
+    if (deleted) {
+      this.persist();
+      console.log(`Schedule deleted: ${scheduleId}`);
+      this.applySchedules();
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete the schedule of a device or group that no longer exists
+   * @param target - Removed device or group
+   */
+  public removeTarget(target: ScheduleTarget): void {
+    const schedule = this.findScheduleForTarget(target);
+    if (schedule) {
+      this.deleteSchedule(schedule.scheduleId);
+    }
+    if (target.type === 'device' && this.applied.delete(target.id)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Find the schedule entry in effect for a device
+   * The device's own schedule takes precedence over its groups' schedules;
+   * between several group schedules the most recently started entry wins.
+   * @param deviceId - Device ID
+   * @param now - Point in time to evaluate
+   * @returns The active entry, or undefined if no enabled schedule applies
+   */
+  public getActiveEntry(deviceId: string, now: Date = new Date()): ActiveScheduleEntry | undefined {
+    const deviceSchedule = this.findScheduleForTarget({ type: 'device', id: deviceId });
+    if (deviceSchedule?.enabled) {
+      const active = this.findActiveEntry(deviceSchedule, now);
+      if (active) {
+        return active;
+      }
+    }
+
+    let latest: ActiveScheduleEntry | undefined;
+    for (const group of this.groupManager.getGroupsForDevice(deviceId)) {
+      const schedule = this.findScheduleForTarget({ type: 'group', id: group.groupId });
+      if (!schedule?.enabled) {
+        continue;
+      }
+
+      const active = this.findActiveEntry(schedule, now);
+      if (active && (!latest || active.startedAt > latest.startedAt)) {
+        latest = active;
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Get the entry last applied to a device
+   * @param deviceId - Device ID
+   */
+  public getAppliedSchedule(deviceId: string): AppliedSchedule | undefined {
+    return this.applied.get(deviceId);
+  }
+
+  /**
+   * Apply the entry in effect to every approved device whose entry changed
+   * Config reaches connected devices immediately and sleeping or offline
+   * devices when they next connect.
+   * @param now - Point in time to evaluate
+   * @returns IDs of devices whose config was changed
+   */
+  public applySchedules(now: Date = new Date()): string[] {
+    const changed: string[] = [];
+
+    for (const device of this.deviceManager.getAllDevices()) {
+      if (!this.deviceManager.isApproved(device)) {
+        continue;
+      }
+
+      const active = this.getActiveEntry(device.deviceId, now);
+      const applied = this.applied.get(device.deviceId);
+
+      if (!active) {
+        // Schedule removed or disabled; the device keeps its current config
+        if (applied) {
+          this.applied.delete(device.deviceId);
+          this.persist();
+        }
+        continue;
+      }
+
+      if (applied?.scheduleId === active.scheduleId && applied.entryId === active.entry.entryId) {
+        continue;
+      }
+
+      if (this.applyEntry(device, active)) {
+        changed.push(device.deviceId);
+        this.onApplied?.(device.deviceId);
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Push an entry's config to a device
+   * Fields the device doesn't support are skipped rather than failing the
+   * whole entry, so one group schedule can cover mixed hardware.
+   * @param device - Target device
+   * @param active - Entry to apply
+   * @returns true if the device's config changed
+   */
+  private applyEntry(device: DeviceInfo, active: ActiveScheduleEntry): boolean {
+    const changes: Record<string, unknown> = {};
+    const skippedFields: string[] = [];
+
+    for (const [field, value] of Object.entries(active.entry.config)) {
+      if (!validateDeviceConfig({ [field]: value }, device.capabilities).valid) {
+        skippedFields.push(field);
+      } else if (device.config[field as keyof DeviceConfig] !== value) {
+        changes[field] = value;
+      }
+    }
+
+    this.applied.set(device.deviceId, {
+      scheduleId: active.scheduleId,
+      entryId: active.entry.entryId,
+      appliedAt: new Date().toISOString(),
+      ...(skippedFields.length > 0 && { skippedFields })
+    });
+    this.persist();
+
+    if (skippedFields.length > 0) {
+      console.warn(`Schedule ${active.scheduleName} skipped unsupported fields for device ${device.deviceId}: ${skippedFields.join(', ')}`);
+    }
+
+    if (Object.keys(changes).length === 0) {
+      console.log(`Schedule ${active.scheduleName} entry ${this.describeEntry(active.entry)} already matches device ${device.deviceId}`);
+      return false;
+    }
+
+    console.log(`Applying schedule ${active.scheduleName} entry ${this.describeEntry(active.entry)} to device ${device.deviceId}`);
+    this.deviceManager.updateDeviceConfig(device.deviceId, changes as Partial<DeviceConfig>);
+    return true;
+  }
+
+  /**
+   * Find the entry of one schedule in effect at a point in time
+   * This is the entry that started most recently, wrapping around to the
+   * previous week.
+   * @param schedule - Schedule to evaluate
+   * @param now - Point in time
+   */
+  private findActiveEntry(schedule: Schedule, now: Date): ActiveScheduleEntry | undefined {
+    const nowMinute = this.getMinuteOfWeek(now);
+    let best: { entry: ScheduleEntry; minutesAgo: number } | undefined;
+
+    for (const entry of schedule.entries) {
+      const [hours, minutes] = entry.time.split(':').map(Number);
+      for (const day of entry.days) {
+        const entryMinute = day * MINUTES_PER_DAY + (hours ?? 0) * 60 + (minutes ?? 0);
+        const minutesAgo = (nowMinute - entryMinute + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+        if (!best || minutesAgo < best.minutesAgo) {
+          best = { entry, minutesAgo };
+        }
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+
+    const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+    return {
+      scheduleId: schedule.scheduleId,
+      scheduleName: schedule.name,
+      target: schedule.target,
+      entry: best.entry,
+      startedAt: new Date(startOfMinute - best.minutesAgo * 60000).toISOString()
+    };
+  }
+
+  /**
+   * Minutes since Sunday 00:00 in the scheduler's timezone
+   * @param date - Point in time
+   */
+  private getMinuteOfWeek(date: Date): number {
+    const parts = this.weekdayFormat.formatToParts(date);
+    const part = (type: string): string => parts.find(p => p.type === type)?.value ?? '';
+
+    const day = WEEKDAYS.indexOf(part('weekday'));
+    return day * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+  }
+
+  /**
+   * Short description of an entry for log messages
+   */
+  private describeEntry(entry: ScheduleEntry): string {
+    return `${entry.days.map(day => WEEKDAYS[day]).join(',')} ${entry.time}`;
+  }
+
+  /**
+   * Schedule a save of the schedule list
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      schedules: Array.from(this.schedules.values()),
+      applied: Object.fromEntries(this.applied)
+    }));
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Status History Service
+ * Records every device status transition so availability can be
+ * reviewed after the fact ("was the driveway camera up last night?")
+ */
+
+import config from '../config.js';
+import { JsonStore } from './JsonStore.js';
+
+/**
+ * A single status change of a device
+ */
+export interface StatusTransition {
+  status: string;
+  previousStatus: string | null;
+  reason: string;
+  timestamp: string;
+}
+
+/**
+ * Time spent in each status over a range, and the resulting uptime
+ */
+export interface UptimeSummary {
+  from: string;
+  to: string;
+  uptimePercent: number | null; // null when nothing is known about the range
+  knownMs: number;              // Portion of the range covered by recorded history
+  durations: Record<string, number>;
+}
+
+/**
+ * On-disk format of the status history
+ */
+interface StatusHistoryFile {
+  version: number;
+  devices: Record<string, StatusTransition[]>;
+}
+
+/**
+ * Statuses in which a device counts as available
+ * Sleep is part of normal operation for battery cameras, so it counts as up.
+ */
+const AVAILABLE_STATUSES = new Set(['registered', 'online', 'streaming', 'asleep']);
+
+/**
+ * Singleton Status History class
+ * Keeps a bounded, time-ordered list of transitions per device
+ */
+export class StatusHistory {
+  private static instance: StatusHistory;
+  private history: Map<string, StatusTransition[]> = new Map();
+  private store: JsonStore<StatusHistoryFile> = new JsonStore(config.storage.statusHistoryFile);
+
+  private constructor() {
+    console.log('StatusHistory initialized');
+  }
+
+  /**
+   * Get singleton instance of StatusHistory
+   */
+  public static getInstance(): StatusHistory {
+    if (!StatusHistory.instance) {
+      StatusHistory.instance = new StatusHistory();
+    }
+    return StatusHistory.instance;
+  }
+
+  /**
+   * Load persisted history from disk
+   */
+  public async loadHistory(): Promise<void> {
+    try {
+      const data = await this.store.load();
+      if (!data) {
+        return;
+      }
+
+      for (const [deviceId, transitions] of Object.entries(data.devices)) {
+        this.history.set(deviceId, transitions);
+      }
+
+      console.log(`Loaded status history for ${this.history.size} devices`);
+    } catch (error) {
+      console.error('Error loading status history:', error);
+    }
+  }
+
+  /**
+   * Write any pending history changes to disk
+   */
+  public async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /**
+   * Record a status transition
+   * @param deviceId - Device ID
+   * @param status - New status
+   * @param previousStatus - Status before the change, or null for a new device
+   * @param reason - Why the status changed
+   * @param at - When the change happened (defaults to now)
+   */
+  public recordTransition(
+    deviceId: string,
+    status: string,
+    previousStatus: string | null,
+    reason: string,
+    at: Date = new Date()
+  ): void {
+    let transitions = this.history.get(deviceId);
+    if (!transitions) {
+      transitions = [];
+      this.history.set(deviceId, transitions);
+    }
+
+    transitions.push({ status, previousStatus, reason, timestamp: at.toISOString() });
+
+    // A flapping device must not grow the file without bound
+    const excess = transitions.length - config.statusHistory.maxTransitionsPerDevice;
+    if (excess > 0) {
+      transitions.splice(0, excess);
+    }
+
+    this.persist();
+  }
+
+  /**
+   * Get the transitions of a device within a time range
+   * The last transition before the range is included so that the status
+   * at the start of the range is known.
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @returns Transitions in chronological order
+   */
+  public getTransitions(deviceId: string, from: Date, to: Date): StatusTransition[] {
+    const transitions = this.history.get(deviceId) ?? [];
+    const fromTime = from.getTime();
+    const toTime = to.getTime();
+
+    let startIndex = 0;
+    for (let i = 0; i < transitions.length; i++) {
+      if (Date.parse(transitions[i]!.timestamp) <= fromTime) {
+        startIndex = i;
+      } else {
+        break;
+      }
+    }
+
+    return transitions
+      .slice(startIndex)
+      .filter(transition => Date.parse(transition.timestamp) <= toTime);
+  }
+
+  /**
+   * Summarize how long a device spent in each status over a time range
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @returns Per-status durations and uptime percentage
+   */
+  public getUptime(deviceId: string, from: Date, to: Date): UptimeSummary {
+    const transitions = this.getTransitions(deviceId, from, to);
+    const fromTime = from.getTime();
+    const toTime = to.getTime();
+    const durations: Record<string, number> = {};
+    let knownMs = 0;
+    let upMs = 0;
+
+    transitions.forEach((transition, index) => {
+      const next = transitions[index + 1];
+      const start = Math.max(Date.parse(transition.timestamp), fromTime);
+      const end = next ? Math.min(Date.parse(next.timestamp), toTime) : toTime;
+      const duration = end - start;
+      if (duration <= 0) {
+        return;
+      }
+
+      durations[transition.status] = (durations[transition.status] ?? 0) + duration;
+      knownMs += duration;
+      if (AVAILABLE_STATUSES.has(transition.status)) {
+        upMs += duration;
+      }
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      uptimePercent: knownMs > 0 ? Math.round((upMs / knownMs) * 1000) / 10 : null,
+      knownMs,
+      durations
+    };
+  }
+
+  /**
+   * Split a time range into equal buckets and compute uptime for each
+   * @param deviceId - Device ID
+   * @param from - Range start
+   * @param to - Range end
+   * @param bucketCount - Number of buckets
+   * @returns Uptime percentage per bucket (null where nothing is known)
+   */
+  public getAvailabilityBuckets(deviceId: string, from: Date, to: Date, bucketCount: number): (number | null)[] {
+    const bucketMs = (to.getTime() - from.getTime()) / bucketCount;
+    const buckets: (number | null)[] = [];
+
+    for (let i = 0; i < bucketCount; i++) {
+      const bucketStart = new Date(from.getTime() + i * bucketMs);
+      const bucketEnd = new Date(from.getTime() + (i + 1) * bucketMs);
+      buckets.push(this.getUptime(deviceId, bucketStart, bucketEnd).uptimePercent);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Drop a device's history entirely
+   * @param deviceId - Device ID
+   */
+  public removeDevice(deviceId: string): void {
+    if (this.history.delete(deviceId)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Remove transitions older than the retention period
+   * The newest transition before the cutoff is kept so the status at the
+   * start of the retained window remains known.
+   * @returns Number of transitions removed
+   */
+  public pruneHistory(): number {
+    const cutoff = Date.now() - config.statusHistory.retentionDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const transitions of this.history.values()) {
+      let keepFrom = 0;
+      while (keepFrom + 1 < transitions.length && Date.parse(transitions[keepFrom + 1]!.timestamp) <= cutoff) {
+        keepFrom++;
+      }
+
+      if (keepFrom > 0) {
+        transitions.splice(0, keepFrom);
+        removed += keepFrom;
+      }
+    }
+
+    if (removed > 0) {
+      this.persist();
+      console.log(`Pruned ${removed} status history entries`);
+    }
+    return removed;
+  }
+
+  /**
+   * Schedule a save of the history
+   */
+  private persist(): void {
+    this.store.scheduleSave(() => ({
+      version: 1,
+      devices: Object.fromEntries(this.history)
+    }));
+  }
+}
@@ -6,89 +6,469 @@
 import ffmpeg from 'fluent-ffmpeg';
 import { promises as fs } from 'fs';
 import path from 'path';
-import { Writable, PassThrough } from 'stream';
+import { PassThrough } from 'stream';
 import config from '../config.js';
 import { DeviceManager } from './DeviceManager.js';
+import { RecordingRecovery } from './RecordingRecovery.js';
+import { FfmpegToolchain } from './FfmpegToolchain.js';
+import { FrameRingBuffer } from './FrameRingBuffer.js';
+
+const RECORDING_FPS = 10;
+const FRAME_INTERVAL_MS = 1000 / RECORDING_FPS;
+// Longer pauses in a stream are cut out rather than filled with a frozen frame
+const MAX_FRAME_GAP_MS = 5000;
+
+const DATE_DIR_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RECORDING_NAME_REGEX = /^(\d{2})(?:-(\d{2})-(\d{2})(?:_\d+)?)?\.mp4$/;
+
+/**
+ * Convert a device ID (MAC address) into its recordings directory name
+ * @param deviceId - Device ID
+ * @returns Filesystem-safe directory name (colons replaced with hyphens)
+ */
+export function sanitizeDeviceId(deviceId: string): string {
+  return deviceId.replace(/:/g, '-');
+}
+
+/**
+ * Work out when a recording file started from its date directory and name
+ * Understands segment names (HH-MM-SS.mp4, HH-MM-SS_N.mp4) and the older
+ * one-file-per-hour names (HH.mp4).
+ * @param date - Date directory name (YYYY-MM-DD), in server local time
+ * @param filename - Recording file name
+ * @returns Start time, or undefined if the name isn't a recording name
+ */
+export function parseRecordingStart(date: string, filename: string): Date | undefined {
+  const dateMatch = DATE_DIR_REGEX.exec(date);
+  const timeMatch = RECORDING_NAME_REGEX.exec(filename);
+  if (!dateMatch || !timeMatch) {
+    return undefined;
+  }
+
+  return new Date(
+    Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]),
+    Number(timeMatch[1]), Number(timeMatch[2] ?? 0), Number(timeMatch[3] ?? 0)
+  );
+}
+
+/**
+ * Work out when the segment containing a moment ends
+ * Segments are counted from local midnight, and the last one of the day
+ * is cut short so every segment belongs to a single date directory.
+ * @param now - Moment inside the segment
+ * @param segmentDurationMs - Segment length
+ * @returns Start of the next segment
+ */
+export function getNextSegmentBoundary(now: Date, segmentDurationMs: number): Date {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const elapsed = now.getTime() - midnight.getTime();
+  const boundary = midnight.getTime() + (Math.floor(elapsed / segmentDurationMs) + 1) * segmentDurationMs;
+  return new Date(Math.min(boundary, nextMidnight.getTime()));
+}
+
+/**
+ * Feeds a segment's JPEG frames to FFmpeg at the recording frame rate
+ * Frames are placed on the timeline by when the server received them, not
+ * when they are written, so pre-roll frames written in one burst keep their
+ * timing. Frames arriving faster than the frame rate are dropped and gaps
+ * are filled by repeating the previous frame.
+ */
+class FrameWriter {
+  private startedAt: number | undefined;
+  private written = 0;
+  private lastFrame: Buffer | undefined;
+
+  constructor(private readonly stream: PassThrough) {}
+
+  /**
+   * Write a frame at its place on the timeline
+   * @param frame - JPEG frame
+   * @param receivedAt - When the server received it
+   */
+  public write(frame: Buffer, receivedAt: number): void {
+    if (this.stream.destroyed) {
+      return;
+    }
+
+    this.startedAt ??= receivedAt;
+    let slot = Math.floor((receivedAt - this.startedAt) / FRAME_INTERVAL_MS);
+    if ((slot - this.written) * FRAME_INTERVAL_MS > MAX_FRAME_GAP_MS) {
+      this.startedAt = receivedAt - this.written * FRAME_INTERVAL_MS;
+      slot = this.written;
+    }
+
+    if (slot < this.written) {
+      return; // This slot already has a frame
+    }
+
+    while (this.lastFrame && this.written < slot) {
+      this.stream.write(this.lastFrame);
+      this.written++;
+    }
+    this.stream.write(frame);
+    this.written++;
+    this.lastFrame = frame;
+  }
+
+  /**
+   * Signal the end of the segment's frames
+   */
+  public end(): void {
+    this.stream.end();
+  }
+}
 
 /**
  * Video processing class for handling camera streams
  */
 export class VideoProcessor {
   private activeRecordings: Map<string, ffmpeg.FfmpegCommand> = new Map();
-  private recordingStreams: Map<string, Writable> = new Map();
+  private recordingStreams: Map<string, FrameWriter> = new Map();
+  private rolloverTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pendingStarts: Map<string, Promise<void>> = new Map();
+  private postRollTimers: Map<string, NodeJS.Timeout> = new Map();
+  private preRollBuffers: Map<string, FrameRingBuffer> = new Map();
+  private generations: Map<string, number> = new Map(); // Bumped by every stop, so starts in flight can tell they were cancelled
+  private blockedDevices: Set<string> = new Set();     // Devices whose frames are refused, e.g. while their recordings are removed
+  private openSegments: Map<string, Set<Promise<void>>> = new Map(); // Settle once FFmpeg has exited and the segment is finalized
   private deviceManager: DeviceManager;
+  private recovery: RecordingRecovery = new RecordingRecovery();
 
   constructor() {
     this.deviceManager = DeviceManager.getInstance();
-    // Set FFmpeg path explicitly
-    ffmpeg.setFfmpegPath('C:\\Users\\Magic\\AppData\\Local\\Microsoft\\WinGet\\Packages\\Gyan.FFmpeg.Essentials_Microsoft.Winget.Source_8wekyb3d8bbwe\\ffmpeg-8.0-essentials_build\\bin\\ffmpeg.exe');
-    console.log('VideoProcessor initialized with FFmpeg path configured. To change, modify the path in VideoProcessor.');
+    console.log('VideoProcessor initialized');
+  }
+
+  /**
+   * Whether FFmpeg was found, so recordings can be made
+   * The FFmpeg path itself is set by FfmpegToolchain.probe() at startup.
+   * @param deviceId - Also check that this device is approved and its recording isn't blocked
+   */
+  public canRecord(deviceId?: string): boolean {
+    if (deviceId !== undefined) {
+      const device = this.deviceManager.getDeviceById(deviceId);
+      if (!device || !this.deviceManager.isApproved(device) || this.blockedDevices.has(deviceId)) {
+        return false;
+      }
+    }
+    return FfmpegToolchain.getInstance().isAvailable();
+  }
+
+  /**
+   * Stop a device's recording and refuse its frames until unblockRecording()
+   * Once this resolves, nothing writes to the device's recordings directory.
+   * @param deviceId - Device ID
+   */
+  public async blockRecording(deviceId: string): Promise<void> {
+    this.blockedDevices.add(deviceId);
+    this.preRollBuffers.delete(deviceId);
+    await this.stopRecording(deviceId);
+
+    // A stopped FFmpeg still flushes its file before it exits
+    await Promise.all(this.openSegments.get(deviceId) ?? []);
+  }
+
+  /**
+   * Accept a device's frames again after blockRecording()
+   * @param deviceId - Device ID
+   */
+  public unblockRecording(deviceId: string): void {
+    this.blockedDevices.delete(deviceId);
   }
 
   /**
    * Start recording for a specific device
+   * Recordings are split into segments of recordings.segmentDurationMs, and
+   * begin with the device's buffered pre-roll. Calls made while FFmpeg is
+   * still starting share the same start; their frames go to the pre-roll.
    * @param deviceId - Device ID to start recording for
    * @returns Promise<void>
    */
   public startRecording(deviceId: string): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        console.log(`Starting recording for device: ${deviceId}`);
+    const pending = this.pendingStarts.get(deviceId);
+    if (pending) {
+      return pending;
+    }
 
-        // Stop existing recording if any
-        await this.stopRecording(deviceId);
+    const start = this.beginRecording(deviceId).finally(() => this.pendingStarts.delete(deviceId));
+    this.pendingStarts.set(deviceId, start);
+    return start;
+  }
 
-        // Create output directory structure
-        const outputPath = await this.createOutputPath(deviceId);
-        
-        // Get device configuration
-        const device = this.deviceManager.getDeviceById(deviceId);
-        if (!device) {
-          throw new Error(`Device ${deviceId} not found`);
+  /**
+   * Replace any current recording with a new one
+   * @param deviceId - Device ID to start recording for
+   */
+  private async beginRecording(deviceId: string): Promise<void> {
+    console.log(`Starting recording for device: ${deviceId}`);
+
+    // Stop existing recording if any. The stop starts a new generation at
+    // once; a stop after that, even before this one finishes, cancels the start.
+    const stopped = this.stopRecording(deviceId);
+    const generation = this.getGeneration(deviceId);
+    await stopped;
+
+    const device = this.deviceManager.getDeviceById(deviceId);
+    if (!device) {
+      throw new Error(`Device ${deviceId} not found`);
+    }
+
+    // A decommissioned device's last frames must not recreate its recordings
+    if (!this.deviceManager.isApproved(device)) {
+      throw new Error(`Device ${deviceId} is not approved`);
+    }
+
+    if (this.blockedDevices.has(deviceId)) {
+      throw new Error(`Recording for device ${deviceId} is blocked`);
+    }
+
+    if (!this.canRecord()) {
+      throw new Error(`Cannot record: ${FfmpegToolchain.getInstance().getStatus().error}`);
+    }
+
+    if (await this.openSegment(deviceId, generation)) {
+      this.scheduleRollover(deviceId, generation);
+    }
+  }
+
+  /**
+   * Start FFmpeg on a new segment file
+   * Frames keep going to the current segment until the new FFmpeg has
+   * started, and are buffered in its input stream from then on. A segment
+   * that starts a recording is written the pre-roll first. If the recording
+   * is stopped while FFmpeg starts, the new segment is abandoned.
+   * @param deviceId - Device ID
+   * @param generation - Recording the segment belongs to, from getGeneration()
+   * @returns Resolves once FFmpeg is running and receives the device's frames,
+   *   with false if the recording was stopped in the meantime
+   */
+  private async openSegment(deviceId: string, generation: number): Promise<boolean> {
+    // Create output directory structure
+    const outputPath = await this.createOutputPath(deviceId);
+    if (this.getGeneration(deviceId) !== generation) {
+      return false;
+    }
+    await this.recovery.markOpen(outputPath);
+    let segmentClosed!: () => void;
+    this.trackSegment(deviceId, new Promise(resolve => { segmentClosed = resolve; }));
+    const keyframeSeconds = config.recordings.fragmentDurationMs / 1000;
+
+    return new Promise((resolve, reject) => {
+      // Create input stream for piping JPEG frames
+      const inputStream = new PassThrough();
+
+      // Create FFmpeg command
+      const command = ffmpeg(inputStream)
+        .inputFormat('mjpeg')
+        .inputOptions([
+          // FrameWriter paces frames to this rate, so frame counts are timestamps
+          '-framerate', String(RECORDING_FPS),
+          '-thread_queue_size', '512'
+        ])
+        .videoCodec(config.video.outputCodec)
+        .outputOptions([
+          '-pix_fmt yuv420p',
+          // Speed settings only libx264 knows; hardware encoders like h264_v4l2m2m have their own
+          ...(config.video.outputCodec === 'libx264' ? ['-preset ultrafast', '-tune zerolatency'] : []),
+          `-r ${RECORDING_FPS}`, // Set output frame rate
+          // Fragmented MP4 stays playable up to the last fragment if FFmpeg never gets to finish the file
+          '-movflags +frag_keyframe+empty_moov+default_base_moof',
+          `-force_key_frames expr:gte(t,n_forced*${keyframeSeconds})`
+        ])
+        .toFormat('mp4')
+        .on('start', (commandLine: string) => {
+          console.log(`FFmpeg started for ${deviceId} with command: ${commandLine}`);
+          if (this.getGeneration(deviceId) !== generation) {
+            // Nothing will feed this FFmpeg; its 'error' handler finalizes the empty file
+            console.log(`Recording for ${deviceId} was stopped while a segment started, discarding it`);
+            inputStream.end();
+            command.kill('SIGTERM');
+            resolve(false);
+            return;
+          }
+
+          const previousStream = this.recordingStreams.get(deviceId);
+          const writer = new FrameWriter(inputStream);
+          for (const frame of this.preRollBuffers.get(deviceId)?.drain(Date.now()) ?? []) {
+            writer.write(frame.data, frame.receivedAt);
+          }
+          this.activeRecordings.set(deviceId, command);
+          this.recordingStreams.set(deviceId, writer);
+
+          // The previous segment has had its last frame; let FFmpeg finish the file
+          if (previousStream) {
+            previousStream.end();
+          }
+          resolve(true);
+        })
+        .on('error', (err: Error) => {
+          console.error(`FFmpeg error for ${deviceId}:`, err.message);
+          this.forgetSegment(deviceId, command);
+          this.finalizeSegment(outputPath).finally(segmentClosed);
+          reject(err);
+        })
+        .on('end', () => {
+          console.log(`Recording segment finished for ${deviceId}: ${outputPath}`);
+          this.forgetSegment(deviceId, command);
+          this.finalizeSegment(outputPath).finally(segmentClosed);
+        });
+
+      command.save(outputPath);
+    });
+  }
+
+  /**
+   * Drop a segment's references if it is still the device's current one
+   * @param deviceId - Device ID
+   * @param command - FFmpeg command of the segment that ended
+   */
+  private forgetSegment(deviceId: string, command: ffmpeg.FfmpegCommand): void {
+    if (this.activeRecordings.get(deviceId) !== command) {
+      return; // A rolled-over segment; the device has already moved on
+    }
+    this.activeRecordings.delete(deviceId);
+    this.recordingStreams.delete(deviceId);
+    this.clearRollover(deviceId);
+  }
+
+  /**
+   * Keep track of a device's segment until it is finalized
+   * @param deviceId - Device ID
+   * @param closed - Settles once the segment is finalized
+   */
+  private trackSegment(deviceId: string, closed: Promise<void>): void {
+    let segments = this.openSegments.get(deviceId);
+    if (!segments) {
+      segments = new Set();
+      this.openSegments.set(deviceId, segments);
+    }
+    segments.add(closed);
+
+    void closed.then(() => {
+      segments.delete(closed);
+      if (segments.size === 0 && this.openSegments.get(deviceId) === segments) {
+        this.openSegments.delete(deviceId);
+      }
+    });
+  }
+
+  /**
+   * Check a segment FFmpeg has stopped writing and cut off any partial fragment
+   * @param outputPath - Segment file
+   */
+  private finalizeSegment(outputPath: string): Promise<void> {
+    return this.recovery.finalize(outputPath)
+      .then(outcome => {
+        if (outcome !== 'complete') {
+          console.warn(`Recording segment ${outputPath} was left unfinished: ${outcome}`);
         }
+      })
+      .catch(error => console.error(`Error finalizing recording segment ${outputPath}:`, error));
+  }
 
-        // Create input stream for piping JPEG frames
-        const inputStream = new PassThrough();
-        this.recordingStreams.set(deviceId, inputStream);
-
-        // Create FFmpeg command
-        const command = ffmpeg(inputStream)
-          .inputFormat('mjpeg')
-          .inputOptions([
-            '-use_wallclock_as_timestamps', '1',
-            '-thread_queue_size', '512'
-          ])
-          .videoCodec(config.video.outputCodec)
-          .outputOptions([
-            '-c:v libx264',
-            '-pix_fmt yuv420p',
-            '-preset ultrafast',
-            '-tune zerolatency',
-            '-r 10' // Set output frame rate
-          ])
-          .toFormat('mp4')
-          .on('start', (commandLine: string) => {
-            console.log(`FFmpeg started for ${deviceId} with command: ${commandLine}`);
-            this.activeRecordings.set(deviceId, command);
-            resolve();
-          })
-          .on('error', (err: Error) => {
-            console.error(`FFmpeg error for ${deviceId}:`, err.message);
-            this.activeRecordings.delete(deviceId);
-            this.recordingStreams.delete(deviceId);
-            reject(err);
-          })
-          .on('end', () => {
-            console.log(`Recording finished for ${deviceId}`);
-            this.activeRecordings.delete(deviceId);
-            this.recordingStreams.delete(deviceId);
-          });
+  /**
+   * Repair segments left unfinished by the previous run
+   * Call once at startup, before any device starts recording.
+   */
+  public async recoverRecordings(): Promise<void> {
+    try {
+      await this.recovery.recoverAll();
+    } catch (error) {
+      console.error('Error recovering unfinished recordings:', error);
+    }
+  }
+
+  /**
+   * Roll the device's recording over to a new segment at the next boundary
+   * @param deviceId - Device ID
+   * @param generation - Recording to roll over; a stop in the meantime ends the chain
+   */
+  private scheduleRollover(deviceId: string, generation: number): void {
+    this.clearRollover(deviceId);
+    const delay = getNextSegmentBoundary(new Date(), config.recordings.segmentDurationMs).getTime() - Date.now();
+
+    this.rolloverTimers.set(deviceId, setTimeout(async () => {
+      this.rolloverTimers.delete(deviceId);
+      if (this.getGeneration(deviceId) !== generation || !this.activeRecordings.has(deviceId)) {
+        return;
+      }
 
-        command.save(outputPath);
+      try {
+        await this.openSegment(deviceId, generation);
       } catch (error) {
-        reject(error);
+        // The current segment carries on until the next boundary
+        console.error(`Failed to roll over recording for device ${deviceId}:`, error);
       }
-    });
+
+      if (this.getGeneration(deviceId) === generation && this.activeRecordings.has(deviceId)) {
+        this.scheduleRollover(deviceId, generation);
+      }
+    }, Math.max(delay, 0)));
+  }
+
+  /**
+   * Current recording generation of a device
+   * @param deviceId - Device ID
+   */
+  private getGeneration(deviceId: string): number {
+    return this.generations.get(deviceId) ?? 0;
+  }
+
+  /**
+   * Cancel a device's pending segment rollover
+   * @param deviceId - Device ID
+   */
+  private clearRollover(deviceId: string): void {
+    const timer = this.rolloverTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.rolloverTimers.delete(deviceId);
+    }
+  }
+
+  /**
+   * Stop recording once the device's post-roll has passed
+   * Frames that arrive in the meantime are still recorded.
+   * @param deviceId - Device ID to stop recording for
+   */
+  public stopRecordingAfterPostRoll(deviceId: string): void {
+    if (!this.activeRecordings.has(deviceId) || this.postRollTimers.has(deviceId)) {
+      return;
+    }
+
+    const device = this.deviceManager.getDeviceById(deviceId);
+    const postRollSeconds = device ? this.deviceManager.getRecordingWindow(device).window.postRollSeconds : 0;
+    if (postRollSeconds <= 0) {
+      void this.stopRecording(deviceId);
+      return;
+    }
+
+    console.log(`Recording for device ${deviceId} stops in ${postRollSeconds}s unless it resumes streaming`);
+    this.postRollTimers.set(deviceId, setTimeout(() => {
+      this.postRollTimers.delete(deviceId);
+      void this.stopRecording(deviceId);
+    }, postRollSeconds * 1000));
+  }
+
+  /**
+   * Keep recording a device whose post-roll is running
+   * @param deviceId - Device ID
+   */
+  public cancelPostRoll(deviceId: string): void {
+    const timer = this.postRollTimers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.postRollTimers.delete(deviceId);
+    }
+  }
+
+  /**
+   * Drop a device's buffered pre-roll, e.g. when it disconnects
+   * @param deviceId - Device ID
+   */
+  public clearPreRoll(deviceId: string): void {
+    this.preRollBuffers.delete(deviceId);
   }
 
   /**
@@ -99,6 +479,10 @@ export class VideoProcessor {
     try {
       const command = this.activeRecordings.get(deviceId);
       const stream = this.recordingStreams.get(deviceId);
+      // Segments still starting belong to the stopped recording and are discarded
+      this.generations.set(deviceId, this.getGeneration(deviceId) + 1);
+      this.clearRollover(deviceId);
+      this.cancelPostRoll(deviceId);
 
       if (command) {
         console.log(`Stopping recording for device: ${deviceId}`);
@@ -123,27 +507,59 @@ export class VideoProcessor {
 
   /**
    * Write video frame data to the recording stream
+   * Frames of a device that isn't recording go to its pre-roll buffer.
    * @param deviceId - Device ID
    * @param frameData - JPEG frame data
    */
   public writeFrame(deviceId: string, frameData: Buffer): void {
     try {
-      const stream = this.recordingStreams.get(deviceId);
-      if (stream && !stream.destroyed) {
-        stream.write(frameData);
+      if (this.blockedDevices.has(deviceId)) {
+        return;
+      }
+
+      const receivedAt = Date.now();
+      const writer = this.recordingStreams.get(deviceId);
+      if (writer) {
+        writer.write(frameData, receivedAt);
+      } else {
+        this.bufferFrame(deviceId, frameData, receivedAt);
       }
     } catch (error) {
       console.error(`Error writing frame for device ${deviceId}:`, error);
     }
   }
 
+  /**
+   * Keep a frame for the device's next recording
+   * @param deviceId - Device ID
+   * @param frameData - JPEG frame data
+   * @param receivedAt - When the frame arrived
+   */
+  private bufferFrame(deviceId: string, frameData: Buffer, receivedAt: number): void {
+    const device = this.deviceManager.getDeviceById(deviceId);
+    const preRollMs = device ? this.deviceManager.getRecordingWindow(device).window.preRollSeconds * 1000 : 0;
+    if (preRollMs <= 0) {
+      this.preRollBuffers.delete(deviceId);
+      return;
+    }
+
+    let buffer = this.preRollBuffers.get(deviceId);
+    if (buffer) {
+      buffer.setWindow(preRollMs);
+    } else {
+      buffer = new FrameRingBuffer(preRollMs, config.recordings.preRollMaxBytes);
+      this.preRollBuffers.set(deviceId, buffer);
+    }
+    buffer.push(frameData, receivedAt);
+  }
+
   /**
    * Get recording status for a device
    * @param deviceId - Device ID
-   * @returns boolean indicating if device is currently recording
+   * @returns boolean indicating if device is currently recording or about to
    */
   public isRecording(deviceId: string): boolean {
-    return this.activeRecordings.has(deviceId);
+    return this.activeRecordings.has(deviceId) || this.pendingStarts.has(deviceId);
   }
 
   /**
@@ -151,7 +567,8 @@ export class VideoProcessor {
    */
   public async stopAllRecordings(): Promise<void> {
     console.log('Stopping all active recordings...');
-    const stopPromises = Array.from(this.activeRecordings.keys()).map(deviceId =>
+    const deviceIds = new Set([...this.activeRecordings.keys(), ...this.pendingStarts.keys()]);
+    const stopPromises = Array.from(deviceIds).map(deviceId =>
       this.stopRecording(deviceId)
     );
     await Promise.all(stopPromises);
@@ -159,6 +576,7 @@ export class VideoProcessor {
 
   /**
    * Create output directory path for recordings
+   * Files are named after the segment's start time, so segments never overwrite each other.
    * @param deviceId - Device ID
    * @returns Promise<string> - Full path to output file
    */
@@ -168,29 +586,36 @@ export class VideoProcessor {
     const month = String(now.getMonth() + 1).padStart(2, '0');
     const day = String(now.getDate()).padStart(2, '0');
     const hour = String(now.getHours()).padStart(2, '0');
+    const minute = String(now.getMinutes()).padStart(2, '0');
+    const second = String(now.getSeconds()).padStart(2, '0');
 
     const dateString = `${year}-${month}-${day}`;
     
     // Sanitize device ID for filesystem (replace colons with hyphens)
-    const sanitizedDeviceId = deviceId.replace(/:/g, '-');
+    const sanitizedDeviceId = sanitizeDeviceId(deviceId);
     
     const deviceDir = path.join(config.video.recordingsPath, sanitizedDeviceId);
     const dateDir = path.join(deviceDir, dateString);
 
-    console.log(`Creating directory: ${dateDir}`);
-    
     // Create directories if they don't exist
     try {
       await fs.mkdir(dateDir, { recursive: true });
-      console.log(`Successfully created directory: ${dateDir}`);
     } catch (error) {
       console.error(`Failed to create directory ${dateDir}:`, error);
       throw error;
     }
 
-    // Generate filename with timestamp
-    const filename = `${hour}.mp4`;
-    return path.join(dateDir, filename);
+    // A camera that reconnects within the same second gets a numbered suffix
+    const baseName = `${hour}-${minute}-${second}`;
+    for (let attempt = 0; ; attempt++) {
+      const filename = attempt === 0 ? `${baseName}.mp4` : `${baseName}_${attempt}.mp4`;
+      const outputPath = path.join(dateDir, filename);
+      try {
+        await fs.access(outputPath);
+      } catch {
+        return outputPath;
+      }
+    }
   }
 
   /**
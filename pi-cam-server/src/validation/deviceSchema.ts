@@ -0,0 +1,475 @@
+/**
+ * Device Schema Validation
+ * Validates DeviceConfig updates, registration payloads and lifecycle
+ * policies against the limits defined in config.ts
+ */
+
+import config from '../config.js';
+import { DeviceConfig, DeviceCapabilities, LifecycleMode, LifecyclePolicy, MotionSettings, RecordingWindow } from '../services/DeviceManager.js';
+
+/**
+ * A single field-level validation failure
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Result of validating a payload
+ */
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] };
+
+/**
+ * Description of one DeviceConfig field, as exposed to the frontend
+ */
+export type FieldSchema =
+  | { type: 'enum'; values: string[]; default: string; description: string }
+  | { type: 'integer'; min: number; max: number; default: number; description: string };
+
+/**
+ * Validated registration payload
+ */
+export interface RegistrationPayload {
+  deviceId: string;
+  operationMode?: DeviceConfig['operationMode'];
+  motionSensorDetected: boolean;
+  firmwareVersion?: string;
+  capabilities?: DeviceCapabilities;
+}
+
+const MAC_ADDRESS_REGEX = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/;
+const MAX_SENSOR_MODEL_LENGTH = 32;
+const MAX_COMMANDS = 32;
+const CAPABILITY_FLAGS = ['flashLed', 'pir', 'psram', 'sdCard'] as const;
+const LIFECYCLE_MODES: LifecycleMode[] = ['never', 'dormant', 'expire'];
+
+/**
+ * Allowed device command names (e.g. start_streaming)
+ */
+export const COMMAND_NAME_REGEX = /^[a-z][a-z0-9_]{0,31}$/;
+
+/**
+ * Allowed firmware version strings; also used as image file names
+ */
+export const FIRMWARE_VERSION_REGEX = /^[0-9A-Za-z._-]{1,32}$/;
+export const FIRMWARE_VERSION_RULE = 'must be 1-32 letters, digits, dots, dashes or underscores';
+
+const limits = config.deviceConfigLimits;
+const defaults = config.defaultDeviceConfig;
+
+/**
+ * Schema for every DeviceConfig field
+ */
+export const deviceConfigSchema: Record<keyof DeviceConfig, FieldSchema> = {
+  resolution: {
+    type: 'enum',
+    values: Object.keys(config.cameraResolutions),
+    default: defaults.resolution,
+    description: 'Camera frame size'
+  },
+  framerate: {
+    type: 'integer',
+    ...limits.framerate,
+    default: defaults.framerate,
+    description: 'Frames per second'
+  },
+  quality: {
+    type: 'integer',
+    ...limits.quality,
+    default: defaults.quality,
+    description: 'JPEG quality (lower is better)'
+  },
+  brightness: {
+    type: 'integer',
+    ...limits.brightness,
+    default: defaults.brightness,
+    description: 'Sensor brightness'
+  },
+  contrast: {
+    type: 'integer',
+    ...limits.contrast,
+    default: defaults.contrast,
+    description: 'Sensor contrast'
+  },
+  saturation: {
+    type: 'integer',
+    ...limits.saturation,
+    default: defaults.saturation,
+    description: 'Sensor saturation'
+  },
+  operationMode: {
+    type: 'enum',
+    values: Object.keys(config.operationModes),
+    default: defaults.operationMode,
+    description: 'How the camera wakes and streams'
+  },
+  alwaysOnDuration: {
+    type: 'integer',
+    ...limits.alwaysOnDuration,
+    default: defaults.alwaysOnDuration,
+    description: 'Streaming session length in always-on mode (ms)'
+  },
+  alwaysOnInterval: {
+    type: 'integer',
+    ...limits.alwaysOnInterval,
+    default: defaults.alwaysOnInterval,
+    description: 'Time between streaming sessions in always-on mode (ms)'
+  }
+};
+
+/**
+ * Check a single value against its field schema
+ * @returns Error message, or null if valid
+ */
+function checkField(schema: FieldSchema, value: unknown): string | null {
+  if (schema.type === 'enum') {
+    if (typeof value !== 'string' || !schema.values.includes(value)) {
+      return `must be one of: ${schema.values.join(', ')}`;
+    }
+    return null;
+  }
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < schema.min || value > schema.max) {
+    return `must be an integer between ${schema.min} and ${schema.max}`;
+  }
+  return null;
+}
+
+/**
+ * Resolutions a device can capture, smallest first
+ * @param capabilities - Device capabilities; all resolutions if not reported
+ */
+export function getSupportedResolutions(capabilities?: DeviceCapabilities): string[] {
+  const resolutions = Object.keys(config.cameraResolutions);
+  const maxIndex = capabilities?.maxResolution ? resolutions.indexOf(capabilities.maxResolution) : -1;
+  return maxIndex === -1 ? resolutions : resolutions.slice(0, maxIndex + 1);
+}
+
+/**
+ * Operation modes a device's hardware allows
+ * @param capabilities - Device capabilities; all modes if not reported
+ */
+export function getSupportedOperationModes(capabilities?: DeviceCapabilities): DeviceConfig['operationMode'][] {
+  return (Object.keys(config.operationModes) as DeviceConfig['operationMode'][])
+    .filter(mode => !capabilities || capabilities.pir || !config.operationModes[mode].requiresMotionSensor);
+}
+
+/**
+ * DeviceConfig schema narrowed to what a particular device supports
+ * @param capabilities - Device capabilities; the full schema if not reported
+ */
+export function getDeviceConfigSchema(capabilities?: DeviceCapabilities): Record<keyof DeviceConfig, FieldSchema> {
+  if (!capabilities) {
+    return deviceConfigSchema;
+  }
+
+  return {
+    ...deviceConfigSchema,
+    resolution: { ...deviceConfigSchema.resolution, values: getSupportedResolutions(capabilities) } as FieldSchema,
+    operationMode: { ...deviceConfigSchema.operationMode, values: getSupportedOperationModes(capabilities) } as FieldSchema
+  };
+}
+
+/**
+ * Validate a (partial) DeviceConfig update
+ * Unknown fields are rejected so that typos don't silently do nothing.
+ * @param input - Untrusted config object from a request body
+ * @param capabilities - Capabilities of the target device, if known
+ * @returns The validated partial config, or field-level errors
+ */
+export function validateDeviceConfig(input: unknown, capabilities?: DeviceCapabilities): ValidationResult<Partial<DeviceConfig>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'config', message: 'must be an object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+  const deviceSchema = getDeviceConfigSchema(capabilities);
+
+  for (const [field, fieldValue] of Object.entries(input)) {
+    const schema = deviceConfigSchema[field as keyof DeviceConfig];
+    if (!schema) {
+      errors.push({ field: `config.${field}`, message: 'is not a known configuration field' });
+      continue;
+    }
+
+    const message = checkField(schema, fieldValue);
+    if (message) {
+      errors.push({ field: `config.${field}`, message });
+      continue;
+    }
+
+    // Valid in general, but the device's hardware may not support it
+    const deviceMessage = checkField(deviceSchema[field as keyof DeviceConfig], fieldValue);
+    if (deviceMessage) {
+      errors.push({ field: `config.${field}`, message: `is not supported by this device (${deviceMessage})` });
+    } else {
+      value[field] = fieldValue;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: value as Partial<DeviceConfig> };
+}
+
+/**
+ * Validate the body of POST /register
+ * @param body - Untrusted request body
+ * @returns The validated payload, or field-level errors
+ */
+export function validateRegistration(body: unknown): ValidationResult<RegistrationPayload> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const { deviceId, operationMode, motionSensorDetected, firmwareVersion, capabilities } = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  if (typeof deviceId !== 'string' || deviceId.length === 0) {
+    errors.push({ field: 'deviceId', message: 'is required' });
+  } else if (!MAC_ADDRESS_REGEX.test(deviceId)) {
+    errors.push({ field: 'deviceId', message: 'must be a valid MAC address (XX:XX:XX:XX:XX:XX)' });
+  }
+
+  // Devices may send "auto-detect" before settling on a mode; treat it as unspecified
+  const modeProvided = operationMode !== undefined && operationMode !== null && operationMode !== '' && operationMode !== 'auto-detect';
+  if (modeProvided) {
+    const message = checkField(deviceConfigSchema.operationMode, operationMode);
+    if (message) {
+      errors.push({ field: 'operationMode', message });
+    }
+  }
+
+  if (motionSensorDetected !== undefined && typeof motionSensorDetected !== 'boolean') {
+    errors.push({ field: 'motionSensorDetected', message: 'must be a boolean' });
+  }
+
+  if (firmwareVersion !== undefined && (typeof firmwareVersion !== 'string' || !FIRMWARE_VERSION_REGEX.test(firmwareVersion))) {
+    errors.push({ field: 'firmwareVersion', message: FIRMWARE_VERSION_RULE });
+  }
+
+  let parsedCapabilities: DeviceCapabilities | undefined;
+  if (capabilities !== undefined) {
+    const result = validateCapabilities(capabilities);
+    if (result.valid) {
+      parsedCapabilities = result.value;
+    } else {
+      errors.push(...result.errors);
+    }
+  }
+
+  if (modeProvided && parsedCapabilities && !getSupportedOperationModes(parsedCapabilities).includes(operationMode as DeviceConfig['operationMode'])) {
+    errors.push({ field: 'operationMode', message: `${operationMode} is not supported without a PIR sensor` });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const payload: RegistrationPayload = {
+    deviceId: deviceId as string,
+    motionSensorDetected: motionSensorDetected === true
+  };
+  if (modeProvided) {
+    payload.operationMode = operationMode as DeviceConfig['operationMode'];
+  }
+  if (typeof firmwareVersion === 'string') {
+    payload.firmwareVersion = firmwareVersion;
+  }
+  if (parsedCapabilities) {
+    payload.capabilities = parsedCapabilities;
+  }
+
+  return { valid: true, value: payload };
+}
+
+/**
+ * Validate the capabilities a device reports at registration
+ * Missing hardware flags count as absent; a missing command list means the
+ * firmware predates capability reporting and every command is assumed.
+ * @param input - Untrusted capabilities object
+ * @returns The validated capabilities, or field-level errors
+ */
+export function validateCapabilities(input: unknown): ValidationResult<DeviceCapabilities> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: [{ field: 'capabilities', message: 'must be an object' }] };
+  }
+
+  const { sensorModel, maxResolution, commands, ...flags } = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: DeviceCapabilities = { flashLed: false, pir: false, psram: false, sdCard: false };
+
+  if (sensorModel !== undefined) {
+    if (typeof sensorModel !== 'string' || sensorModel.length === 0 || sensorModel.length > MAX_SENSOR_MODEL_LENGTH) {
+      errors.push({ field: 'capabilities.sensorModel', message: `must be a string of at most ${MAX_SENSOR_MODEL_LENGTH} characters` });
+    } else {
+      value.sensorModel = sensorModel;
+    }
+  }
+
+  if (maxResolution !== undefined) {
+    const message = checkField(deviceConfigSchema.resolution, maxResolution);
+    if (message) {
+      errors.push({ field: 'capabilities.maxResolution', message });
+    } else {
+      value.maxResolution = maxResolution as string;
+    }
+  }
+
+  for (const [flag, flagValue] of Object.entries(flags)) {
+    if (!(CAPABILITY_FLAGS as readonly string[]).includes(flag)) {
+      errors.push({ field: `capabilities.${flag}`, message: 'is not a known capability' });
+    } else if (typeof flagValue !== 'boolean') {
+      errors.push({ field: `capabilities.${flag}`, message: 'must be a boolean' });
+    } else {
+      value[flag as typeof CAPABILITY_FLAGS[number]] = flagValue;
+    }
+  }
+
+  if (commands !== undefined) {
+    if (!Array.isArray(commands) || commands.length > MAX_COMMANDS || !commands.every(command => typeof command === 'string' && COMMAND_NAME_REGEX.test(command))) {
+      errors.push({ field: 'capabilities.commands', message: `must be a list of at most ${MAX_COMMANDS} command names` });
+    } else {
+      value.commands = commands as string[];
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value };
+}
+
+/**
+ * Validate a per-device lifecycle policy
+ * @param body - Untrusted policy, e.g. { mode: 'expire', afterDays: 30 }
+ * @returns The validated policy, or field-level errors
+ */
+export function validateLifecyclePolicy(body: unknown): ValidationResult<LifecyclePolicy> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const { mode, afterDays } = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const maxDays = config.lifecycle.maxAfterDays;
+
+  if (typeof mode !== 'string' || !(LIFECYCLE_MODES as string[]).includes(mode)) {
+    errors.push({ field: 'mode', message: `must be one of: ${LIFECYCLE_MODES.join(', ')}` });
+  }
+
+  // 'never' has nothing to count down, so the days are optional there
+  const daysRequired = mode !== 'never';
+  if ((daysRequired || afterDays !== undefined) &&
+      (typeof afterDays !== 'number' || !Number.isInteger(afterDays) || afterDays < 1 || afterDays > maxDays)) {
+    errors.push({ field: 'afterDays', message: `must be an integer between 1 and ${maxDays}` });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      mode: mode as LifecycleMode,
+      afterDays: (afterDays as number | undefined) ?? config.lifecycle.defaultPolicy.afterDays
+    }
+  };
+}
+
+/**
+ * Validate a per-device recording window
+ * Omitted fields keep their current value.
+ * @param body - Untrusted window, e.g. { preRollSeconds: 10 }
+ * @param current - Window currently in effect for the device
+ * @returns The validated window, or field-level errors
+ */
+export function validateRecordingWindow(body: unknown, current: RecordingWindow): ValidationResult<RecordingWindow> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: RecordingWindow = { ...current };
+  const limits: Record<keyof RecordingWindow, number> = {
+    preRollSeconds: config.recordings.maxPreRollSeconds,
+    postRollSeconds: config.recordings.maxPostRollSeconds
+  };
+
+  for (const [field, max] of Object.entries(limits) as [keyof RecordingWindow, number][]) {
+    const seconds = input[field];
+    if (seconds === undefined) {
+      continue;
+    }
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0 || seconds > max) {
+      errors.push({ field, message: `must be a number of seconds between 0 and ${max}` });
+    } else {
+      value[field] = seconds;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value };
+}
+
+/**
+ * Validate per-device motion detection settings
+ * Omitted fields keep their current value.
+ * @param body - Untrusted settings, e.g. { enabled: true, sensitivity: 90 }
+ * @param current - Settings currently in effect for the device
+ * @returns The validated settings, or field-level errors
+ */
+export function validateMotionSettings(body: unknown, current: MotionSettings): ValidationResult<MotionSettings> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const { enabled, sensitivity, minAreaPercent, triggerRecording } = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: MotionSettings = { ...current };
+
+  for (const [field, flag] of [['enabled', enabled], ['triggerRecording', triggerRecording]] as const) {
+    if (flag === undefined) {
+      continue;
+    }
+    if (typeof flag !== 'boolean') {
+      errors.push({ field, message: 'must be true or false' });
+    } else {
+      value[field] = flag;
+    }
+  }
+
+  if (sensitivity !== undefined) {
+    if (typeof sensitivity !== 'number' || !Number.isInteger(sensitivity) || sensitivity < 1 || sensitivity > 100) {
+      errors.push({ field: 'sensitivity', message: 'must be an integer between 1 and 100' });
+    } else {
+      value.sensitivity = sensitivity;
+    }
+  }
+
+  if (minAreaPercent !== undefined) {
+    if (typeof minAreaPercent !== 'number' || !Number.isFinite(minAreaPercent) || minAreaPercent <= 0 || minAreaPercent > 100) {
+      errors.push({ field: 'minAreaPercent', message: 'must be a percentage above 0 and at most 100' });
+    } else {
+      value.minAreaPercent = minAreaPercent;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value };
+}
@@ -0,0 +1,124 @@
+/**
+ * Schedule Schema Validation
+ * Validates weekly schedule payloads; entry configs use the DeviceConfig
+ * rules from deviceSchema.ts
+ */
+
+import config from '../config.js';
+import { ScheduleInput, ScheduleEntry } from '../services/ScheduleManager.js';
+import { FieldError, ValidationResult, validateDeviceConfig } from './deviceSchema.js';
+
+const MAX_NAME_LENGTH = 64;
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const TARGET_TYPES = ['device', 'group'];
+
+/**
+ * Validate a single schedule entry
+ * Config fields are checked in general; whether a particular device
+ * supports them is decided when the entry is applied.
+ * @param input - Untrusted entry
+ * @param prefix - Field path used in error messages (e.g. entries[0])
+ * @param errors - Collects the entry's field errors
+ * @returns The validated entry, or undefined if it has errors
+ */
+function validateEntry(input: unknown, prefix: string, errors: FieldError[]): Omit<ScheduleEntry, 'entryId'> | undefined {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    errors.push({ field: prefix, message: 'must be an object' });
+    return undefined;
+  }
+
+  const { days, time, config: entryConfig } = input as Record<string, unknown>;
+  const errorCount = errors.length;
+
+  if (!Array.isArray(days) || days.length === 0 || !days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    errors.push({ field: `${prefix}.days`, message: 'must be a non-empty list of weekdays (0 = Sunday to 6 = Saturday)' });
+  } else if (new Set(days).size !== days.length) {
+    errors.push({ field: `${prefix}.days`, message: 'must not repeat a day' });
+  }
+
+  if (typeof time !== 'string' || !TIME_REGEX.test(time)) {
+    errors.push({ field: `${prefix}.time`, message: 'must be a time in HH:MM (24-hour) format' });
+  }
+
+  const configResult = validateDeviceConfig(entryConfig);
+  if (!configResult.valid) {
+    errors.push(...configResult.errors.map(error => ({ ...error, field: `${prefix}.${error.field}` })));
+  } else if (Object.keys(configResult.value).length === 0) {
+    errors.push({ field: `${prefix}.config`, message: 'must change at least one field' });
+  }
+
+  if (errors.length > errorCount || !configResult.valid) {
+    return undefined;
+  }
+
+  return { days: [...(days as number[])].sort((a, b) => a - b), time: time as string, config: configResult.value };
+}
+
+/**
+ * Validate the body of POST/PUT /dashboard/schedules
+ * @param body - Untrusted request body
+ * @returns The validated schedule, or field-level errors
+ */
+export function validateSchedule(body: unknown): ValidationResult<ScheduleInput> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, errors: [{ field: 'body', message: 'must be a JSON object' }] };
+  }
+
+  const { name, target, enabled, entries } = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  const { type, id } = (target && typeof target === 'object' ? target : {}) as Record<string, unknown>;
+  if (typeof type !== 'string' || !TARGET_TYPES.includes(type)) {
+    errors.push({ field: 'target.type', message: `must be one of: ${TARGET_TYPES.join(', ')}` });
+  }
+  if (typeof id !== 'string' || id.length === 0) {
+    errors.push({ field: 'target.id', message: 'is required' });
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    errors.push({ field: 'enabled', message: 'must be a boolean' });
+  }
+
+  const maxEntries = config.schedules.maxEntriesPerSchedule;
+  const parsedEntries: Omit<ScheduleEntry, 'entryId'>[] = [];
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > maxEntries) {
+    errors.push({ field: 'entries', message: `must be a list of 1 to ${maxEntries} entries` });
+  } else {
+    entries.forEach((entry, index) => {
+      const parsed = validateEntry(entry, `entries[${index}]`, errors);
+      if (parsed) {
+        parsedEntries.push(parsed);
+      }
+    });
+
+    // Two entries starting at the same moment would make the active one ambiguous
+    const slots = new Set<string>();
+    for (const entry of parsedEntries) {
+      for (const day of entry.days) {
+        const slot = `${day} ${entry.time}`;
+        if (slots.has(slot)) {
+          errors.push({ field: 'entries', message: `more than one entry starts on day ${day} at ${entry.time}` });
+        }
+        slots.add(slot);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      name: (name as string).trim(),
+      target: { type: type as ScheduleInput['target']['type'], id: id as string },
+      enabled: enabled !== false,
+      entries: parsedEntries
+    }
+  };
+}